@@ -1,7 +1,20 @@
 import { Stack } from "expo-router";
+import { useEffect } from "react";
 import "react-native-reanimated";
 
+import { obstacleConfigStore } from "../src/hooks/useObstacleDetectionConfig";
+import { onboardingStore } from "../src/hooks/useOnboarding";
+import { privacyStore } from "../src/hooks/usePrivacy";
+
 export default function RootLayout() {
+  useEffect(() => {
+    obstacleConfigStore.hydrate().then(() => {
+      console.log("Loaded obstacle detection config:", obstacleConfigStore.getSnapshot());
+    });
+    privacyStore.hydrate();
+    onboardingStore.hydrate();
+  }, []);
+
   return (
     <Stack
       screenOptions={{
@@ -1,28 +1,47 @@
 import * as React from 'react'
 import { StyleSheet, Text, View } from 'react-native'
 
+import { AlertLevel } from '../../src/hooks/detectionCore'
+
 export default function DetectionOverlay({
   detected,
+  alertLevel,
   height,
+  distance,
+  timeToContact,
   confidence,
+  label,
+  trackCount,
   modelAvailable,
 }: {
   detected: boolean
+  alertLevel: AlertLevel
   height: number | null
+  distance: number | null
+  timeToContact: number | null
   confidence: number | null
+  label: string | null
+  trackCount: number
   modelAvailable: boolean
 }) {
   return (
   <View style={styles.overlay} pointerEvents="box-none">
       <Text style={styles.overlayText}>
-        {detected ? 'Obstacle detected!' : 'No obstacle'}
+        {detected ? `${label ?? 'Obstacle'} detected! (${alertLevel})` : 'No obstacle'}
       </Text>
       <Text style={styles.overlayText}>
         {height != null ? `h: ${height.toFixed(3)}` : ''}
       </Text>
+      <Text style={styles.overlayText}>
+        {distance != null ? `d: ${distance.toFixed(1)}m` : ''}
+        {timeToContact != null && isFinite(timeToContact) ? `  ttc: ${timeToContact.toFixed(1)}s` : ''}
+      </Text>
       <Text style={styles.overlayText}>
         {confidence != null ? `conf: ${confidence.toFixed(2)}` : ''}
       </Text>
+      <Text style={styles.overlayText}>
+        {`tracks: ${trackCount}`}
+      </Text>
       <Text style={styles.overlayText}>
         {`model: ${modelAvailable ? 'yes' : 'no'}`}
       </Text>
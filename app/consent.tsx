@@ -0,0 +1,151 @@
+import { useRouter } from 'expo-router'
+import * as React from 'react'
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native'
+
+import { useObstacleDetectionConfig } from '../src/hooks/useObstacleDetectionConfig'
+import { privacyStore, usePrivacySettings } from '../src/hooks/usePrivacy'
+import { NOT_COLLECTED, RECORDING_FIELDS, TELEMETRY_FIELDS, TelemetryField } from '../src/utils/privacy'
+
+function destinationOf(url: string | null): string {
+  if (!url) return 'Data stays on this device until you export it.'
+  try {
+    return `Data is uploaded to ${new URL(url).host}.`
+  } catch {
+    return `Data is uploaded to ${url}.`
+  }
+}
+
+function FieldList({ fields }: { fields: Record<string, TelemetryField> }) {
+  return Object.entries(fields).map(([key, field]) => (
+    <Text key={key} style={styles.item}>
+      {`• ${field.description}${field.coarsening ? ` (${field.coarsening.toLowerCase()})` : ''}`}
+    </Text>
+  ))
+}
+
+export default function Consent(): React.ReactNode {
+  const router = useRouter()
+  const config = useObstacleDetectionConfig()
+  const privacy = usePrivacySettings()
+
+  const choose = React.useCallback((granted: boolean) => {
+    privacyStore.setConsent(granted)
+    if (router.canGoBack()) router.back()
+    else router.replace('/')
+  }, [router])
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title} accessibilityRole="header">Detection logging</Text>
+        <Text style={styles.body}>
+          To help improve obstacle detection, AILens can record what it detected while you walk.
+          This is off unless you agree, and you can turn it off, export or delete the data at any time in Settings.
+        </Text>
+        <Text style={styles.body}>{destinationOf(config.DETECTION_LOG_URL)}</Text>
+
+        <Text style={styles.section} accessibilityRole="header">What is collected</Text>
+        <FieldList fields={TELEMETRY_FIELDS} />
+
+        <Text style={styles.section} accessibilityRole="header">Session recordings</Text>
+        <Text style={styles.body}>
+          {config.DETECTION_RECORD_SESSIONS
+            ? 'Session recording is on, so while you navigate AILens also keeps a detailed record on this device of:'
+            : 'If session recording is turned on in Settings, AILens also keeps a detailed record on this device of:'}
+        </Text>
+        <FieldList fields={RECORDING_FIELDS} />
+
+        <Text style={styles.section} accessibilityRole="header">Never collected</Text>
+        {NOT_COLLECTED.map(item => (
+          <Text key={item} style={styles.item}>{`• ${item}`}</Text>
+        ))}
+
+        {privacy.consent !== 'unknown' && (
+          <Text style={styles.status}>
+            {privacy.consent === 'granted'
+              ? `You agreed${privacy.consentedAt ? ` on ${new Date(privacy.consentedAt).toLocaleDateString()}` : ''}.`
+              : 'You have not agreed to logging.'}
+          </Text>
+        )}
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <Pressable
+          style={[styles.button, styles.allow]}
+          onPress={() => choose(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Allow detection logging"
+        >
+          <Text style={styles.buttonText}>Allow logging</Text>
+        </Pressable>
+        <Pressable
+          style={styles.button}
+          onPress={() => choose(false)}
+          accessibilityRole="button"
+          accessibilityLabel="Do not allow detection logging"
+        >
+          <Text style={styles.buttonText}>Don&apos;t allow</Text>
+        </Pressable>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#111',
+  },
+  content: {
+    paddingTop: 48,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  title: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  body: {
+    color: 'white',
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  section: {
+    color: '#aaa',
+    fontSize: 13,
+    marginTop: 16,
+    marginBottom: 6,
+    textTransform: 'uppercase',
+  },
+  item: {
+    color: 'white',
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  status: {
+    color: '#aaa',
+    fontSize: 14,
+    marginTop: 16,
+  },
+  actions: {
+    padding: 20,
+    gap: 12,
+  },
+  button: {
+    minHeight: 52,
+    borderRadius: 8,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  allow: {
+    backgroundColor: '#2f6fd6',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 17,
+  },
+})
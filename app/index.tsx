@@ -1,64 +1,235 @@
+import * as Speech from 'expo-speech'
+import { useRouter } from 'expo-router'
 import * as React from 'react'
-import { ActivityIndicator, StyleSheet, Text, View } from 'react-native'
+import { AccessibilityActionEvent, ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native'
 import { useTensorflowModel } from 'react-native-fast-tflite'
 import { Camera, useCameraDevice, useCameraPermission } from 'react-native-vision-camera'
 
+import { DebugOverlay } from '../src/components/DebugOverlay'
+import { DirectionalAudio } from '../src/components/DirectionalAudio'
+import { HealthBanner } from '../src/components/HealthBanner'
+import { Sonification } from '../src/components/Sonification'
 import { SonarHaptics } from '../src/components/SonarHaptics'
+import { SpeechAnnouncer } from '../src/components/SpeechAnnouncer'
+import { DEFAULT_HEALTH_OPTIONS } from '../src/hooks/healthCore'
+import { DEFAULT_SESSION_OPTIONS, SessionOptions, SessionStatus } from '../src/hooks/sessionCore'
 import { useCameraFrameProcessor } from '../src/hooks/useCameraFrameProcessor'
+import { useDetectionHealth } from '../src/hooks/useDetectionHealth'
+import { useDeviceMotion } from '../src/hooks/useDeviceMotion'
+import {
+  recordSessionAlert,
+  reportSessionFault,
+  startSession,
+  toggleSession,
+  useNavigationSession,
+} from '../src/hooks/useNavigationSession'
 import { useObstacleDetectionConfig } from '../src/hooks/useObstacleDetectionConfig'
 import { useObstacleDetector } from '../src/hooks/useObstacleDetector'
+import { useOnboarding } from '../src/hooks/useOnboarding'
+import { usePrivacySettings } from '../src/hooks/usePrivacy'
+import { useSceneDescription } from '../src/hooks/useSceneDescription'
+import { useSessionRecorder } from '../src/hooks/useSessionRecorder'
+import { Detection } from '../src/hooks/useTensorFlowDetectionProcessor'
+import { horizontalPosition } from '../src/utils/announcementQueue'
+import { cameraFromFormat } from '../src/utils/distance'
+import { CAMERA_EXPLANATION } from '../src/utils/onboarding'
+import { parseLabelMap } from '../src/utils/labelMap'
+import { findModel, manifestIssues } from '../src/utils/modelManifest'
+import { MODEL_REGISTRY } from '../src/utils/modelRegistry'
 import DetectionOverlay from './components/DetectionOverlay'
 
-interface Detection {
-  height: number
-  confidence: number
+const DOUBLE_TAP_MS = 300
+const LONG_PRESS_MS = 800
+
+const STATUS_TEXT: Record<SessionStatus, string> = {
+  idle: 'Navigation stopped',
+  running: 'Navigating',
+  paused: 'Navigation paused',
 }
 
 export default function App(): React.ReactNode {
   const config = useObstacleDetectionConfig()
+  const router = useRouter()
+  const openSettings = React.useCallback(() => router.push('/settings'), [router])
+  const privacy = usePrivacySettings()
+  const collectsData = !!config.DETECTION_LOG_URL || config.DETECTION_RECORD_SESSIONS
+  // Same gates as the telemetry uploader and the session recorder, so the badge shows exactly when either writes.
+  const loggingActive = collectsData && privacy.consent === 'granted'
+  const onboarding = useOnboarding()
+  const onboarded = onboarding.completedAt != null
+
+  React.useEffect(() => {
+    // First run goes through setup, which asks for the camera itself.
+    if (onboarding.hydrated && !onboarded) router.replace('/onboarding')
+  }, [onboarding.hydrated, onboarded, router])
+
+  React.useEffect(() => {
+    // Ask once, before anything is recorded or uploaded.
+    if (onboarded && privacy.hydrated && privacy.consent === 'unknown' && collectsData) {
+      router.push('/consent')
+    }
+  }, [onboarded, privacy.hydrated, privacy.consent, collectsData, router])
   const { hasPermission, requestPermission } = useCameraPermission()
   const device = useCameraDevice('back')
+  // No format is pinned, so the widest reported field of view stands in for the default one.
+  const fieldOfView = React.useMemo(() => {
+    const fovs = (device?.formats ?? []).map(f => f.fieldOfView).filter(f => f > 0)
+    return fovs.length > 0 ? Math.max(...fovs) : undefined
+  }, [device])
+  const camera = React.useMemo(
+    () => cameraFromFormat({ fieldOfView }, config.CAMERA_TILT_DEG, config.CAMERA_HEIGHT_M, config.CAMERA_VERTICAL_FOV_DEG),
+    [fieldOfView, config.CAMERA_TILT_DEG, config.CAMERA_HEIGHT_M, config.CAMERA_VERTICAL_FOV_DEG]
+  )
+
+  // Auto-pause needs the motion sensors to notice the phone going face down, even without motion compensation.
+  useDeviceMotion(config.OBSTACLE_MOTION_COMPENSATION || config.DETECTION_AUTO_PAUSE)
 
-  const model = useTensorflowModel(require('../assets/model.tflite'))
+  const manifest = React.useMemo(() => findModel(MODEL_REGISTRY, config.DETECTION_MODEL), [config.DETECTION_MODEL])
+  const model = useTensorflowModel(manifest.source)
   const actualModel = model.state === 'loaded' ? model.model : undefined
+  const labelMap = React.useMemo(() => parseLabelMap(manifest.labels), [manifest])
+
+  React.useEffect(() => {
+    const issues = manifestIssues(manifest)
+    if (issues.length > 0) console.warn('Model manifest issues:', issues)
+  }, [manifest])
 
   React.useEffect(() => {
     if (actualModel == null) return
-    console.log(`TensorFlow model loaded successfully: ${actualModel.inputs.length} inputs, ${actualModel.outputs.length} outputs`)
-  }, [actualModel])
+    console.log(`TensorFlow model ${manifest.id} loaded successfully: ${actualModel.inputs.length} inputs, ${actualModel.outputs.length} outputs`)
+  }, [actualModel, manifest.id])
 
   const {
-    handleDetection,
-    obstacleDetected,
-    lastHeight,
-    lastConfidence,
-  } = useObstacleDetector()
+    handleDetections,
+    handleGroundAnalysis,
+    obstacles,
+    primaryObstacle,
+    hazard,
+    alertLevel,
+    clearSide,
+    reset: resetDetector,
+    sendLogs,
+  } = useObstacleDetector({ model: manifest.id, camera })
+
+  const sessionOptions: SessionOptions = React.useMemo(
+    () => ({ ...DEFAULT_SESSION_OPTIONS, autoPause: config.DETECTION_AUTO_PAUSE }),
+    [config.DETECTION_AUTO_PAUSE]
+  )
+  const ready = onboarded && hasPermission && device != null && actualModel != null
+  const session = useNavigationSession(sessionOptions, ready)
+  const status = session.state.status
+  const running = status === 'running'
 
-  const onDetection = React.useCallback((detection: Detection) => {
-    console.log(`Obstacle detected: ${detection.height.toFixed(3)}m height, ${(detection.confidence * 100).toFixed(1)}% confidence`)
-    handleDetection(detection)
-  }, [handleDetection])
+  const autoStartedRef = React.useRef(false)
+  React.useEffect(() => {
+    if (!ready || !config.DETECTION_AUTO_START || autoStartedRef.current) return
+    autoStartedRef.current = true
+    startSession()
+  }, [ready, config.DETECTION_AUTO_START])
+
+  React.useEffect(() => {
+    if (model.state === 'error' && status !== 'idle') reportSessionFault('model')
+  }, [model.state, status])
+
+  const health = useDetectionHealth(
+    {
+      model: model.state,
+      fault: session.state.fault,
+      active: running,
+      // The camera runs while paused too, so a silent camera is caught then as well.
+      expectFrames: ready && status !== 'idle' && session.state.pauseReason !== 'background',
+    },
+    DEFAULT_HEALTH_OPTIONS
+  )
+
+  const previousStatusRef = React.useRef(status)
+  React.useEffect(() => {
+    const previous = previousStatusRef.current
+    previousStatusRef.current = status
+    if (running) return
+    // Nothing should keep buzzing or talking about obstacles from before the pause.
+    resetDetector()
+    if (status === 'idle' && previous !== 'idle') sendLogs()
+  }, [status, running, resetDetector, sendLogs])
+
+  const previousAlertRef = React.useRef(alertLevel)
+  React.useEffect(() => {
+    if (previousAlertRef.current === 'none' && alertLevel !== 'none') recordSessionAlert()
+    previousAlertRef.current = alertLevel
+  }, [alertLevel])
+
+  const onDetections = React.useCallback((detections: Detection[]) => {
+    handleDetections(detections)
+  }, [handleDetections])
 
   const onFallbackDetection = React.useCallback((detection: Detection) => {
     console.log(`Fallback detection: ${detection.height.toFixed(3)}m height, ${(detection.confidence * 100).toFixed(1)}% confidence`)
-    handleDetection(detection)
-  }, [handleDetection])
+    handleDetections([detection])
+  }, [handleDetections])
+
+  const scene = useSceneDescription(camera)
+  const describeScene = scene.describe
+  const lastTapRef = React.useRef(0)
+  // A double tap anywhere on the camera view asks what is around; screen readers activate it directly.
+  const onCameraPress = React.useCallback(() => {
+    const now = Date.now()
+    if (now - lastTapRef.current <= DOUBLE_TAP_MS) {
+      lastTapRef.current = 0
+      describeScene()
+    } else {
+      lastTapRef.current = now
+    }
+  }, [describeScene])
+
+  // Screen readers reach the long press through the standard action (double tap and hold).
+  const onCameraAction = React.useCallback((event: AccessibilityActionEvent) => {
+    if (event.nativeEvent.actionName === 'longpress') toggleSession()
+    else describeScene()
+  }, [describeScene])
+
+  const onCameraError = React.useCallback((error: Error) => {
+    console.error('Camera error:', error.message)
+    reportSessionFault('camera')
+  }, [])
+
+  const recordModelOutput = useSessionRecorder({
+    enabled: config.DETECTION_RECORD_SESSIONS && privacy.consent === 'granted' && actualModel != null && status !== 'idle',
+    model: manifest.id,
+  })
 
   const frameProcessor = useCameraFrameProcessor({
     model: actualModel,
-    onDetection,
+    manifest,
+    labelMap,
+    onDetections,
     onFallbackDetection,
-    cooldownMs: config.DETECTION_COOLDOWN_MS
+    onModelOutput: recordModelOutput,
+    onGroundAnalysis: config.OBSTACLE_GROUND_HAZARDS ? handleGroundAnalysis : null,
+    camera,
+    debug: config.DETECTION_DEBUG_OVERLAY,
+    paused: status === 'paused',
+    cooldownMs: config.DETECTION_COOLDOWN_MS,
+    targetFps: config.DETECTION_TARGET_FPS,
+    minFps: config.DETECTION_MIN_FPS,
   })
 
   React.useEffect(() => {
-    if (!hasPermission) {
+    if (!onboarded || hasPermission) return
+    let asked = false
+    const ask = () => {
+      if (asked) return
+      asked = true
       console.log('Requesting camera permission...')
       requestPermission().then(granted => {
         console.log(`Camera permission ${granted ? 'granted' : 'denied'}`)
       })
     }
-  }, [hasPermission, requestPermission])
+    // The system prompt says nothing about why; say it first, and only show the prompt once that has been heard.
+    Speech.speak(CAMERA_EXPLANATION, { onDone: ask, onStopped: ask, onError: ask })
+    return () => {
+      asked = true
+    }
+  }, [onboarded, hasPermission, requestPermission])
 
   if (model.state === 'loading') {
     console.log('Loading TensorFlow model...')
@@ -67,39 +238,118 @@ export default function App(): React.ReactNode {
   }
 
   return (
-    <View style={styles.container}>
+    // VoiceOver's two-finger double tap (magic tap) also opens settings.
+    <View style={styles.container} onMagicTap={openSettings}>
       {hasPermission && device != null ? (
         <Camera
           device={device}
           style={StyleSheet.absoluteFill}
-          isActive={true}
+          // Kept on while paused so uncovering the lens can resume; the system stops it in the background anyway.
+          isActive={status !== 'idle' && session.state.pauseReason !== 'background'}
           frameProcessor={frameProcessor}
           pixelFormat="yuv"
+          onError={onCameraError}
         />
       ) : (
         <Text>No Camera available.</Text>
       )}
 
+      <Pressable
+        style={StyleSheet.absoluteFill}
+        onPress={onCameraPress}
+        onLongPress={toggleSession}
+        delayLongPress={LONG_PRESS_MS}
+        accessibilityRole="button"
+        accessibilityLabel="Describe surroundings"
+        accessibilityHint="Speaks what the camera sees around you. Long press to start or stop navigating"
+        accessibilityValue={{ text: STATUS_TEXT[status] }}
+        accessibilityActions={[
+          { name: 'activate' },
+          { name: 'longpress', label: status === 'idle' ? 'Start navigation' : 'Stop navigation' },
+        ]}
+        onAccessibilityAction={onCameraAction}
+      />
+
+      {config.DETECTION_DEBUG_OVERLAY && <DebugOverlay />}
+
       {model.state === 'loading' && (
         <ActivityIndicator size="small" color="white" />
       )}
 
-      {model.state === 'error' && (
-        <Text>Failed to load model! {model.error.message}</Text>
-      )}
+      <HealthBanner health={health} />
 
       <DetectionOverlay 
-        detected={obstacleDetected} 
-        height={lastHeight} 
-        confidence={lastConfidence} 
+        detected={primaryObstacle != null} 
+        alertLevel={alertLevel}
+        height={primaryObstacle?.height ?? null} 
+        distance={primaryObstacle?.distance ?? null}
+        timeToContact={primaryObstacle?.timeToContact ?? null}
+        confidence={primaryObstacle?.confidence ?? null} 
+        label={primaryObstacle?.label ?? null}
+        trackCount={obstacles.length}
         modelAvailable={!!actualModel} 
       />
 
-      <SonarHaptics 
-        obstacleDetected={obstacleDetected}
-        obstacleHeight={lastHeight}
-        obstacleConfidence={lastConfidence}
+      {config.OBSTACLE_SONIFICATION_ENABLED ? (
+        // The continuous tone already carries direction, proximity and drop-offs, so it replaces the beeps too.
+        <Sonification
+          alertLevel={alertLevel}
+          position={horizontalPosition(primaryObstacle?.centerX ?? null)}
+          label={primaryObstacle?.label ?? null}
+          hazard={hazard?.kind ?? null}
+          centerX={primaryObstacle?.centerX ?? null}
+          distance={primaryObstacle?.distance ?? null}
+          height={primaryObstacle?.height ?? null}
+        />
+      ) : (
+        <>
+          <SonarHaptics
+            alertLevel={alertLevel}
+            position={horizontalPosition(primaryObstacle?.centerX ?? null)}
+            label={primaryObstacle?.label ?? null}
+            hazard={hazard?.kind ?? null}
+          />
+          <DirectionalAudio alertLevel={alertLevel} centerX={primaryObstacle?.centerX ?? null} />
+        </>
+      )}
+
+      <SpeechAnnouncer
+        alertLevel={primaryObstacle?.alertLevel ?? 'none'}
+        obstacleHeight={primaryObstacle?.height ?? null}
+        obstacleConfidence={primaryObstacle?.avgConfidence ?? null}
+        obstacleCenterX={primaryObstacle?.centerX ?? null}
+        obstacleDistance={primaryObstacle?.distance ?? null}
+        clearSide={clearSide}
+        obstacleLabel={primaryObstacle?.label ?? null}
+        obstacleUrgent={primaryObstacle?.urgent ?? false}
+        hazard={hazard}
+        scene={scene.request}
+        notice={session.notice}
+        health={health.notice}
       />
+
+      {loggingActive && (
+        <Pressable
+          style={styles.loggingBadge}
+          onPress={openSettings}
+          accessibilityRole="button"
+          accessibilityLabel="Detection logging is on"
+          accessibilityHint="Opens settings to review or turn off logging"
+        >
+          <View style={styles.loggingDot} />
+          <Text style={styles.settingsText}>Logging</Text>
+        </Pressable>
+      )}
+
+      <Pressable
+        style={styles.settingsButton}
+        onPress={openSettings}
+        accessibilityRole="button"
+        accessibilityLabel="Settings"
+        accessibilityHint="Adjust detection, haptic and speech settings"
+      >
+        <Text style={styles.settingsText}>Settings</Text>
+      </Pressable>
     </View>
   )
 }
@@ -110,4 +360,38 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  settingsButton: {
+    position: 'absolute',
+    top: 48,
+    right: 20,
+    minWidth: 44,
+    minHeight: 44,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loggingBadge: {
+    position: 'absolute',
+    top: 48,
+    left: 20,
+    minHeight: 44,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  loggingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#ff3b30',
+  },
+  settingsText: {
+    color: 'white',
+    fontSize: 15,
+  },
 })
\ No newline at end of file
@@ -0,0 +1,377 @@
+import * as Speech from 'expo-speech'
+import { useRouter } from 'expo-router'
+import * as React from 'react'
+import { AccessibilityInfo, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native'
+import { Camera, useCameraDevice, useCameraPermission } from 'react-native-vision-camera'
+
+import { hapticEngine } from '../src/components/SonarHaptics'
+import {
+  Calibration,
+  CalibrationSample,
+  calibrateWalk,
+  calibrationConfig,
+  describeCalibration,
+  holdingTilt,
+} from '../src/hooks/calibrationCore'
+import { DEFAULT_MOTION_OPTIONS } from '../src/hooks/motionCore'
+import { useCalibrationFrameProcessor } from '../src/hooks/useCalibrationFrameProcessor'
+import { currentFacing, currentMotion, onMotionSample, useDeviceMotion } from '../src/hooks/useDeviceMotion'
+import { obstacleConfigStore, useObstacleDetectionConfig } from '../src/hooks/useObstacleDetectionConfig'
+import { onboardingStore } from '../src/hooks/useOnboarding'
+import { cameraFromFormat } from '../src/utils/distance'
+import { CAMERA_EXPLANATION, PATTERN_GUIDE, SOUND_GUIDE } from '../src/utils/onboarding'
+
+type Step = 'welcome' | 'signals' | 'camera' | 'hold' | 'walk' | 'done'
+
+const STEPS: Step[] = ['welcome', 'signals', 'camera', 'hold', 'walk', 'done']
+
+const STEP_TEXT: Record<Step, { title: string; body: string }> = {
+  welcome: {
+    title: 'Welcome to AILens',
+    body: 'AILens warns you about obstacles ahead with vibration, sound and speech. This setup explains the signals, ' +
+      'asks for the camera and measures how you carry your phone. It takes about two minutes.',
+  },
+  signals: {
+    title: 'Vibrations and sounds',
+    body: 'Each vibration below plays when you activate it, with a short explanation. ' + SOUND_GUIDE,
+  },
+  camera: {
+    title: 'Camera',
+    body: CAMERA_EXPLANATION,
+  },
+  hold: {
+    title: 'How you hold the phone',
+    body: 'Hold your phone the way you carry it while walking, with the back camera facing ahead. ' +
+      'Then activate Measure and keep still for three seconds.',
+  },
+  walk: {
+    title: 'Walk toward a wall',
+    body: 'Stand about four steps from a wall, facing it, holding the phone as before. Activate Start, then walk ' +
+      'three steps toward the wall at your normal pace and stop. Measuring finishes by itself once you stop.',
+  },
+  done: {
+    title: 'All set',
+    body: 'Long press the camera view to start or stop navigating. You can run this setup again from Settings.',
+  },
+}
+
+// Sensors settle for a moment after the user confirms, before the pose is read.
+const SETTLE_MS = 1000
+const HOLD_MS = 3000
+const SAMPLE_MS = 100
+// The walk finishes once the user has walked this long and then stood still for STOPPED_MS, or after WALK_TIMEOUT_MS.
+const MIN_WALKED_MS = 1500
+const STOPPED_MS = 1500
+const WALK_TIMEOUT_MS = 20_000
+// A wall reading older than this no longer describes the current step.
+const MAX_WALL_AGE_MS = 300
+
+// Screen reader users hear instructions through their reader, everyone else through speech.
+async function say(text: string) {
+  if (await AccessibilityInfo.isScreenReaderEnabled()) {
+    AccessibilityInfo.announceForAccessibility(text)
+  } else {
+    Speech.stop().catch(() => {})
+    Speech.speak(text)
+  }
+}
+
+export default function Onboarding(): React.ReactNode {
+  const router = useRouter()
+  const config = useObstacleDetectionConfig()
+  const { hasPermission, requestPermission } = useCameraPermission()
+  const device = useCameraDevice('back')
+  const [step, setStep] = React.useState<Step>('welcome')
+  const [tiltDeg, setTiltDeg] = React.useState<number | null>(null)
+  const [calibration, setCalibration] = React.useState<Calibration | null>(null)
+  const [measuring, setMeasuring] = React.useState(false)
+  const [result, setResult] = React.useState<string | null>(null)
+
+  useDeviceMotion(step === 'hold' || step === 'walk')
+
+  const rotationRef = React.useRef(0)
+  React.useEffect(() => onMotionSample(sample => {
+    const [x, y, z] = sample.rotation
+    rotationRef.current = Math.sqrt(x * x + y * y + z * z)
+  }), [])
+
+  const timerRef = React.useRef<ReturnType<typeof setInterval> | null>(null)
+  const stopTimer = React.useCallback(() => {
+    if (timerRef.current) clearInterval(timerRef.current)
+    timerRef.current = null
+    setMeasuring(false)
+  }, [])
+  React.useEffect(() => stopTimer, [stopTimer])
+
+  React.useEffect(() => {
+    const { title, body } = STEP_TEXT[step]
+    setResult(null)
+    say(`${title}. ${body}`)
+  }, [step])
+
+  const fieldOfView = React.useMemo(() => {
+    const fovs = (device?.formats ?? []).map(f => f.fieldOfView).filter(f => f > 0)
+    return fovs.length > 0 ? Math.max(...fovs) : undefined
+  }, [device])
+  const camera = React.useMemo(
+    () => cameraFromFormat({ fieldOfView }, tiltDeg ?? config.CAMERA_TILT_DEG, config.CAMERA_HEIGHT_M, config.CAMERA_VERTICAL_FOV_DEG),
+    [fieldOfView, tiltDeg, config.CAMERA_TILT_DEG, config.CAMERA_HEIGHT_M, config.CAMERA_VERTICAL_FOV_DEG]
+  )
+
+  const wallRef = React.useRef<{ row: number | null; at: number } | null>(null)
+  const onWallRow = React.useCallback((row: number | null, at: number) => {
+    wallRef.current = { row, at }
+  }, [])
+  const frameProcessor = useCalibrationFrameProcessor(camera, onWallRow)
+
+  const next = React.useCallback(() => {
+    stopTimer()
+    setStep(current => STEPS[Math.min(STEPS.length - 1, STEPS.indexOf(current) + 1)])
+  }, [stopTimer])
+
+  const finish = React.useCallback((measured: Calibration | null) => {
+    stopTimer()
+    if (measured) obstacleConfigStore.setCalibration(calibrationConfig(measured))
+    onboardingStore.complete()
+    if (router.canGoBack()) router.back()
+    else router.replace('/')
+  }, [router, stopTimer])
+
+  const feel = React.useCallback((index: number) => {
+    const sample = PATTERN_GUIDE[index]
+    hapticEngine().play(sample.pattern, sample.priority)
+    say(sample.description)
+  }, [])
+
+  const allowCamera = React.useCallback(async () => {
+    const granted = await requestPermission()
+    const text = granted ? 'Camera allowed.' : 'Camera not allowed. You can allow it later in the system settings.'
+    setResult(text)
+    say(text)
+  }, [requestPermission])
+
+  const measureHold = React.useCallback(() => {
+    stopTimer()
+    setMeasuring(true)
+    say('Keep still')
+    const startedAt = Date.now()
+    const facings: (number | null)[] = []
+    timerRef.current = setInterval(() => {
+      const elapsed = Date.now() - startedAt
+      if (elapsed < SETTLE_MS) return
+      facings.push(currentFacing())
+      if (elapsed < SETTLE_MS + HOLD_MS) return
+      stopTimer()
+      const tilt = holdingTilt(facings)
+      setTiltDeg(tilt)
+      const text = tilt != null
+        ? `Done. ${describeCalibration({ tiltDeg: tilt, heightM: null, walkingSpeed: null, swayDegS: null })}.`
+        : 'Could not read the motion sensors. You can try again or skip this step.'
+      setResult(text)
+      say(text)
+    }, SAMPLE_MS)
+  }, [stopTimer])
+
+  const completeWalk = React.useCallback((samples: CalibrationSample[]) => {
+    stopTimer()
+    const tilt = tiltDeg ?? config.CAMERA_TILT_DEG
+    const walk = calibrateWalk(samples, tilt, camera.verticalFovDeg)
+    const measured: Calibration = { tiltDeg: tilt, ...walk }
+    setCalibration(measured)
+    const text = walk.walkingSpeed != null
+      ? `Done. ${describeCalibration(measured)}.`
+      : 'No walking was detected. You can try again or skip this step.'
+    setResult(text)
+    say(text)
+  }, [stopTimer, tiltDeg, config.CAMERA_TILT_DEG, camera.verticalFovDeg])
+
+  const samplesRef = React.useRef<CalibrationSample[]>([])
+  const measureWalk = React.useCallback(() => {
+    stopTimer()
+    setMeasuring(true)
+    say('Walk now')
+    samplesRef.current = []
+    const startedAt = Date.now()
+    let walkedMs = 0
+    let stoppedSince: number | null = null
+    timerRef.current = setInterval(() => {
+      const now = Date.now()
+      const wall = wallRef.current
+      const { walkingSpeed } = currentMotion(DEFAULT_MOTION_OPTIONS, now)
+      samplesRef.current.push({
+        t: now,
+        facing: currentFacing(),
+        rotationSpeed: rotationRef.current,
+        walkingSpeed,
+        wallRow: wall && now - wall.at <= MAX_WALL_AGE_MS ? wall.row : null,
+      })
+      const moving = walkingSpeed != null && walkingSpeed > DEFAULT_MOTION_OPTIONS.stationarySpeed
+      if (moving) {
+        walkedMs += SAMPLE_MS
+        stoppedSince = null
+      } else if (walkedMs >= MIN_WALKED_MS) {
+        stoppedSince = stoppedSince ?? now
+      }
+      if ((stoppedSince != null && now - stoppedSince >= STOPPED_MS) || now - startedAt >= WALK_TIMEOUT_MS) {
+        completeWalk(samplesRef.current)
+      }
+    }, SAMPLE_MS)
+  }, [stopTimer, completeWalk])
+
+  const { title, body } = STEP_TEXT[step]
+  const holdCalibration: Calibration | null = tiltDeg != null ? { tiltDeg, heightM: null, walkingSpeed: null, swayDegS: null } : null
+
+  return (
+    <View style={styles.container}>
+      {step === 'walk' && hasPermission && device != null && (
+        <Camera
+          device={device}
+          style={StyleSheet.absoluteFill}
+          isActive={measuring}
+          frameProcessor={frameProcessor}
+          pixelFormat="yuv"
+        />
+      )}
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.progress}>{`Step ${STEPS.indexOf(step) + 1} of ${STEPS.length}`}</Text>
+        <Text style={styles.title} accessibilityRole="header">{title}</Text>
+        <Text style={styles.body}>{body}</Text>
+
+        {step === 'signals' && PATTERN_GUIDE.map((sample, index) => (
+          <Pressable
+            key={sample.name}
+            style={styles.option}
+            onPress={() => feel(index)}
+            accessibilityRole="button"
+            accessibilityLabel={`Feel: ${sample.name}`}
+          >
+            <Text style={styles.buttonText}>{sample.name}</Text>
+          </Pressable>
+        ))}
+
+        {result && (
+          <Text style={styles.result} accessibilityLiveRegion="polite">{result}</Text>
+        )}
+      </ScrollView>
+
+      <View style={styles.actions}>
+        {step === 'camera' && !hasPermission && (
+          <Pressable style={[styles.button, styles.primary]} onPress={allowCamera} accessibilityRole="button">
+            <Text style={styles.buttonText}>Allow camera</Text>
+          </Pressable>
+        )}
+        {step === 'hold' && (
+          <Pressable
+            style={[styles.button, !measuring && styles.primary]}
+            onPress={measureHold}
+            disabled={measuring}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: measuring, busy: measuring }}
+          >
+            <Text style={styles.buttonText}>{measuring ? 'Measuring…' : tiltDeg != null ? 'Measure again' : 'Measure'}</Text>
+          </Pressable>
+        )}
+        {step === 'walk' && hasPermission && (
+          <Pressable
+            style={[styles.button, styles.primary]}
+            onPress={measuring ? () => completeWalk(samplesRef.current) : measureWalk}
+            accessibilityRole="button"
+            accessibilityHint={measuring ? 'Finishes measuring now' : undefined}
+          >
+            <Text style={styles.buttonText}>{measuring ? 'Stop' : calibration ? 'Walk again' : 'Start'}</Text>
+          </Pressable>
+        )}
+        {step === 'done' ? (
+          <Pressable
+            style={[styles.button, styles.primary]}
+            onPress={() => finish(calibration ?? holdCalibration)}
+            accessibilityRole="button"
+            accessibilityHint={calibration || holdCalibration ? 'Saves your measurements' : undefined}
+          >
+            <Text style={styles.buttonText}>Start using AILens</Text>
+          </Pressable>
+        ) : (
+          <Pressable style={styles.button} onPress={next} accessibilityRole="button">
+            <Text style={styles.buttonText}>{step === 'hold' || step === 'walk' ? (result ? 'Next' : 'Skip this step') : 'Next'}</Text>
+          </Pressable>
+        )}
+        {step !== 'done' && (
+          <Pressable
+            style={styles.button}
+            onPress={() => finish(null)}
+            accessibilityRole="button"
+            accessibilityHint="Keeps the current settings; setup can be run again from Settings"
+          >
+            <Text style={styles.buttonText}>Skip setup</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#111',
+  },
+  content: {
+    paddingTop: 48,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  progress: {
+    color: '#aaa',
+    fontSize: 13,
+    marginBottom: 6,
+    textTransform: 'uppercase',
+  },
+  title: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  body: {
+    color: 'white',
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  option: {
+    minHeight: 52,
+    borderRadius: 8,
+    backgroundColor: '#333',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  result: {
+    color: 'white',
+    fontSize: 16,
+    lineHeight: 22,
+    marginTop: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    padding: 8,
+    borderRadius: 8,
+  },
+  actions: {
+    padding: 20,
+    gap: 12,
+  },
+  button: {
+    minHeight: 52,
+    borderRadius: 8,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primary: {
+    backgroundColor: '#2f6fd6',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 17,
+  },
+})
@@ -0,0 +1,19 @@
+import { useLocalSearchParams, useRouter } from 'expo-router'
+import * as React from 'react'
+
+import { startSession, stopSession } from '../../src/hooks/useNavigationSession'
+
+// ailens://session/start and ailens://session/stop, so Siri Shortcuts or Google Assistant can start and stop
+// navigating by voice.
+export default function SessionAction(): React.ReactNode {
+  const router = useRouter()
+  const { action } = useLocalSearchParams<{ action: string }>()
+
+  React.useEffect(() => {
+    if (action === 'start') startSession()
+    else if (action === 'stop') stopSession()
+    router.replace('/')
+  }, [action, router])
+
+  return null
+}
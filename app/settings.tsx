@@ -0,0 +1,415 @@
+import { useRouter } from 'expo-router'
+import * as React from 'react'
+import { Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native'
+
+import { SettingChoice, SettingStepper, SettingSwitch } from '../src/components/SettingControls'
+import { useLiveObstacleStatus } from '../src/hooks/useLiveObstacleStatus'
+import { stopSession } from '../src/hooks/useNavigationSession'
+import { usePipelineMetrics } from '../src/hooks/usePipelineMetrics'
+import { obstacleConfigStore, useObstacleConfigSnapshot } from '../src/hooks/useObstacleDetectionConfig'
+import { exportCollectedData, privacyStore, usePrivacySettings } from '../src/hooks/usePrivacy'
+import { CONFIG_PRESET_NAMES, CONFIG_SCHEMA, NumberConfigKey, ObstacleDetectionConfig } from '../src/utils/configStore'
+import { findModel } from '../src/utils/modelManifest'
+import { MODEL_REGISTRY } from '../src/utils/modelRegistry'
+
+const formatFraction = (value: number) => value.toFixed(2)
+const formatMs = (value: number) => `${value} ms`
+const formatMeters = (value: number) => `${value.toFixed(1)} m`
+const formatSeconds = (value: number) => `${value.toFixed(1)} s`
+const formatFps = (value: number | null) => (value != null ? `${value.toFixed(1)} fps` : '—')
+const formatLatency = (value: number | null) => (value != null ? `${Math.round(value)} ms` : '—')
+
+export default function Settings(): React.ReactNode {
+  const router = useRouter()
+  const { preset, overrides, calibration, config } = useObstacleConfigSnapshot()
+  const live = useLiveObstacleStatus()
+  const pipeline = usePipelineMetrics()
+  const privacy = usePrivacySettings()
+
+  const exportData = React.useCallback(() => {
+    exportCollectedData().catch(e => {
+      console.warn('Failed to export detection data:', e)
+      Alert.alert('Export failed', String(e))
+    })
+  }, [])
+
+  const confirmDeleteAll = React.useCallback(() => {
+    Alert.alert(
+      'Delete all collected data?',
+      'Queued detection events, recorded sessions and exports on this device will be removed. Data already uploaded is not affected.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => privacyStore.deleteAll() },
+      ]
+    )
+  }, [])
+
+  const numberSetting = (key: NumberConfigKey, step: number, format: (value: number) => string = String) => ({
+    value: config[key],
+    step,
+    min: CONFIG_SCHEMA[key].min,
+    max: CONFIG_SCHEMA[key].max,
+    format,
+    onChange: (value: number) => obstacleConfigStore.update({ [key]: value } as Partial<ObstacleDetectionConfig>),
+  })
+
+  const overrideCount = Object.keys(overrides).length
+  const calibrated = Object.keys(calibration).length > 0
+
+  const runSetup = React.useCallback(() => {
+    // Setup uses the camera for the walk, so navigation has to let go of it.
+    stopSession()
+    router.push('/onboarding')
+  }, [router])
+  // With a distance estimate the trigger distance decides; otherwise the height threshold does.
+  const aboveThreshold = live.distance != null
+    ? live.distance <= config.OBSTACLE_TRIGGER_DISTANCE_M
+    : live.smoothed != null && live.smoothed >= config.OBSTACLE_THRESHOLD
+  const ttcText = live.timeToContact != null && isFinite(live.timeToContact) ? formatSeconds(live.timeToContact) : '—'
+  const pipelineSummary = `camera ${formatFps(pipeline.cameraFps)}, inference ${formatFps(pipeline.inferenceFps)}, ` +
+    `resize ${formatLatency(pipeline.stages.resize)}, model ${formatLatency(pipeline.stages.inference)}, ` +
+    `filter ${formatLatency(pipeline.stages.postprocess)}, total ${formatLatency(pipeline.stages.total)}`
+  const liveSummary = live.smoothed == null
+    ? 'No obstacle in view'
+    : live.distance != null
+      ? `${live.label ?? 'Obstacle'}: ${formatMeters(live.distance)} away, time to contact ${ttcText === '—' ? 'not approaching' : ttcText}, ` +
+        `${aboveThreshold ? 'within' : 'beyond'} trigger distance, ${live.detected ? `reported at ${live.alertLevel} level` : 'not reported'}`
+      : `${live.label ?? 'Obstacle'}: smoothed ${live.smoothed.toFixed(3)}, slope ${live.slope != null ? live.slope.toFixed(4) : 'n/a'}, ` +
+        `${aboveThreshold ? 'above' : 'below'} threshold, ${live.detected ? `reported at ${live.alertLevel} level` : 'not reported'}`
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title} accessibilityRole="header">Detection settings</Text>
+        <Pressable
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Done"
+          accessibilityHint="Returns to the camera"
+        >
+          <Text style={styles.headerButtonText}>Done</Text>
+        </Pressable>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.live} accessible accessibilityLabel={`Live values. ${liveSummary}. Performance: ${pipelineSummary}`}>
+          <Text style={styles.liveTitle}>Live</Text>
+          <Text style={styles.liveText}>{`smoothed: ${live.smoothed != null ? live.smoothed.toFixed(3) : '—'}  threshold: ${formatFraction(config.OBSTACLE_THRESHOLD)}`}</Text>
+          <Text style={styles.liveText}>{`slope: ${live.slope != null ? live.slope.toFixed(4) : '—'}  tracks: ${live.trackCount}`}</Text>
+          <Text style={styles.liveText}>{`distance: ${live.distance != null ? formatMeters(live.distance) : '—'}  ttc: ${ttcText}  trigger: ${formatMeters(config.OBSTACLE_TRIGGER_DISTANCE_M)}`}</Text>
+          <Text style={[styles.liveText, live.detected && styles.liveDetected]}>
+            {live.detected ? `${live.label ?? 'Obstacle'} reported (${live.alertLevel})` : aboveThreshold ? 'Within trigger, not yet reported' : 'Nothing reported'}
+          </Text>
+          <Text style={styles.liveText}>{`camera: ${formatFps(pipeline.cameraFps)}  inference: ${formatFps(pipeline.inferenceFps)}  skipped: ${pipeline.skippedFrames}`}</Text>
+          <Text style={styles.liveText}>
+            {`resize: ${formatLatency(pipeline.stages.resize)}  model: ${formatLatency(pipeline.stages.inference)}  filter: ${formatLatency(pipeline.stages.postprocess)}  total: ${formatLatency(pipeline.stages.total)}`}
+          </Text>
+        </View>
+
+        <Text style={styles.section} accessibilityRole="header">Preset</Text>
+        <SettingChoice
+          label="Preset"
+          value={preset}
+          options={CONFIG_PRESET_NAMES.map(name => ({ value: name, label: name[0].toUpperCase() + name.slice(1) }))}
+          onChange={name => obstacleConfigStore.setPreset(name)}
+        />
+        <Pressable
+          style={[styles.reset, overrideCount === 0 && styles.resetDisabled]}
+          onPress={() => obstacleConfigStore.resetToPreset()}
+          disabled={overrideCount === 0}
+          accessibilityRole="button"
+          accessibilityLabel={`Reset to ${preset} preset`}
+          accessibilityHint={overrideCount > 0 ? `Discards ${overrideCount} custom values` : 'No custom values to discard'}
+          accessibilityState={{ disabled: overrideCount === 0 }}
+        >
+          <Text style={styles.resetText}>
+            {overrideCount > 0 ? `Reset to ${preset} (${overrideCount} changed)` : `Using ${preset} preset`}
+          </Text>
+        </Pressable>
+
+        <Text style={styles.section} accessibilityRole="header">Setup</Text>
+        <Pressable
+          style={styles.reset}
+          onPress={runSetup}
+          accessibilityRole="button"
+          accessibilityHint="Stops navigating, replays the vibrations and measures how you carry the phone"
+        >
+          <Text style={styles.resetText}>Run setup again</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.reset, !calibrated && styles.resetDisabled]}
+          onPress={() => obstacleConfigStore.setCalibration({})}
+          disabled={!calibrated}
+          accessibilityRole="button"
+          accessibilityLabel="Clear calibration"
+          accessibilityHint={calibrated ? `Returns ${Object.keys(calibration).length} measured values to the preset` : 'Nothing measured yet'}
+          accessibilityState={{ disabled: !calibrated }}
+        >
+          <Text style={styles.resetText}>{calibrated ? 'Clear calibration' : 'Not calibrated'}</Text>
+        </Pressable>
+
+        <Text style={styles.section} accessibilityRole="header">Detection</Text>
+        <SettingChoice
+          label="Model"
+          value={findModel(MODEL_REGISTRY, config.DETECTION_MODEL).id}
+          options={MODEL_REGISTRY.map(m => ({ value: m.id, label: m.name }))}
+          onChange={id => obstacleConfigStore.update({ DETECTION_MODEL: id })}
+        />
+        <SettingStepper label="Trigger distance" hint="Report obstacles closer than this" {...numberSetting('OBSTACLE_TRIGGER_DISTANCE_M', 0.1, formatMeters)} />
+        <SettingStepper label="Caution time" hint="Start gentle alerts this many seconds before contact" {...numberSetting('OBSTACLE_TTC_CAUTION_S', 0.5, formatSeconds)} />
+        <SettingStepper label="Warning time" hint="Stronger alerts this many seconds before contact" {...numberSetting('OBSTACLE_TTC_S', 0.5, formatSeconds)} />
+        <SettingStepper label="Imminent time" hint="Strongest alerts this many seconds before contact" {...numberSetting('OBSTACLE_TTC_IMMINENT_S', 0.1, formatSeconds)} />
+        <SettingStepper label="Camera tilt" hint="How far the phone points below the horizon" {...numberSetting('CAMERA_TILT_DEG', 1, v => `${v}°`)} />
+        <SettingStepper label="Camera height" hint="Height of the phone above the ground" {...numberSetting('CAMERA_HEIGHT_M', 0.05, v => `${v.toFixed(2)} m`)} />
+        <SettingStepper label="Threshold" hint="Smoothed height needed to report an obstacle" {...numberSetting('OBSTACLE_THRESHOLD', 0.01, formatFraction)} />
+        <SettingStepper label="Hysteresis" hint="How far below the threshold before clearing" {...numberSetting('OBSTACLE_HYSTERESIS', 0.01, formatFraction)} />
+        <SettingStepper
+          label="Smoothing window"
+          hint="Frames averaged per track"
+          {...numberSetting('OBSTACLE_SMOOTHING_WINDOW', 1, v => `${v} frames`)}
+          max={config.OBSTACLE_FRAMES}
+        />
+        <SettingChoice
+          label="Estimator"
+          value={config.OBSTACLE_ESTIMATOR}
+          options={[{ value: 'heuristic', label: 'Moving average' }, { value: 'kalman', label: 'Kalman filter' }]}
+          onChange={estimator => obstacleConfigStore.update({ OBSTACLE_ESTIMATOR: estimator })}
+        />
+        <SettingStepper label="Cooldown" hint="Minimum time between processed frames" {...numberSetting('DETECTION_COOLDOWN_MS', 10, formatMs)} />
+        <SettingStepper
+          label="Target frame rate"
+          hint="Frames analysed per second; lower saves battery"
+          {...numberSetting('DETECTION_TARGET_FPS', 1, v => `${v} fps`)}
+          min={config.DETECTION_MIN_FPS}
+        />
+        <SettingStepper
+          label="Minimum frame rate"
+          hint="Floor when the battery is low or the phone is hot"
+          {...numberSetting('DETECTION_MIN_FPS', 1, v => `${v} fps`)}
+          max={config.DETECTION_TARGET_FPS}
+        />
+        <SettingSwitch
+          label="Debug overlay"
+          hint="Draws every detected box over the camera, colored by why it was kept or dropped"
+          value={config.DETECTION_DEBUG_OVERLAY}
+          onChange={value => obstacleConfigStore.update({ DETECTION_DEBUG_OVERLAY: value })}
+        />
+        <SettingSwitch
+          label="Start on launch"
+          hint="Starts navigating as soon as the camera is ready; otherwise long press the camera view to start"
+          value={config.DETECTION_AUTO_START}
+          onChange={value => obstacleConfigStore.update({ DETECTION_AUTO_START: value })}
+        />
+        <SettingSwitch
+          label="Auto pause"
+          hint="Pauses while the phone faces down or the camera is covered, and resumes when you raise it"
+          value={config.DETECTION_AUTO_PAUSE}
+          onChange={value => obstacleConfigStore.update({ DETECTION_AUTO_PAUSE: value })}
+        />
+        <SettingSwitch
+          label="Motion compensation"
+          hint="Uses the motion sensors to ignore frames taken while turning, and only warns about things moving toward you while you stand still"
+          value={config.OBSTACLE_MOTION_COMPENSATION}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_MOTION_COMPENSATION: value })}
+        />
+        <SettingStepper label="Turn limit" hint="Frames taken while turning faster than this are skipped" {...numberSetting('OBSTACLE_MAX_ROTATION_DEG_S', 10, v => `${v}°/s`)} />
+        <SettingSwitch
+          label="Ground hazards"
+          hint="Warn about drop-offs and walls from the floor ahead"
+          value={config.OBSTACLE_GROUND_HAZARDS}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_GROUND_HAZARDS: value })}
+        />
+        <SettingStepper label="Hazard distance" hint="Report drop-offs and walls closer than this" {...numberSetting('OBSTACLE_HAZARD_DISTANCE_M', 0.5, formatMeters)} />
+        <SettingStepper label="Hazard frames" hint="Frames a hazard must be seen before it is reported" {...numberSetting('OBSTACLE_HAZARD_FRAMES', 1, v => `${v} frames`)} />
+
+        <Text style={styles.section} accessibilityRole="header">Haptics</Text>
+        <SettingStepper
+          label="Fastest pulse"
+          hint="Interval when the obstacle is close"
+          {...numberSetting('OBSTACLE_HAPTIC_MIN_INTERVAL_MS', 50, formatMs)}
+          max={config.OBSTACLE_HAPTIC_MAX_INTERVAL_MS}
+        />
+        <SettingStepper
+          label="Slowest pulse"
+          hint="Interval when the obstacle is far"
+          {...numberSetting('OBSTACLE_HAPTIC_MAX_INTERVAL_MS', 50, formatMs)}
+          min={config.OBSTACLE_HAPTIC_MIN_INTERVAL_MS}
+        />
+        <SettingSwitch
+          label="Directional taps"
+          hint="One tap when ahead, two on the left, three on the right"
+          value={config.OBSTACLE_DIRECTIONAL_HAPTICS}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_DIRECTIONAL_HAPTICS: value })}
+        />
+        <SettingStepper label="Intensity" hint="Strength of every tap; zero turns haptics off" {...numberSetting('OBSTACLE_HAPTIC_INTENSITY', 0.25, v => `${Math.round(v * 100)}%`)} />
+        <SettingSwitch
+          label="Quiet mode"
+          hint="Only vibrate when contact is imminent or there is a step ahead"
+          value={config.OBSTACLE_HAPTIC_QUIET}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_HAPTIC_QUIET: value })}
+        />
+
+        <Text style={styles.section} accessibilityRole="header">Audio cues</Text>
+        <SettingSwitch
+          label="Directional beeps"
+          hint="Beeps in the ear on the obstacle's side, higher when closer"
+          value={config.OBSTACLE_AUDIO_CUES_ENABLED}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_AUDIO_CUES_ENABLED: value })}
+        />
+        <SettingStepper label="Beep volume" {...numberSetting('OBSTACLE_AUDIO_CUES_VOLUME', 0.1, v => `${Math.round(v * 100)}%`)} />
+        <SettingSwitch
+          label="Sound instead of vibration"
+          hint="A tone that rises as obstacles get closer, follows them left and right, and sounds different for people and vehicles"
+          value={config.OBSTACLE_SONIFICATION_ENABLED}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_SONIFICATION_ENABLED: value })}
+        />
+        <SettingSwitch
+          label="Pulsed tone"
+          hint="Short tones in rhythm instead of a continuous one"
+          value={config.OBSTACLE_SONIFICATION_PULSED}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_SONIFICATION_PULSED: value })}
+        />
+        <SettingStepper label="Tone volume" {...numberSetting('OBSTACLE_SONIFICATION_VOLUME', 0.1, v => `${Math.round(v * 100)}%`)} />
+
+        <Text style={styles.section} accessibilityRole="header">Speech</Text>
+        <SettingSwitch
+          label="Spoken announcements"
+          value={config.OBSTACLE_SPEECH_ENABLED}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_SPEECH_ENABLED: value })}
+        />
+        <SettingSwitch
+          label="Clear path hint"
+          hint="Adds which side has room to step around the obstacle"
+          value={config.OBSTACLE_CLEAR_PATH_HINT}
+          onChange={value => obstacleConfigStore.update({ OBSTACLE_CLEAR_PATH_HINT: value })}
+        />
+        <SettingStepper label="Speech confidence" hint="Minimum confidence before announcing" {...numberSetting('OBSTACLE_SPEECH_CONFIDENCE', 0.05, formatFraction)} />
+        <SettingStepper label="Speech rate" {...numberSetting('OBSTACLE_SPEECH_RATE', 0.1, v => `${v.toFixed(1)}x`)} />
+        <SettingStepper label="Repeat interval" hint="Wait before repeating the same announcement" {...numberSetting('OBSTACLE_HAPTIC_REPEAT_MS', 250, formatMs)} />
+
+        <Text style={styles.section} accessibilityRole="header">Privacy</Text>
+        <SettingSwitch
+          label="Detection logging"
+          hint={privacy.consent === 'granted' ? 'You agreed to share detection events' : 'Off until you agree'}
+          value={privacy.consent === 'granted'}
+          onChange={value => privacyStore.setConsent(value)}
+        />
+        <SettingChoice
+          label="Time precision"
+          value={privacy.timestampResolutionMs}
+          options={[{ value: 0, label: 'Exact' }, { value: 1000, label: 'Second' }, { value: 60000, label: 'Minute' }]}
+          onChange={value => privacyStore.update({ timestampResolutionMs: value })}
+        />
+        <SettingChoice
+          label="Position precision"
+          value={privacy.centerXBuckets}
+          options={[{ value: 0, label: 'Exact' }, { value: 5, label: '5 zones' }, { value: 3, label: '3 zones' }]}
+          onChange={value => privacyStore.update({ centerXBuckets: value })}
+        />
+        <Pressable style={styles.reset} onPress={() => router.push('/consent')} accessibilityRole="button">
+          <Text style={styles.resetText}>What is collected</Text>
+        </Pressable>
+        <Pressable
+          style={styles.reset}
+          onPress={exportData}
+          accessibilityRole="button"
+          accessibilityLabel="Export my data"
+          accessibilityHint="Shares queued detection events and recorded sessions still stored on this device"
+        >
+          <Text style={styles.resetText}>Export my data</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.reset, styles.destructive]}
+          onPress={confirmDeleteAll}
+          accessibilityRole="button"
+          accessibilityLabel="Delete all collected data"
+        >
+          <Text style={styles.destructiveText}>Delete all collected data</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#111',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 48,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  title: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: '600',
+  },
+  headerButton: {
+    minWidth: 64,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerButtonText: {
+    color: '#4da3ff',
+    fontSize: 17,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  live: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#222',
+  },
+  liveTitle: {
+    color: '#aaa',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  liveText: {
+    color: 'white',
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  liveDetected: {
+    color: '#ff6b6b',
+  },
+  section: {
+    color: '#aaa',
+    fontSize: 13,
+    marginTop: 24,
+    marginBottom: 4,
+    textTransform: 'uppercase',
+  },
+  reset: {
+    marginTop: 12,
+    minHeight: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#555',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resetDisabled: {
+    opacity: 0.5,
+  },
+  resetText: {
+    color: 'white',
+    fontSize: 15,
+  },
+  destructive: {
+    borderColor: '#ff6b6b',
+  },
+  destructiveText: {
+    color: '#ff6b6b',
+    fontSize: 15,
+  },
+})
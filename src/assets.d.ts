@@ -0,0 +1,5 @@
+// Metro bundles .tflite files as assets (see metro.config.js), so importing one yields its asset id.
+declare module '*.tflite' {
+  const asset: number
+  export default asset
+}
@@ -0,0 +1,171 @@
+import * as React from 'react'
+import { StyleSheet, Text, View } from 'react-native'
+
+import { useDetectionDebug } from '../hooks/useDetectionDebug'
+import { useLiveObstacleStatus } from '../hooks/useLiveObstacleStatus'
+import { useObstacleDetectionConfig } from '../hooks/useObstacleDetectionConfig'
+import { usePipelineMetrics } from '../hooks/usePipelineMetrics'
+import {
+  DEBUG_BOX_COLORS,
+  DEBUG_BOX_STATUSES,
+  debugBoxLabel,
+  debugBoxStatus,
+  pushSample,
+  slopeRange,
+  sparklineLevels,
+  staleAfterMs,
+} from '../utils/debugOverlay'
+
+const SPARKLINE_HEIGHT = 32
+
+function Sparkline({ label, levels, color }: { label: string; levels: number[]; color: string }) {
+  return (
+    <View style={styles.sparklineRow}>
+      <Text style={styles.text}>{label}</Text>
+      <View style={styles.sparkline}>
+        {levels.map((level, i) => (
+          <View key={i} style={[styles.bar, { height: Math.max(1, level * SPARKLINE_HEIGHT), backgroundColor: color }]} />
+        ))}
+      </View>
+    </View>
+  )
+}
+
+// Tuning aid for sighted testers: boxes are placed in normalized frame coordinates, so they are only approximate
+// where the preview crops the frame. Hidden from screen readers.
+export function DebugOverlay() {
+  const frame = useDetectionDebug()
+  const live = useLiveObstacleStatus()
+  const metrics = usePipelineMetrics()
+  const { OBSTACLE_CENTER_TOLERANCE: tolerance } = useObstacleDetectionConfig()
+  const [stale, setStale] = React.useState(false)
+  const [history, setHistory] = React.useState<{ smoothed: number[]; slope: number[] }>({ smoothed: [], slope: [] })
+
+  React.useEffect(() => {
+    setStale(false)
+    if (!frame) return
+    const timer = setTimeout(() => setStale(true), staleAfterMs(frame.intervalMs))
+    return () => clearTimeout(timer)
+  }, [frame])
+
+  React.useEffect(() => {
+    if (live.updatedAt == null) return
+    setHistory(h => ({
+      smoothed: pushSample(h.smoothed, live.smoothed ?? 0),
+      slope: pushSample(h.slope, live.slope ?? 0),
+    }))
+  }, [live.updatedAt, live.smoothed, live.slope])
+
+  const fps = `camera ${metrics.cameraFps != null ? metrics.cameraFps.toFixed(0) : '—'} fps, ` +
+    `inference ${metrics.inferenceFps != null ? metrics.inferenceFps.toFixed(1) : '—'} fps`
+
+  return (
+    <View
+      style={StyleSheet.absoluteFill}
+      pointerEvents="none"
+      accessibilityElementsHidden
+      importantForAccessibility="no-hide-descendants"
+    >
+      <View style={[styles.corridor, { left: `${(0.5 - tolerance) * 100}%`, right: `${(0.5 - tolerance) * 100}%` }]} />
+
+      {frame?.decisions.map(decision => {
+        if (!decision.box) return null
+        const [ymin, xmin, ymax, xmax] = decision.box
+        const status = debugBoxStatus(decision, stale)
+        const color = DEBUG_BOX_COLORS[status]
+        return (
+          <View
+            key={decision.index}
+            style={[styles.box, {
+              top: `${ymin * 100}%`,
+              left: `${xmin * 100}%`,
+              width: `${(xmax - xmin) * 100}%`,
+              height: `${(ymax - ymin) * 100}%`,
+              borderColor: color,
+            }]}
+          >
+            <Text style={[styles.boxLabel, { backgroundColor: color }]} numberOfLines={1}>
+              {debugBoxLabel(decision, status)}
+            </Text>
+          </View>
+        )
+      })}
+
+      <View style={styles.panel}>
+        <Text style={styles.text}>{fps}</Text>
+        <Text style={styles.text}>
+          {frame ? `${frame.decisions.length} boxes, threshold ${frame.threshold.toFixed(2)}` : 'No frames yet'}
+        </Text>
+        <Sparkline label="height" levels={sparklineLevels(history.smoothed, [0, 1])} color="#4da3ff" />
+        <Sparkline label="slope" levels={sparklineLevels(history.slope, slopeRange(history.slope))} color="#ff9f0a" />
+        <View style={styles.legend}>
+          {DEBUG_BOX_STATUSES.map(status => (
+            <Text key={status} style={[styles.legendItem, { color: DEBUG_BOX_COLORS[status] }]}>{status}</Text>
+          ))}
+        </View>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  corridor: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    borderLeftWidth: 1,
+    borderRightWidth: 1,
+    borderColor: 'rgba(255,255,255,0.4)',
+    borderStyle: 'dashed',
+  },
+  box: {
+    position: 'absolute',
+    borderWidth: 2,
+  },
+  boxLabel: {
+    position: 'absolute',
+    top: -16,
+    left: -2,
+    paddingHorizontal: 2,
+    color: 'black',
+    fontSize: 10,
+  },
+  panel: {
+    position: 'absolute',
+    top: 60,
+    left: 20,
+    padding: 8,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderRadius: 8,
+  },
+  text: {
+    color: 'white',
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  sparklineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginTop: 4,
+  },
+  sparkline: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: SPARKLINE_HEIGHT,
+    marginLeft: 6,
+  },
+  bar: {
+    width: 3,
+    marginRight: 1,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    maxWidth: 220,
+    marginTop: 4,
+  },
+  legendItem: {
+    fontSize: 10,
+    marginRight: 6,
+  },
+})
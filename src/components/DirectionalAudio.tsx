@@ -0,0 +1,88 @@
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio'
+import * as React from 'react'
+
+import { AlertLevel } from '../hooks/detectionCore'
+import { useObstacleDetectionConfig } from '../hooks/useObstacleDetectionConfig'
+import { cachedClip } from '../utils/audioClips'
+import { BEEP_FREQUENCIES, panFromCenterX, quantizePan, synthesizeBeep } from '../utils/directionalCues'
+
+interface DirectionalAudioProps {
+  alertLevel: AlertLevel
+  // Horizontal position of the obstacle; the beep is panned to follow it.
+  centerX: number | null
+}
+
+const BEEP_DURATION_MS = 80
+
+function beepFile(frequency: number, pan: number): Promise<string> {
+  return cachedClip(`${frequency}_${Math.round(pan * 100)}`, () =>
+    synthesizeBeep({ frequency, durationMs: BEEP_DURATION_MS, pan })
+  )
+}
+
+export function DirectionalAudio({ alertLevel, centerX }: DirectionalAudioProps) {
+  const {
+    OBSTACLE_AUDIO_CUES_ENABLED: enabled,
+    OBSTACLE_AUDIO_CUES_VOLUME: volume,
+    OBSTACLE_HAPTIC_MIN_INTERVAL_MS: minInterval,
+    OBSTACLE_HAPTIC_MAX_INTERVAL_MS: maxInterval,
+  } = useObstacleDetectionConfig()
+  const playerRef = React.useRef<AudioPlayer | null>(null)
+  // Read on every beep so the pan follows the obstacle without restarting the rhythm.
+  const panRef = React.useRef(0)
+
+  React.useEffect(() => {
+    panRef.current = quantizePan(panFromCenterX(centerX))
+  }, [centerX])
+
+  React.useEffect(() => {
+    if (!enabled) return
+    // Beeps mix with speech and still play with the ringer switched off.
+    setAudioModeAsync({ playsInSilentMode: true, interruptionMode: 'mixWithOthers' }).catch(e => {
+      console.log('Audio mode failed:', e)
+    })
+    const player = createAudioPlayer(null)
+    playerRef.current = player
+    return () => {
+      playerRef.current = null
+      player.remove()
+    }
+  }, [enabled])
+
+  React.useEffect(() => {
+    if (playerRef.current) playerRef.current.volume = volume
+  }, [volume, enabled])
+
+  React.useEffect(() => {
+    if (!enabled || alertLevel === 'none') return
+
+    // Same rhythm as the haptic sonar: slowest for caution, fastest when imminent.
+    const interval = alertLevel === 'imminent'
+      ? minInterval
+      : alertLevel === 'warning'
+      ? Math.round((minInterval + maxInterval) / 2)
+      : maxInterval
+    const frequency = BEEP_FREQUENCIES[alertLevel]
+
+    let cancelled = false
+    const beep = () => {
+      beepFile(frequency, panRef.current)
+        .then(uri => {
+          const player = playerRef.current
+          if (cancelled || !player) return
+          player.replace({ uri })
+          player.play()
+        })
+        .catch(e => console.log('Beep failed:', e))
+    }
+
+    beep()
+    const timer = setInterval(beep, Math.max(interval, BEEP_DURATION_MS * 2))
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [enabled, alertLevel, minInterval, maxInterval])
+
+  return null
+}
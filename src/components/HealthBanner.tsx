@@ -0,0 +1,57 @@
+import * as React from 'react'
+import { StyleSheet, Text, View } from 'react-native'
+
+import { describeHealth } from '../hooks/healthCore'
+import { HealthSnapshot } from '../hooks/useDetectionHealth'
+import { FAULT_PATTERN, HAPTIC_PRIORITY } from '../utils/hapticPatterns'
+import { hapticEngine } from './SonarHaptics'
+
+interface HealthBannerProps {
+  health: HealthSnapshot
+}
+
+// Shows while detection is unavailable or unreliable, and buzzes with every spoken fault warning or reminder.
+export function HealthBanner({ health }: HealthBannerProps) {
+  const { level, issue, notice } = health
+
+  React.useEffect(() => {
+    // Recovery is only spoken; the fault pattern always means something is wrong.
+    if (!notice || level === 'ok') return
+    hapticEngine().play(FAULT_PATTERN, HAPTIC_PRIORITY.fault)
+  }, [notice, level])
+
+  if (level === 'ok') return null
+
+  return (
+    <View
+      style={[styles.banner, level === 'unavailable' ? styles.unavailable : styles.degraded]}
+      accessibilityRole="alert"
+      accessibilityLiveRegion="assertive"
+      pointerEvents="none"
+    >
+      <Text style={styles.text}>{describeHealth(level, issue)}</Text>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: 'absolute',
+    top: 104,
+    left: 20,
+    right: 20,
+    padding: 12,
+    borderRadius: 8,
+  },
+  unavailable: {
+    backgroundColor: 'rgba(200,0,0,0.85)',
+  },
+  degraded: {
+    backgroundColor: 'rgba(200,120,0,0.85)',
+  },
+  text: {
+    color: 'white',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+})
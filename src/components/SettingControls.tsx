@@ -0,0 +1,186 @@
+import * as React from 'react'
+import { AccessibilityActionEvent, Pressable, StyleSheet, Switch, Text, View } from 'react-native'
+
+export function SettingStepper({
+  label,
+  value,
+  step,
+  min,
+  max,
+  format = v => String(v),
+  hint,
+  onChange,
+}: {
+  label: string
+  value: number
+  step: number
+  min: number
+  max: number
+  format?: (value: number) => string
+  hint?: string
+  onChange: (value: number) => void
+}) {
+  const change = React.useCallback((direction: 1 | -1) => {
+    // Round to the step so repeated float additions do not drift.
+    const next = Math.round((value + direction * step) / step) * step
+    onChange(Math.max(min, Math.min(max, Number(next.toFixed(6)))))
+  }, [value, step, min, max, onChange])
+
+  const onAccessibilityAction = React.useCallback((event: AccessibilityActionEvent) => {
+    if (event.nativeEvent.actionName === 'increment') change(1)
+    else if (event.nativeEvent.actionName === 'decrement') change(-1)
+  }, [change])
+
+  // Screen readers see one adjustable element; swipe up/down (or volume keys on TalkBack) steps the value.
+  return (
+    <View
+      style={styles.row}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={label}
+      accessibilityHint={hint}
+      accessibilityValue={{ text: format(value) }}
+      accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+      onAccessibilityAction={onAccessibilityAction}
+    >
+      <View style={styles.labelColumn}>
+        <Text style={styles.label}>{label}</Text>
+        {hint ? <Text style={styles.hint}>{hint}</Text> : null}
+      </View>
+      <View style={styles.stepper} importantForAccessibility="no-hide-descendants" accessibilityElementsHidden>
+        <Pressable style={[styles.stepButton, value <= min && styles.disabled]} onPress={() => change(-1)} disabled={value <= min}>
+          <Text style={styles.stepText}>−</Text>
+        </Pressable>
+        <Text style={styles.value}>{format(value)}</Text>
+        <Pressable style={[styles.stepButton, value >= max && styles.disabled]} onPress={() => change(1)} disabled={value >= max}>
+          <Text style={styles.stepText}>+</Text>
+        </Pressable>
+      </View>
+    </View>
+  )
+}
+
+export function SettingSwitch({
+  label,
+  value,
+  hint,
+  onChange,
+}: {
+  label: string
+  value: boolean
+  hint?: string
+  onChange: (value: boolean) => void
+}) {
+  return (
+    <View style={styles.row}>
+      <View style={styles.labelColumn} importantForAccessibility="no-hide-descendants" accessibilityElementsHidden>
+        <Text style={styles.label}>{label}</Text>
+        {hint ? <Text style={styles.hint}>{hint}</Text> : null}
+      </View>
+      <Switch value={value} onValueChange={onChange} accessibilityLabel={label} accessibilityHint={hint} />
+    </View>
+  )
+}
+
+export function SettingChoice<T extends string | number>({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string
+  value: T
+  options: { value: T; label: string }[]
+  onChange: (value: T) => void
+}) {
+  return (
+    <View style={styles.choiceRow}>
+      <Text style={styles.label} importantForAccessibility="no">{label}</Text>
+      <View style={styles.choices} accessibilityRole="radiogroup" accessibilityLabel={label}>
+        {options.map(option => (
+          <Pressable
+            key={String(option.value)}
+            style={[styles.choice, option.value === value && styles.choiceSelected]}
+            onPress={() => onChange(option.value)}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: option.value === value }}
+            accessibilityLabel={`${label}: ${option.label}`}
+          >
+            <Text style={styles.choiceText}>{option.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    minHeight: 56,
+  },
+  labelColumn: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  label: {
+    color: 'white',
+    fontSize: 16,
+  },
+  hint: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  stepText: {
+    color: 'white',
+    fontSize: 22,
+  },
+  choiceRow: {
+    paddingVertical: 10,
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  choice: {
+    flex: 1,
+    minHeight: 44,
+    borderRadius: 8,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  choiceSelected: {
+    backgroundColor: '#2f6fd6',
+  },
+  choiceText: {
+    color: 'white',
+    fontSize: 15,
+  },
+  value: {
+    color: 'white',
+    fontSize: 16,
+    minWidth: 72,
+    textAlign: 'center',
+  },
+})
@@ -1,79 +1,119 @@
 import * as Haptics from 'expo-haptics'
 import * as React from 'react'
 
+import { AlertLevel } from '../hooks/detectionCore'
+import { GroundHazardKind } from '../hooks/groundCore'
+import { useObstacleDetectionConfig } from '../hooks/useObstacleDetectionConfig'
+import { HorizontalPosition } from '../utils/announcementQueue'
+import {
+  HAPTIC_PRIORITY,
+  HapticEngine,
+  HapticOutput,
+  HapticPattern,
+  ImpactStrength,
+  PATH_CLEAR_PATTERN,
+  STEP_PATTERN,
+  approachingFastPattern,
+  createHapticEngine,
+  obstaclePattern,
+  personPattern,
+} from '../utils/hapticPatterns'
+
 interface SonarHapticsProps {
-  obstacleDetected: boolean
-  obstacleHeight: number | null
-  obstacleConfidence: number | null
+  alertLevel: AlertLevel
+  // Where the obstacle is; each beat repeats once ahead, twice on the left, three times on the right.
+  position?: HorizontalPosition
+  // People get their own heartbeat pattern.
+  label?: string | null
+  // A drop-off gets its own warning the moment it is confirmed.
+  hazard?: GroundHazardKind | null
+}
+
+const IMPACT_STYLES: Record<ImpactStrength, Haptics.ImpactFeedbackStyle> = {
+  soft: Haptics.ImpactFeedbackStyle.Soft,
+  light: Haptics.ImpactFeedbackStyle.Light,
+  medium: Haptics.ImpactFeedbackStyle.Medium,
+  rigid: Haptics.ImpactFeedbackStyle.Rigid,
+  heavy: Haptics.ImpactFeedbackStyle.Heavy,
 }
 
-export function SonarHaptics({ obstacleDetected, obstacleHeight, obstacleConfidence }: SonarHapticsProps) {
-  const hapticIntervalRef = React.useRef<number | null>(null)
-  const currentSonarInterval = React.useRef<number | null>(null)
-  
+const NOTIFICATION_TYPES = {
+  success: Haptics.NotificationFeedbackType.Success,
+  warning: Haptics.NotificationFeedbackType.Warning,
+  error: Haptics.NotificationFeedbackType.Error,
+}
+
+const hapticOutput: HapticOutput = step => {
+  try {
+    const result = step.type === 'impact'
+      ? Haptics.impactAsync(IMPACT_STYLES[step.strength])
+      : Haptics.notificationAsync(NOTIFICATION_TYPES[step.kind])
+    result.catch(() => {
+    })
+  } catch {
+    // Sync errors are also expected and not critical
+  }
+}
+
+function sonarPattern(level: Exclude<AlertLevel, 'none'>, position: HorizontalPosition, label: string | null): HapticPattern {
+  if (level === 'imminent') return approachingFastPattern(position)
+  if (label === 'person') return personPattern(position)
+  return obstaclePattern(level, position)
+}
+
+// One engine for the app, so alerts from every component share a single rhythm and priority order.
+let sharedEngine: HapticEngine | null = null
+
+export function hapticEngine(): HapticEngine {
+  if (!sharedEngine) sharedEngine = createHapticEngine({ output: hapticOutput })
+  return sharedEngine
+}
+
+export function SonarHaptics({ alertLevel, position = 'center', label = null, hazard = null }: SonarHapticsProps) {
+  const {
+    OBSTACLE_HAPTIC_MIN_INTERVAL_MS: minInterval,
+    OBSTACLE_HAPTIC_MAX_INTERVAL_MS: maxInterval,
+    OBSTACLE_DIRECTIONAL_HAPTICS: directional,
+    OBSTACLE_HAPTIC_INTENSITY: intensity,
+    OBSTACLE_HAPTIC_QUIET: quiet,
+  } = useObstacleDetectionConfig()
+  const previousLevel = React.useRef<AlertLevel>('none')
+
   React.useEffect(() => {
-    if (obstacleDetected && obstacleHeight !== null && obstacleConfidence !== null) {
-      const normalizedDistance = Math.max(0, Math.min(1, (obstacleHeight - 0.25) / (1.0 - 0.25)))
-      
-      const maxInterval = 1000
-      const minInterval = 200
-      const hapticInterval = Math.round(maxInterval - (normalizedDistance * (maxInterval - minInterval)))
-      
-      const hapticStyle = obstacleConfidence > 0.6 
-        ? Haptics.ImpactFeedbackStyle.Heavy
-        : obstacleConfidence > 0.4 
-        ? Haptics.ImpactFeedbackStyle.Medium 
-        : Haptics.ImpactFeedbackStyle.Light
-      
-      const intervalChanged = currentSonarInterval.current === null || 
-                            Math.abs(hapticInterval - currentSonarInterval.current) > 50
-      
-      if (intervalChanged) {
-        console.log(`Sonar update: ${hapticInterval}ms interval, ${hapticStyle} intensity, ${(obstacleHeight * 100).toFixed(0)}cm distance`)
-        
-        if (hapticIntervalRef.current) {
-          clearInterval(hapticIntervalRef.current)
-          hapticIntervalRef.current = null
-        }
-        
-        currentSonarInterval.current = hapticInterval
-        
-        try {
-          Haptics.impactAsync(hapticStyle).catch((err) => {
-            console.log(`SONAR: Update haptic failed:`, err)
-          })
-        } catch (syncErr) {
-          console.log(`SONAR: Update haptic sync error:`, syncErr)
-        }
-        
-        // Set up new sonar interval
-        hapticIntervalRef.current = setInterval(() => {
-          try {
-            Haptics.impactAsync(hapticStyle).catch(() => {
-            })
-          } catch (syncErr) {
-            // Sync errors are also expected and not critical
-          }
-        }, hapticInterval) as unknown as number
-      }
-      
-    } else {
-      if (hapticIntervalRef.current !== null) {
-        console.log(`Sonar stopped - no obstacles`)
-        clearInterval(hapticIntervalRef.current)
-        hapticIntervalRef.current = null
-        currentSonarInterval.current = null
-      }
-    }
-    
-    return () => {
-      if (hapticIntervalRef.current) {
-        clearInterval(hapticIntervalRef.current)
-        hapticIntervalRef.current = null
-        currentSonarInterval.current = null
-      }
+    hapticEngine().setIntensity(intensity)
+    hapticEngine().setQuiet(quiet)
+  }, [intensity, quiet])
+
+  React.useEffect(() => {
+    const engine = hapticEngine()
+    const wasAlerting = previousLevel.current !== 'none'
+    previousLevel.current = alertLevel
+
+    if (alertLevel === 'none') {
+      engine.setAlert('sonar', null)
+      if (wasAlerting) engine.play(PATH_CLEAR_PATTERN, HAPTIC_PRIORITY.info)
+      return
     }
-  }, [obstacleDetected, obstacleHeight, obstacleConfidence])
+
+    // Caution pulses slowest, imminent fastest, warning halfway between. The engine stretches any beat shorter than its pattern.
+    const tempoMs = alertLevel === 'imminent'
+      ? minInterval
+      : alertLevel === 'warning'
+      ? Math.round((minInterval + maxInterval) / 2)
+      : maxInterval
+    // The engine keeps the beat across updates, so tempo and pattern changes land on the next beat.
+    engine.setAlert('sonar', {
+      pattern: sonarPattern(alertLevel, directional ? position : 'center', label),
+      tempoMs,
+      priority: HAPTIC_PRIORITY[alertLevel],
+    })
+  }, [alertLevel, position, label, directional, minInterval, maxInterval])
+
+  React.useEffect(() => {
+    if (hazard === 'drop-off') hapticEngine().play(STEP_PATTERN, HAPTIC_PRIORITY.hazard)
+  }, [hazard])
+
+  React.useEffect(() => () => hapticEngine().setAlert('sonar', null), [])
 
   return null
 }
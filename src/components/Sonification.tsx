@@ -0,0 +1,167 @@
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio'
+import * as React from 'react'
+
+import { AlertLevel } from '../hooks/detectionCore'
+import { GroundHazardKind } from '../hooks/groundCore'
+import { useObstacleDetectionConfig } from '../hooks/useObstacleDetectionConfig'
+import { useSpeechActivity } from '../hooks/useSpeechActivity'
+import { HorizontalPosition } from '../utils/announcementQueue'
+import { cachedClip } from '../utils/audioClips'
+import {
+  DROP_OFF_CUE,
+  SonificationVoice,
+  duckedVolume,
+  sonificationVoice,
+  synthesizeCue,
+  synthesizeTone,
+  voiceKey,
+} from '../utils/sonification'
+
+interface SonificationProps {
+  alertLevel: AlertLevel
+  // Pans the tone when no exact centerX is known.
+  position?: HorizontalPosition
+  label?: string | null
+  // A drop-off gets its own falling cue the moment it is confirmed.
+  hazard?: GroundHazardKind | null
+  centerX?: number | null
+  distance?: number | null
+  height?: number | null
+}
+
+const LOOP_DURATION_MS = 250
+const PULSE_DURATION_MS = 120
+const CUE_NOTE_MS = 110
+const CUE_GAP_MS = 40
+
+const POSITION_CENTER_X: Record<HorizontalPosition, number> = { left: 1 / 6, center: 0.5, right: 5 / 6 }
+
+function toneFile(voice: SonificationVoice, looped: boolean): Promise<string> {
+  return cachedClip(voiceKey(voice, looped), () =>
+    synthesizeTone(voice, { durationMs: looped ? LOOP_DURATION_MS : PULSE_DURATION_MS, looped })
+  )
+}
+
+// Audio alternative to SonarHaptics: pitch follows proximity, pan follows the obstacle, timbre follows its class.
+export function Sonification({
+  alertLevel,
+  position = 'center',
+  label = null,
+  hazard = null,
+  centerX = null,
+  distance = null,
+  height = null,
+}: SonificationProps) {
+  const {
+    OBSTACLE_SONIFICATION_PULSED: pulsed,
+    OBSTACLE_SONIFICATION_VOLUME: volume,
+    OBSTACLE_HAPTIC_MIN_INTERVAL_MS: minInterval,
+    OBSTACLE_HAPTIC_MAX_INTERVAL_MS: maxInterval,
+  } = useObstacleDetectionConfig()
+  const speaking = useSpeechActivity()
+  const playerRef = React.useRef<AudioPlayer | null>(null)
+  // Hazard cues get their own player so they play over the tone instead of replacing it.
+  const cuePlayerRef = React.useRef<AudioPlayer | null>(null)
+
+  const voice = sonificationVoice({ alertLevel, label, centerX: centerX ?? POSITION_CENTER_X[position], distance, height })
+  // Voices are quantized, so this only changes when the tone actually has to.
+  const key = voice ? voiceKey(voice, !pulsed) : null
+  const voiceRef = React.useRef(voice)
+  voiceRef.current = voice
+
+  React.useEffect(() => {
+    // Unlike the alert beeps, the tone is ambient: the silent switch mutes it and other audio ducks under it.
+    setAudioModeAsync({ playsInSilentMode: false, interruptionMode: 'duckOthers' }).catch(e => {
+      console.log('Audio mode failed:', e)
+    })
+    const player = createAudioPlayer(null)
+    const cuePlayer = createAudioPlayer(null)
+    playerRef.current = player
+    cuePlayerRef.current = cuePlayer
+    return () => {
+      playerRef.current = null
+      cuePlayerRef.current = null
+      player.remove()
+      cuePlayer.remove()
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (playerRef.current) playerRef.current.volume = duckedVolume(volume, speaking)
+    // A hazard is not ducked: it matters more than whatever is being said.
+    if (cuePlayerRef.current) cuePlayerRef.current.volume = volume
+  }, [volume, speaking])
+
+  React.useEffect(() => {
+    if (hazard !== 'drop-off') return
+    let cancelled = false
+    cachedClip('cue_drop_off', () => synthesizeCue(DROP_OFF_CUE, { noteMs: CUE_NOTE_MS, gapMs: CUE_GAP_MS }))
+      .then(uri => {
+        const player = cuePlayerRef.current
+        if (cancelled || !player) return
+        player.replace({ uri })
+        player.play()
+      })
+      .catch(e => console.log('Hazard cue failed:', e))
+    return () => {
+      cancelled = true
+    }
+  }, [hazard])
+
+  // Continuous: loop the current tone, swapping clips as the voice changes.
+  React.useEffect(() => {
+    const player = playerRef.current
+    const current = voiceRef.current
+    if (pulsed || !player) return
+    if (!current) {
+      player.pause()
+      return
+    }
+    let cancelled = false
+    toneFile(current, true)
+      .then(uri => {
+        if (cancelled || playerRef.current !== player) return
+        player.replace({ uri })
+        player.loop = true
+        player.play()
+      })
+      .catch(e => console.log('Tone failed:', e))
+    return () => {
+      cancelled = true
+    }
+  }, [key, pulsed])
+
+  // Pulsed: one short tone per beat, at the same tempo as the haptic sonar.
+  React.useEffect(() => {
+    if (!pulsed || alertLevel === 'none') return
+    const interval = alertLevel === 'imminent'
+      ? minInterval
+      : alertLevel === 'warning'
+      ? Math.round((minInterval + maxInterval) / 2)
+      : maxInterval
+
+    let cancelled = false
+    const pulse = () => {
+      const current = voiceRef.current
+      if (!current) return
+      toneFile(current, false)
+        .then(uri => {
+          const player = playerRef.current
+          if (cancelled || !player) return
+          player.replace({ uri })
+          player.loop = false
+          player.play()
+        })
+        .catch(e => console.log('Tone failed:', e))
+    }
+
+    pulse()
+    const timer = setInterval(pulse, Math.max(interval, PULSE_DURATION_MS * 2))
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [pulsed, alertLevel, minInterval, maxInterval])
+
+  return null
+}
@@ -0,0 +1,165 @@
+import * as Speech from 'expo-speech'
+import * as React from 'react'
+
+import { AlertLevel } from '../hooks/detectionCore'
+import { GroundHazard } from '../hooks/groundCore'
+import { useObstacleDetectionConfig } from '../hooks/useObstacleDetectionConfig'
+import { SessionNotice } from '../hooks/useNavigationSession'
+import { SceneRequest } from '../hooks/useSceneDescription'
+import { publishSpeaking } from '../hooks/useSpeechActivity'
+import {
+  Announcement,
+  AnnouncementQueueOptions,
+  createAnnouncementQueue,
+  describeHazard,
+  describeObstacle,
+  enqueueAnnouncement,
+  finishAnnouncement,
+  nextAnnouncement,
+} from '../utils/announcementQueue'
+import { ClearSide } from '../utils/directionalCues'
+
+interface SpeechAnnouncerProps {
+  alertLevel: AlertLevel
+  obstacleHeight: number | null
+  obstacleConfidence: number | null
+  obstacleCenterX: number | null
+  obstacleDistance?: number | null
+  // Spoken only when the clear path hint is turned on.
+  clearSide?: ClearSide | null
+  obstacleLabel?: string | null
+  obstacleUrgent?: boolean
+  // Drop-off or wall from the floor analysis, announced on its own.
+  hazard?: GroundHazard | null
+  // Spoken once per request, even with announcements muted, since the user asked for it.
+  scene?: SceneRequest | null
+  // Session confirmations and camera or model failures, also spoken with announcements muted.
+  notice?: SessionNotice | null
+  // Detection failures, reminders that it is unreliable, and recovery; never muted.
+  health?: SessionNotice | null
+}
+
+// Announcements older than this are no longer worth saying.
+const MAX_ANNOUNCEMENT_AGE_MS = 3000
+
+export function SpeechAnnouncer({
+  alertLevel,
+  obstacleHeight,
+  obstacleConfidence,
+  obstacleCenterX,
+  obstacleDistance = null,
+  clearSide = null,
+  obstacleLabel = null,
+  obstacleUrgent = false,
+  hazard = null,
+  scene = null,
+  notice = null,
+  health = null,
+}: SpeechAnnouncerProps) {
+  const config = useObstacleDetectionConfig()
+  const queueRef = React.useRef(createAnnouncementQueue())
+
+  const options: AnnouncementQueueOptions = React.useMemo(() => ({
+    repeatMs: config.OBSTACLE_HAPTIC_REPEAT_MS,
+    maxAgeMs: MAX_ANNOUNCEMENT_AGE_MS,
+  }), [config.OBSTACLE_HAPTIC_REPEAT_MS])
+
+  const speakNext = React.useCallback(() => {
+    if (queueRef.current.current) return
+
+    const { state, announcement } = nextAnnouncement(queueRef.current, Date.now(), options)
+    queueRef.current = state
+    publishSpeaking(announcement != null)
+    if (!announcement) return
+
+    const done = () => {
+      queueRef.current = finishAnnouncement(queueRef.current, announcement.id)
+      speakNext()
+    }
+
+    console.log(`Speech: "${announcement.text}" (${announcement.priority})`)
+    try {
+      Speech.speak(announcement.text, {
+        rate: config.OBSTACLE_SPEECH_RATE,
+        onDone: done,
+        onStopped: done,
+        onError: (err) => {
+          console.log('Speech failed:', err)
+          done()
+        },
+      })
+    } catch (syncErr) {
+      console.log('Speech sync error:', syncErr)
+      done()
+    }
+  }, [options, config.OBSTACLE_SPEECH_RATE])
+
+  const announce = React.useCallback((description: Omit<Announcement, 'id' | 'createdAt'>) => {
+    const { state, queued, interrupt } = enqueueAnnouncement(queueRef.current, description, Date.now(), options)
+    queueRef.current = state
+    if (!queued) return
+
+    if (interrupt && state.current) {
+      // Drop the stale utterance so the urgent warning is heard right away.
+      queueRef.current = finishAnnouncement(state, state.current.id)
+      Speech.stop().catch(() => {})
+    }
+    speakNext()
+  }, [options, speakNext])
+
+  React.useEffect(() => {
+    if (!config.OBSTACLE_SPEECH_ENABLED) return
+    if (alertLevel === 'none' || obstacleHeight === null || obstacleConfidence === null) return
+    if (obstacleConfidence < config.OBSTACLE_SPEECH_CONFIDENCE) return
+
+    const description = describeObstacle({
+      label: obstacleLabel,
+      centerX: obstacleCenterX,
+      height: obstacleHeight,
+      distance: obstacleDistance,
+      level: alertLevel,
+      clearSide: config.OBSTACLE_CLEAR_PATH_HINT ? clearSide : null,
+      urgent: obstacleUrgent,
+    })
+    announce(description)
+  }, [alertLevel, obstacleHeight, obstacleConfidence, obstacleCenterX, obstacleDistance, clearSide, obstacleLabel, obstacleUrgent, config.OBSTACLE_SPEECH_ENABLED, config.OBSTACLE_CLEAR_PATH_HINT, config.OBSTACLE_SPEECH_CONFIDENCE, announce])
+
+  React.useEffect(() => {
+    if (!config.OBSTACLE_SPEECH_ENABLED || !hazard) return
+    announce(describeHazard(hazard))
+  }, [hazard, config.OBSTACLE_SPEECH_ENABLED, announce])
+
+  React.useEffect(() => {
+    if (!scene) return
+    // Above routine announcements so it is heard now, below urgent warnings so it never hides one.
+    announce({ key: `scene:${scene.requestedAt}`, text: scene.text, priority: 'warning' })
+  }, [scene, announce])
+
+  React.useEffect(() => {
+    if (!notice) return
+    announce({ key: `session:${notice.at}`, text: notice.text, priority: notice.priority })
+  }, [notice, announce])
+
+  React.useEffect(() => {
+    if (!health) return
+    announce({ key: `health:${health.at}`, text: health.text, priority: health.priority })
+  }, [health, announce])
+
+  React.useEffect(() => {
+    if (config.OBSTACLE_SPEECH_ENABLED) return
+    // Muting in settings silences anything already queued.
+    queueRef.current = createAnnouncementQueue()
+    publishSpeaking(false)
+    Speech.stop().catch(() => {})
+  }, [config.OBSTACLE_SPEECH_ENABLED])
+
+  React.useEffect(() => {
+    return () => {
+      queueRef.current = createAnnouncementQueue()
+      publishSpeaking(false)
+      Speech.stop().catch(() => {})
+    }
+  }, [])
+
+  return null
+}
@@ -0,0 +1,86 @@
+import {
+  CalibrationSample,
+  calibrateWalk,
+  calibrationConfig,
+  describeCalibration,
+  holdingTilt,
+} from '../calibrationCore'
+
+const DEG = Math.PI / 180
+const FOV = 65
+const TILT = 10
+
+// Row where the floor meets a wall `distance` meters ahead, for a camera `height` meters up.
+function wallRow(distance: number, height: number): number {
+  const f = 0.5 / Math.tan((FOV * DEG) / 2)
+  return 0.5 + f * Math.tan(Math.atan(height / distance) - TILT * DEG)
+}
+
+// Standing still for a second, then walking toward a wall four meters away, ten samples a second.
+function walk(speed: number, height: number, sway = 20): CalibrationSample[] {
+  const samples: CalibrationSample[] = []
+  for (let i = 0; i < 40; i++) {
+    const t = i * 100
+    const walking = t >= 1000
+    const distance = 4 - (walking ? (speed * (t - 1000)) / 1000 : 0)
+    samples.push({
+      t,
+      facing: Math.sin(TILT * DEG),
+      rotationSpeed: walking ? sway * (0.5 + (i % 5) / 8) : 2,
+      walkingSpeed: walking ? speed : 0,
+      wallRow: wallRow(distance, height),
+    })
+  }
+  return samples
+}
+
+describe('holdingTilt', () => {
+  it('reads the camera tilt from how the screen faces', () => {
+    expect(holdingTilt(new Array(20).fill(Math.sin(15 * DEG)))).toBe(15)
+    expect(holdingTilt(new Array(20).fill(Math.sin(-5 * DEG)))).toBe(-5)
+  })
+
+  it('needs motion data', () => {
+    expect(holdingTilt(new Array(20).fill(null))).toBeNull()
+  })
+})
+
+describe('calibrateWalk', () => {
+  it('recovers walking speed and camera height from the approach to a wall', () => {
+    const result = calibrateWalk(walk(1.1, 1.2), TILT, FOV)
+    expect(result.walkingSpeed).toBeCloseTo(1.1, 5)
+    expect(result.heightM).toBeCloseTo(1.2, 1)
+    expect(result.swayDegS).toBeCloseTo(20, 5)
+  })
+
+  it('leaves the height unknown without a wall in view', () => {
+    const samples = walk(1.1, 1.2).map(s => ({ ...s, wallRow: null }))
+    const result = calibrateWalk(samples, TILT, FOV)
+    expect(result.heightM).toBeNull()
+    expect(result.walkingSpeed).toBeCloseTo(1.1, 5)
+  })
+
+  it('measures nothing when the user never walked', () => {
+    const samples = walk(1.1, 1.2).map(s => ({ ...s, walkingSpeed: 0 }))
+    expect(calibrateWalk(samples, TILT, FOV)).toEqual({ heightM: null, walkingSpeed: null, swayDegS: null })
+  })
+})
+
+describe('calibrationConfig', () => {
+  it('only sets what was measured', () => {
+    expect(calibrationConfig({ tiltDeg: 12, heightM: null, walkingSpeed: null, swayDegS: null })).toEqual({ CAMERA_TILT_DEG: 12 })
+  })
+
+  it('scales closing speed to the walk and loosens the turn limit for a swaying gait', () => {
+    const values = calibrationConfig({ tiltDeg: 12, heightM: 1.23, walkingSpeed: 1.2, swayDegS: 45 })
+    expect(values.CAMERA_HEIGHT_M).toBeCloseTo(1.25, 5)
+    expect(values.OBSTACLE_MIN_CLOSING_SPEED).toBeCloseTo(0.3, 5)
+    expect(values.OBSTACLE_MAX_ROTATION_DEG_S).toBe(180)
+    expect(calibrationConfig({ tiltDeg: 12, heightM: null, walkingSpeed: null, swayDegS: 10 }).OBSTACLE_MAX_ROTATION_DEG_S).toBe(120)
+  })
+
+  it('describes the result', () => {
+    expect(describeCalibration({ tiltDeg: 15, heightM: 1.24, walkingSpeed: 1.06, swayDegS: 30 }))
+      .toBe('Camera tilted 15 degrees down, held 1.2 meters high, walking 1.1 meters per second')
+  })
+})
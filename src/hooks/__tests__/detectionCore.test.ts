@@ -0,0 +1,214 @@
+import { analyzeDetection, DetectionOptions, nextAlertLevel, scaleTimeToContact } from '../detectionCore'
+
+const options: DetectionOptions = {
+  estimator: 'heuristic',
+  frames: 12,
+  threshold: 0.4,
+  hysteresis: 0.12,
+  minSlope: 0.008,
+  suddenDelta: 0.15,
+  smoothingWindow: 6,
+  allowSizeOnly: false,
+  triggerDistance: 1.5,
+  distanceHysteresis: 0.4,
+  minClosingSpeed: 0.2,
+  cautionTimeToContact: 4,
+  timeToContact: 2.5,
+  imminentTimeToContact: 1.2,
+  ttcHysteresis: 0.25,
+  minTtcConfidence: 0.5,
+}
+
+// Box heights of a 1.7 m person seen with focal length 0.8, walking from 6 m at the given speed.
+function approach(speed: number, frames: number, frameMs = 100) {
+  const times: number[] = []
+  const heights: number[] = []
+  for (let i = 0; i < frames; i++) {
+    const t = i * frameMs
+    times.push(t)
+    heights.push((1.7 * 0.8) / (6 - (speed * t) / 1000))
+  }
+  return { times, heights }
+}
+
+describe('scaleTimeToContact', () => {
+  it('recovers time to contact from box growth alone', () => {
+    const { times, heights } = approach(1.5, 10)
+    // After 0.9 s at 1.5 m/s the person is 4.65 m away: 3.1 s to go.
+    const ttc = scaleTimeToContact(heights, times)!
+    expect(ttc.seconds).toBeGreaterThan(2.9)
+    expect(ttc.seconds).toBeLessThan(3.4)
+    expect(ttc.confidence).toBeGreaterThan(0.9)
+  })
+
+  it('is infinite with no confidence for a box that does not grow', () => {
+    expect(scaleTimeToContact([0.3, 0.3, 0.3, 0.3], [0, 100, 200, 300])).toEqual({ seconds: Infinity, confidence: 0, source: 'scale' })
+  })
+
+  it('has low confidence when the box jitters', () => {
+    const ttc = scaleTimeToContact([0.3, 0.36, 0.29, 0.35, 0.3, 0.36], [0, 100, 200, 300, 400, 500])!
+    expect(ttc.confidence).toBeLessThan(0.5)
+  })
+
+  it('needs a few samples', () => {
+    expect(scaleTimeToContact([0.3, 0.4], [0, 100])).toBeNull()
+  })
+})
+
+describe('nextAlertLevel', () => {
+  const level = (previous: Parameters<typeof nextAlertLevel>[0], ttc: number | null, detected = false) =>
+    nextAlertLevel(previous, { detected, veryClose: false, timeToContact: ttc }, options)
+
+  it('enters each level at its own threshold', () => {
+    expect(level('none', 5)).toBe('none')
+    expect(level('none', 3.9)).toBe('caution')
+    expect(level('none', 2.4)).toBe('warning')
+    expect(level('none', 1.1)).toBe('imminent')
+    expect(level('none', null, true)).toBe('caution')
+  })
+
+  it('holds a level until time to contact clears it by the hysteresis', () => {
+    expect(level('imminent', 1.4)).toBe('imminent')
+    expect(level('imminent', 1.6)).toBe('warning')
+    expect(level('warning', 3)).toBe('warning')
+    expect(level('warning', 3.2)).toBe('caution')
+    expect(level('caution', 4.9)).toBe('caution')
+    expect(level('caution', 5.1)).toBe('none')
+  })
+
+  it('does not enter a higher level inside its hysteresis band', () => {
+    expect(level('caution', 2.8)).toBe('caution')
+    expect(level('warning', 1.4)).toBe('warning')
+  })
+})
+
+describe('analyzeDetection alert levels', () => {
+  const confidences = (n: number) => Array.from({ length: n }, () => 0.8)
+
+  it('warns a fast walker before the box reaches the size threshold', () => {
+    const { times, heights } = approach(2, 12)
+    const res = analyzeDetection(heights, confidences(12), false, options, { times, distances: [], distanceTimes: [] })
+    // Heights stay under the 0.4 threshold, but contact is about 2.4 s away.
+    expect(Math.max(...heights)).toBeLessThan(options.threshold)
+    expect(res.alertLevel).toBe('warning')
+    expect(res.newDetected).toBe(true)
+    expect(res.timeToContact?.source).toBe('scale')
+  })
+
+  it('only cautions a slow walker at the same distance', () => {
+    const { times, heights } = approach(0.8, 12)
+    const res = analyzeDetection(heights, confidences(12), false, options, { times, distances: [], distanceTimes: [] })
+    expect(res.alertLevel).toBe('none')
+  })
+
+  it('reports size-only detections as caution', () => {
+    const heights = [0.5, 0.5, 0.5, 0.5]
+    const res = analyzeDetection(heights, confidences(4), false, { ...options, allowSizeOnly: true }, { times: [0, 100, 200, 300], distances: [], distanceTimes: [] })
+    expect(res.alertLevel).toBe('caution')
+  })
+
+  it('ignores time to contact without timestamps', () => {
+    const { heights } = approach(2, 12)
+    expect(analyzeDetection(heights, confidences(12), false, options).alertLevel).toBe('none')
+  })
+})
+
+describe('analyzeDetection with motion', () => {
+  const confidences = (n: number) => Array.from({ length: n }, () => 0.8)
+  const times = (n: number) => Array.from({ length: n }, (_, i) => i * 100)
+
+  it('ignores a sudden jump taken mid-turn', () => {
+    const heights = [0.2, 0.2, 0.2, 0.2, 0.2, 0.37]
+    const series = { times: times(6), distances: [], distanceTimes: [] }
+    const sizeOnly = { ...options, smoothingWindow: 1, cautionTimeToContact: 0, timeToContact: 0, imminentTimeToContact: 0 }
+    expect(analyzeDetection(heights, confidences(6), false, sizeOnly, series).newDetected).toBe(true)
+    const turning = { ...series, weights: [1, 1, 1, 1, 1, 0.5] }
+    expect(analyzeDetection(heights, confidences(6), false, sizeOnly, turning).newDetected).toBe(false)
+  })
+
+  it('down-weights samples in the smoothed height', () => {
+    const heights = [0.3, 0.3, 0.3, 0.9]
+    const series = { times: times(4), distances: [], distanceTimes: [] }
+    const plain = analyzeDetection(heights, confidences(4), false, options, series)
+    const weighted = analyzeDetection(heights, confidences(4), false, options, { ...series, weights: [1, 1, 1, 0.1] })
+    expect(weighted.smoothed).toBeLessThan(plain.smoothed)
+  })
+
+  it('does not warn a user standing next to furniture', () => {
+    const sizeOnly = { ...options, allowSizeOnly: true }
+    const distances = [1.2, 1.2, 1.2, 1.2, 1.2, 1.2]
+    const series = { times: times(6), distances, distanceTimes: times(6) }
+    const standing = analyzeDetection([0.4, 0.4, 0.4, 0.4, 0.4, 0.4], confidences(6), false, sizeOnly, series)
+    expect(standing.alertLevel).not.toBe('none')
+    const stationary = analyzeDetection([0.4, 0.4, 0.4, 0.4, 0.4, 0.4], confidences(6), false, sizeOnly, { ...series, walkingSpeed: 0, stationary: true })
+    expect(stationary.alertLevel).toBe('none')
+  })
+
+  it('still warns a stationary user about something very close or a person', () => {
+    const stationary = { walkingSpeed: 0, stationary: true }
+    const near = [0.6, 0.6, 0.6, 0.6, 0.6, 0.6]
+    const close = analyzeDetection([0.6, 0.6, 0.6, 0.6, 0.6, 0.6], confidences(6), false, options, {
+      times: times(6), distances: near, distanceTimes: times(6), ...stationary,
+    })
+    expect(close.alertLevel).toBe('warning')
+
+    const sizeOnly = { ...options, allowSizeOnly: true }
+    const person = analyzeDetection([0.4, 0.4, 0.4, 0.4, 0.4, 0.4], confidences(6), false, sizeOnly, {
+      times: times(6), distances: [1.2, 1.2, 1.2, 1.2, 1.2, 1.2], distanceTimes: times(6), ...stationary, urgent: true,
+    })
+    expect(person.alertLevel).not.toBe('none')
+  })
+
+  it('tells a stationary user drifting toward furniture apart from furniture moving toward them', () => {
+    // Closing at 0.3 m/s, of which the IMU puts 0.15 m/s down to the user still shuffling forward.
+    const distances = [1.45, 1.42, 1.39, 1.36, 1.33, 1.3]
+    const series = { times: times(6), distances, distanceTimes: times(6), walkingSpeed: 0.15, stationary: true }
+    const res = analyzeDetection([0.4, 0.4, 0.4, 0.4, 0.4, 0.4], confidences(6), false, options, series)
+    expect(res.closingSpeed).toBeCloseTo(0.3)
+    expect(res.objectSpeed).toBeCloseTo(0.15)
+    expect(res.alertLevel).toBe('none')
+    expect(analyzeDetection([0.4, 0.4, 0.4, 0.4, 0.4, 0.4], confidences(6), false, options, { ...series, stationary: false }).alertLevel).not.toBe('none')
+  })
+
+  it('still warns a stationary user about something coming at them', () => {
+    const distances = [3, 2.8, 2.6, 2.4, 2.2, 2, 1.8, 1.6, 1.4]
+    const series = { times: times(9), distances, distanceTimes: times(9), walkingSpeed: 0, stationary: true }
+    const res = analyzeDetection(distances.map(d => 1 / d), confidences(9), false, options, series)
+    expect(res.alertLevel).not.toBe('none')
+    // 2 m/s closing with the user standing still: all of it is the object's own motion.
+    expect(res.objectSpeed).toBeCloseTo(2)
+  })
+
+  it('separates the walking speed from the closing speed', () => {
+    const distances = [3, 2.9, 2.8, 2.7, 2.6]
+    const res = analyzeDetection([0.3, 0.3, 0.3, 0.3, 0.3], confidences(5), false, options, {
+      times: times(5), distances, distanceTimes: times(5), walkingSpeed: 1, stationary: false,
+    })
+    expect(res.closingSpeed).toBeCloseTo(1)
+    expect(res.objectSpeed).toBeCloseTo(0)
+  })
+})
+
+describe('analyzeDetection estimators', () => {
+  const confidences = (n: number) => Array.from({ length: n }, () => 0.8)
+  const kalman = { ...options, estimator: 'kalman' as const }
+
+  it('reports the covariance only from the Kalman filter', () => {
+    const heights = [0.2, 0.22, 0.24, 0.26, 0.28, 0.3]
+    expect(analyzeDetection(heights, confidences(6), false, options).covariance).toBeNull()
+    const res = analyzeDetection(heights, confidences(6), false, kalman)
+    expect(res.covariance).toHaveLength(3)
+    expect(res.slope).toBeCloseTo(0.02, 2)
+  })
+
+  it('measures the growth rate per frame interval across a dropped frame', () => {
+    const heights = [0.2, 0.22, 0.24, 0.28, 0.3, 0.32]
+    const series = { times: [0, 100, 200, 400, 500, 600], distances: [], distanceTimes: [] }
+    expect(analyzeDetection(heights, confidences(6), false, kalman, series).slope).toBeCloseTo(0.02, 2)
+  })
+
+  it('lets a box far above the threshold alert without an approach', () => {
+    const res = analyzeDetection([0.7, 0.7, 0.7, 0.7, 0.7, 0.7], confidences(6), false, kalman)
+    expect(res.alertLevel).toBe('caution')
+  })
+})
@@ -0,0 +1,161 @@
+import { AlertLevel, analyzeDetection, DetectionOptions, EstimatorKind, ESTIMATOR_KINDS } from '../detectionCore'
+
+// Size rules only: time-to-contact alerts do not depend on the estimator and would hide the difference.
+const options: Omit<DetectionOptions, 'estimator'> = {
+  frames: 12,
+  threshold: 0.4,
+  hysteresis: 0.12,
+  minSlope: 0.008,
+  suddenDelta: 0.15,
+  smoothingWindow: 6,
+  allowSizeOnly: false,
+  triggerDistance: 1.5,
+  distanceHysteresis: 0.4,
+  minClosingSpeed: 0.2,
+  cautionTimeToContact: 0,
+  timeToContact: 0,
+  imminentTimeToContact: 0,
+  ttcHysteresis: 0.25,
+  minTtcConfidence: 0.5,
+}
+
+const FRAME_MS = 100
+// Box height of a 1.7 m person seen with focal length 0.8, at the given distance.
+const heightAt = (meters: number) => Math.min(1, (1.7 * 0.8) / meters)
+
+// Past this the box is clipped by the frame and its growth says nothing.
+const MAX_RATED_HEIGHT = 0.8
+
+type Sample = { t: number; height: number; truth: number; truthRate: number }
+
+type Scenario = {
+  name: string
+  frames: Sample[]
+  // Whether a correct estimator alerts at some point.
+  shouldAlert: boolean
+}
+
+// Deterministic noise, so the comparison does not flake.
+function gaussian(seed: number) {
+  let state = seed
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  return () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform())
+}
+
+function scenario(
+  name: string,
+  shouldAlert: boolean,
+  count: number,
+  truthAt: (seconds: number) => number,
+  {
+    noise = 0.015,
+    seed = 1,
+    dropped,
+    glitch,
+  }: { noise?: number; seed?: number; dropped?: (i: number) => boolean; glitch?: (i: number) => number } = {}
+): Scenario {
+  const random = gaussian(seed)
+  const frames: Sample[] = []
+  for (let i = 0; i < count; i++) {
+    const noiseSample = random() * noise
+    if (dropped?.(i)) continue
+    const t = i * FRAME_MS
+    const truth = truthAt(t / 1000)
+    const truthRate = truthAt((t + FRAME_MS) / 1000) - truth
+    frames.push({ t, height: Math.max(0, truth + noiseSample + (glitch?.(i) ?? 0)), truth, truthRate })
+  }
+  return { name, frames, shouldAlert }
+}
+
+const SCENARIOS: Scenario[] = [
+  // Walking up to a person at 1.2 m/s from 6 m.
+  scenario('approach', true, 40, s => heightAt(6 - 1.2 * s)),
+  // A person walking away from 3 m: the box starts just above the threshold and shrinks.
+  scenario('retreat', false, 40, s => heightAt(3 + 1.2 * s), { seed: 2 }),
+  // Someone crossing 3.6 m ahead: the box grows to just under the threshold and shrinks again.
+  scenario('pass-by', false, 50, s => heightAt(Math.hypot(3.6, 1.2 * (s - 2.5))), { noise: 0.02, seed: 3 }),
+  // A pillar 3.7 m away, just under the threshold, seen through a noisy detector.
+  scenario('jitter', false, 60, () => heightAt(3.7), { noise: 0.03, seed: 4 }),
+  // The same pillar with the detector's box flaring up for a single frame now and then.
+  scenario('flicker', false, 60, () => heightAt(3.7), { seed: 6, glitch: i => (i % 15 === 7 ? 0.2 : 0) }),
+  // The same approach with every third frame lost to inference hiccups.
+  scenario('dropped frames', true, 40, s => heightAt(6 - 1.2 * s), { seed: 5, dropped: i => i % 3 === 2 }),
+]
+
+type Outcome = {
+  // Index of the first alerting frame, or null.
+  firstAlert: number | null
+  alertFrames: number
+  // Root mean square error of the growth rate per frame interval, from a full window until the box nears the frame edge.
+  rateError: number
+}
+
+// Feeds the frames one by one, the way the tracker does.
+function run(frames: Sample[], estimator: EstimatorKind): Outcome {
+  const detection = { ...options, estimator }
+  const heights: number[] = []
+  const times: number[] = []
+  let detected = false
+  let level: AlertLevel = 'none'
+  let firstAlert: number | null = null
+  let alertFrames = 0
+  let squared = 0
+  let rated = 0
+  frames.forEach((frame, i) => {
+    heights.push(frame.height)
+    times.push(frame.t)
+    const res = analyzeDetection(heights, heights.map(() => 0.9), detected, detection, { times, distances: [], distanceTimes: [] }, level)
+    detected = res.newDetected
+    level = res.alertLevel
+    if (detected) {
+      alertFrames++
+      if (firstAlert == null) firstAlert = i
+    }
+    if (heights.length >= options.frames && frame.truth < MAX_RATED_HEIGHT) {
+      squared += (res.slope - frame.truthRate) ** 2
+      rated++
+    }
+  })
+  return { firstAlert, alertFrames, rateError: Math.sqrt(squared / Math.max(1, rated)) }
+}
+
+const results = Object.fromEntries(
+  SCENARIOS.map(s => [s.name, Object.fromEntries(ESTIMATOR_KINDS.map(kind => [kind, run(s.frames, kind)]))])
+) as Record<string, Record<EstimatorKind, Outcome>>
+
+describe('estimator benchmark', () => {
+  it.each(SCENARIOS.filter(s => s.shouldAlert).map(s => s.name))('both estimators alert on %s', name => {
+    const { heuristic, kalman } = results[name]
+    expect(heuristic.firstAlert).not.toBeNull()
+    expect(kalman.firstAlert).not.toBeNull()
+    // The filter should not buy its smoothness with a late warning.
+    expect(kalman.firstAlert!).toBeLessThanOrEqual(heuristic.firstAlert! + 2)
+  })
+
+  it.each(SCENARIOS.filter(s => !s.shouldAlert).map(s => s.name))('the Kalman filter raises no more false alerts on %s', name => {
+    const { heuristic, kalman } = results[name]
+    expect(kalman.alertFrames).toBeLessThanOrEqual(heuristic.alertFrames)
+  })
+
+  it('keeps the growth rate right across dropped frames', () => {
+    const { heuristic, kalman } = results['dropped frames']
+    expect(kalman.rateError).toBeLessThan(heuristic.rateError)
+  })
+
+  // ESTIMATOR_BENCHMARK=1 npx jest estimatorBenchmark prints the full comparison.
+  ;(process.env.ESTIMATOR_BENCHMARK ? it : it.skip)('prints the comparison table', () => {
+    const rows = SCENARIOS.flatMap(s =>
+      ESTIMATOR_KINDS.map(kind => {
+        const { firstAlert, alertFrames, rateError } = results[s.name][kind]
+        return `${s.name.padEnd(16)}${kind.padEnd(11)}first alert ${String(firstAlert ?? '—').padStart(3)}  ` +
+          `alert frames ${String(alertFrames).padStart(3)}  rate error ${rateError.toFixed(4)}`
+      })
+    )
+    console.log(rows.join('\n'))
+  })
+})
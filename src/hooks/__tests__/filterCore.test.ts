@@ -0,0 +1,188 @@
+import { parseLabelMap } from '../../utils/labelMap'
+import { adaptiveThreshold, compactFilterResult, DEFAULT_FILTER_OPTIONS, filterDetections, FilterOptions } from '../filterCore'
+
+const labelMap = parseLabelMap(require('../../../assets/labelmap.json'))
+const options: FilterOptions = { ...DEFAULT_FILTER_OPTIONS, minConfidence: 0.5, labelMap }
+
+const PERSON = 0
+const CHAIR = 61
+const CUP = 46
+
+// A box centered horizontally with the given size.
+function centered(height: number, width = 0.3): number[] {
+  return [0.5 - height / 2, 0.5 - width / 2, 0.5 + height / 2, 0.5 + width / 2]
+}
+
+describe('filterDetections', () => {
+  it('accepts a large center-path box and names it', () => {
+    const result = filterDetections(
+      { boxes: [centered(0.5)], classIds: [CHAIR], confidenceScores: [0.9] },
+      options
+    )
+    expect(result.detections).toHaveLength(1)
+    expect(result.detections[0]).toMatchObject({ label: 'chair', confidence: 0.9, urgent: false })
+    expect(result.detections[0].height).toBeCloseTo(0.5)
+    expect(result.decisions[0]).toMatchObject({ accepted: true, reason: null })
+  })
+
+  it('reads flat box tensors', () => {
+    const result = filterDetections(
+      { boxes: new Float32Array(centered(0.5)), classIds: new Float32Array([PERSON]), confidenceScores: new Float32Array([0.8]) },
+      options
+    )
+    expect(result.detections).toHaveLength(1)
+    expect(result.detections[0].urgent).toBe(true)
+  })
+
+  it('reports why boxes were rejected', () => {
+    const result = filterDetections(
+      {
+        boxes: [
+          centered(0.5),
+          [0.2, 0.0, 0.8, 0.15], // far left
+          centered(0.2), // small
+          centered(0.5),
+        ],
+        classIds: [CHAIR, CHAIR, CHAIR, CUP],
+        confidenceScores: [0.1, 0.9, 0.9, 0.9],
+      },
+      options
+    )
+    expect(result.detections).toHaveLength(0)
+    expect(result.decisions.map(d => d.reason)).toEqual(['below-threshold', 'off-center', 'too-small', 'ignored-class'])
+  })
+
+  it('keeps only what JS needs when compacted', () => {
+    const noise = Array.from({ length: 50 }, () => centered(0.5))
+    const result = compactFilterResult(filterDetections(
+      {
+        boxes: [centered(0.5), centered(0.2), ...noise],
+        classIds: [CHAIR, CHAIR, ...noise.map(() => CHAIR)],
+        confidenceScores: [0.9, 0.9, ...noise.map(() => 0.05)],
+      },
+      options
+    ))
+    expect(result.detections).toHaveLength(1)
+    expect(result.rejected.map(d => d.reason)).toEqual(['too-small'])
+    expect(result).not.toHaveProperty('decisions')
+  })
+
+  it('uses per-class minimum heights', () => {
+    const result = filterDetections(
+      { boxes: [centered(0.3), centered(0.3)], classIds: [PERSON, CHAIR], confidenceScores: [0.9, 0.9] },
+      { ...options, classPolicies: { person: { minHeight: 0.25 } } }
+    )
+    expect(result.decisions.map(d => d.reason)).toEqual([null, 'too-small'])
+  })
+
+  it('honours the configured center tolerance and minimum size', () => {
+    const offCenter = [0.2, 0.75, 0.8, 0.95] // centerX 0.85
+    const outputs = { boxes: [offCenter], classIds: [CHAIR], confidenceScores: [0.9] }
+    expect(filterDetections(outputs, options).decisions[0].reason).toBe('off-center')
+    expect(filterDetections(outputs, { ...options, centerTolerance: 0.4 }).decisions[0].accepted).toBe(true)
+
+    const thin = { boxes: [centered(0.5, 0.1)], classIds: [CHAIR], confidenceScores: [0.9] }
+    expect(filterDetections(thin, options).decisions[0].reason).toBe('too-small')
+    expect(filterDetections(thin, { ...options, minBoxWidth: 0.05 }).decisions[0].accepted).toBe(true)
+  })
+
+  describe('busy scenes', () => {
+    it('uses the base factor in quiet scenes', () => {
+      const result = filterDetections(
+        { boxes: [centered(0.5)], classIds: [CHAIR], confidenceScores: [0.3] },
+        options
+      )
+      expect(result.threshold).toBeCloseTo(0.25)
+      expect(result.detections).toHaveLength(1)
+    })
+
+    it('raises the threshold when more than busySceneCount boxes compete', () => {
+      const scores = [0.3, 0.3, 0.3, 0.4]
+      const result = filterDetections(
+        { boxes: scores.map(() => centered(0.5)), classIds: scores.map(() => CHAIR), confidenceScores: scores },
+        options
+      )
+      expect(result.candidates).toBe(4)
+      expect(result.threshold).toBeCloseTo(0.35)
+      expect(result.detections.map(d => d.confidence)).toEqual([0.4])
+    })
+
+    it('raises it further when more than veryBusySceneCount boxes compete', () => {
+      const scores = [0.3, 0.3, 0.3, 0.3, 0.38, 0.45]
+      const result = filterDetections(
+        { boxes: scores.map(() => centered(0.5)), classIds: scores.map(() => CHAIR), confidenceScores: scores },
+        options
+      )
+      expect(result.threshold).toBeCloseTo(0.4)
+      expect(result.detections.map(d => d.confidence)).toEqual([0.45])
+    })
+
+    it('does not count ignored classes towards a busy scene', () => {
+      const scores = [0.3, 0.3, 0.3, 0.3, 0.3, 0.3]
+      const result = filterDetections(
+        { boxes: scores.map(() => centered(0.5)), classIds: [CHAIR, CUP, CUP, CUP, CUP, CUP], confidenceScores: scores },
+        options
+      )
+      expect(result.candidates).toBe(1)
+      expect(result.detections).toHaveLength(1)
+    })
+
+    it('follows configured counts and factors', () => {
+      expect(adaptiveThreshold(2, { ...options, busySceneCount: 1, busyConfidenceFactor: 0.9 })).toBeCloseTo(0.45)
+      expect(adaptiveThreshold(2, options)).toBeCloseTo(0.25)
+    })
+  })
+
+  describe('malformed boxes', () => {
+    const fallbackOptions: FilterOptions = { ...options, fallbackEnabled: true }
+
+    it('makes up no obstacle unless the fallback is turned on', () => {
+      const result = filterDetections({ boxes: [[0.1, 0.2]], classIds: [PERSON], confidenceScores: [0.9] }, options)
+      expect(result.decisions[0].reason).toBe('malformed-box')
+      expect(result.fallback).toBeNull()
+    })
+
+    it('falls back to the configured height for confident undecodable boxes', () => {
+      const result = filterDetections(
+        { boxes: [[0.1, 0.2]], classIds: [PERSON], confidenceScores: [0.7] },
+        fallbackOptions
+      )
+      expect(result.decisions[0].reason).toBe('malformed-box')
+      expect(result.fallback).toMatchObject({ height: 0.6, confidence: 0.7, label: 'person', urgent: true })
+    })
+
+    it('rejects NaN and inverted coordinates', () => {
+      const result = filterDetections(
+        { boxes: [[NaN, 0.2, 0.8, 0.6], [0.8, 0.2, 0.2, 0.6]], classIds: [CHAIR, CHAIR], confidenceScores: [0.9, 0.9] },
+        options
+      )
+      expect(result.decisions.map(d => d.reason)).toEqual(['malformed-box', 'malformed-box'])
+    })
+
+    it('handles missing boxes and class ids', () => {
+      const result = filterDetections({ boxes: undefined, classIds: undefined, confidenceScores: [0.9] }, fallbackOptions)
+      expect(result.decisions[0]).toMatchObject({ reason: 'malformed-box', label: null })
+      expect(result.fallback).toMatchObject({ height: 0.6, confidence: 0.9 })
+    })
+
+    it('does not fall back below fallbackMinConfidence or when disabled', () => {
+      const outputs = { boxes: [[0.1]], classIds: [CHAIR], confidenceScores: [0.45] }
+      expect(filterDetections(outputs, fallbackOptions).fallback).toBeNull()
+      expect(filterDetections({ ...outputs, confidenceScores: [0.9] }, options).fallback).toBeNull()
+    })
+
+    it('prefers real detections over the fallback', () => {
+      const result = filterDetections(
+        { boxes: [centered(0.5), [0.1]], classIds: [CHAIR, PERSON], confidenceScores: [0.6, 0.95] },
+        fallbackOptions
+      )
+      expect(result.detections).toHaveLength(1)
+      expect(result.fallback).toBeNull()
+    })
+
+    it('returns nothing without scores', () => {
+      const result = filterDetections({ boxes: [centered(0.5)], classIds: [CHAIR], confidenceScores: null }, options)
+      expect(result).toMatchObject({ detections: [], decisions: [], fallback: null })
+    })
+  })
+})
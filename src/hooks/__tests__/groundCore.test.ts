@@ -0,0 +1,93 @@
+import { DEFAULT_CAMERA } from '../../utils/distance'
+import { GroundAnalysis, INITIAL_HAZARD_STATE, analyzeGround, updateHazardState } from '../groundCore'
+
+const SIZE = 32
+
+// Floor with a little deterministic texture, and whatever `paint` puts on top of it.
+function scene(paint: (row: number, col: number) => number | null = () => null): number[] {
+  const luma: number[] = []
+  for (let r = 0; r < SIZE; r++) {
+    for (let c = 0; c < SIZE; c++) {
+      luma.push(paint(r, c) ?? 120 + (((r * 7 + c * 13) % 9) - 4))
+    }
+  }
+  return luma
+}
+
+describe('analyzeGround', () => {
+  it('sees an open corridor on plain floor', () => {
+    const result = analyzeGround(scene(), SIZE, SIZE, DEFAULT_CAMERA)
+    expect(result.hazard).toBeNull()
+    expect(result.corridorEnd).toBeLessThanOrEqual(0.5)
+    expect(result.corridorWidth).toBeCloseTo(1)
+  })
+
+  it('reports a drop-off where the floor ends at a dark edge', () => {
+    const result = analyzeGround(scene((r) => (r < 27 ? 35 : null)), SIZE, SIZE, DEFAULT_CAMERA)
+    expect(result.hazard).toBe('drop-off')
+    expect(result.corridorEnd).toBeCloseTo(27 / 32)
+    expect(result.corridorDistance).toBeCloseTo(1.95, 1)
+    expect(result.confidence).toBe(1)
+  })
+
+  it('reports a drop-off when floor resumes beyond a step edge', () => {
+    const stairs = scene((r) => (r >= 22 && r < 25 ? 200 : null))
+    expect(analyzeGround(stairs, SIZE, SIZE, DEFAULT_CAMERA).hazard).toBe('drop-off')
+  })
+
+  it('reports a wall when a lighter surface fills the rest of the view', () => {
+    const result = analyzeGround(scene((r) => (r < 25 ? 210 : null)), SIZE, SIZE, DEFAULT_CAMERA)
+    expect(result.hazard).toBe('wall')
+    expect(result.corridorDistance).toBeGreaterThan(2)
+  })
+
+  it('leaves ragged boundaries to the object detector', () => {
+    // Something covering just over half of the corridor, with an uneven bottom edge.
+    const object = scene((r, c) => (c >= 11 && c < 18 && r < 24 + (c % 3) ? 60 : null))
+    expect(analyzeGround(object, SIZE, SIZE, DEFAULT_CAMERA).hazard).toBeNull()
+  })
+
+  it('falls back to rows without a camera model', () => {
+    const result = analyzeGround(scene((r) => (r < 27 ? 35 : null)), SIZE, SIZE, null)
+    expect(result.hazard).toBe('drop-off')
+    expect(result.corridorDistance).toBeNull()
+  })
+})
+
+describe('updateHazardState', () => {
+  const options = { hazardDistance: 2.5, confirmFrames: 3, clearFrames: 2 }
+  const dropOff: GroundAnalysis = { corridorEnd: 0.84, corridorDistance: 2, corridorWidth: 1, hazard: 'drop-off', confidence: 0.9 }
+  const clear: GroundAnalysis = { ...dropOff, corridorEnd: 0.5, corridorDistance: null, hazard: null, confidence: 0 }
+
+  it('needs several frames in a row to raise a hazard', () => {
+    let state = INITIAL_HAZARD_STATE
+    state = updateHazardState(state, dropOff, options)
+    state = updateHazardState(state, dropOff, options)
+    expect(state.hazard).toBeNull()
+    state = updateHazardState(state, dropOff, options)
+    expect(state.hazard).toMatchObject({ kind: 'drop-off', distance: 2, level: 'warning' })
+  })
+
+  it('escalates as the edge gets close and clears after a few clear frames', () => {
+    let state = INITIAL_HAZARD_STATE
+    for (let i = 0; i < 3; i++) state = updateHazardState(state, dropOff, options)
+    state = updateHazardState(state, { ...dropOff, corridorDistance: 1 }, options)
+    expect(state.hazard?.level).toBe('imminent')
+    state = updateHazardState(state, clear, options)
+    expect(state.hazard).not.toBeNull()
+    state = updateHazardState(state, clear, options)
+    expect(state.hazard).toBeNull()
+  })
+
+  it('ignores hazards beyond the hazard distance', () => {
+    let state = INITIAL_HAZARD_STATE
+    for (let i = 0; i < 5; i++) state = updateHazardState(state, { ...dropOff, corridorDistance: 4 }, options)
+    expect(state.hazard).toBeNull()
+  })
+
+  it('treats walls as less urgent than drop-offs', () => {
+    let state = INITIAL_HAZARD_STATE
+    for (let i = 0; i < 3; i++) state = updateHazardState(state, { ...dropOff, hazard: 'wall' }, options)
+    expect(state.hazard?.level).toBe('caution')
+  })
+})
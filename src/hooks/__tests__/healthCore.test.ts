@@ -0,0 +1,135 @@
+import {
+  addHealthHeartbeat,
+  addHealthSample,
+  assessHealth,
+  DEFAULT_HEALTH_OPTIONS,
+  describeHealthChange,
+  HealthSample,
+  HealthSignals,
+  HealthState,
+  INITIAL_HEALTH_STATE,
+} from '../healthCore'
+
+const WORKING: HealthSignals = { model: 'loaded', fault: null, active: true, expectFrames: true }
+
+const frame = (at: number, overrides: Partial<HealthSample> = {}): HealthSample =>
+  ({ at, latencyMs: 80, malformed: false, failed: false, ...overrides })
+
+// Ten frames a second from `from` to `to`, assessing after each one.
+function run(state: HealthState, from: number, to: number, sample: (at: number) => Partial<HealthSample> = () => ({}), signals = WORKING) {
+  const changes: string[] = []
+  for (let at = from; at <= to; at += 100) {
+    state = addHealthSample(state, frame(at, sample(at)), DEFAULT_HEALTH_OPTIONS)
+    const update = assessHealth(state, signals, at, DEFAULT_HEALTH_OPTIONS)
+    state = update.state
+    if (update.change) changes.push(update.change)
+  }
+  return { state, changes }
+}
+
+describe('assessHealth', () => {
+  it('stays quiet while frames are fine', () => {
+    const { state, changes } = run(INITIAL_HEALTH_STATE, 0, 10_000)
+    expect(state.level).toBe('ok')
+    expect(changes).toEqual([])
+  })
+
+  it('reports a model that failed to load even before navigating', () => {
+    const update = assessHealth(INITIAL_HEALTH_STATE, { model: 'error', fault: null, active: false, expectFrames: false }, 0, DEFAULT_HEALTH_OPTIONS)
+    expect(update.change).toBe('failed')
+    expect(describeHealthChange(update)).toEqual({
+      text: 'Obstacle detection unavailable. The detection model could not be loaded',
+      priority: 'urgent',
+    })
+  })
+
+  it('turns a stalled camera into a failure', () => {
+    const update = assessHealth(INITIAL_HEALTH_STATE, { ...WORKING, fault: 'stalled' }, 0, DEFAULT_HEALTH_OPTIONS)
+    expect(update.state.level).toBe('unavailable')
+    expect(update.state.issue).toBe('stalled')
+  })
+
+  it('fails when frames stop arriving, even with the window nearly empty and the session paused', () => {
+    const signals: HealthSignals = { ...WORKING, active: false }
+    let state = addHealthSample(INITIAL_HEALTH_STATE, frame(0), DEFAULT_HEALTH_OPTIONS)
+    state = assessHealth(state, signals, 100, DEFAULT_HEALTH_OPTIONS).state
+    const quiet = assessHealth(state, signals, 2500, DEFAULT_HEALTH_OPTIONS)
+    expect(quiet.change).toBeNull()
+    const stalled = assessHealth(quiet.state, signals, 3100, DEFAULT_HEALTH_OPTIONS)
+    expect(stalled.change).toBe('failed')
+    expect(stalled.state.issue).toBe('stalled')
+  })
+
+  it('counts a camera that never delivers a frame as stalled', () => {
+    const first = assessHealth(INITIAL_HEALTH_STATE, WORKING, 1000, DEFAULT_HEALTH_OPTIONS)
+    expect(first.change).toBeNull()
+    const update = assessHealth(first.state, WORKING, 4000, DEFAULT_HEALTH_OPTIONS)
+    expect(update.state).toMatchObject({ level: 'unavailable', issue: 'stalled' })
+  })
+
+  it('keeps a paused camera alive on brightness checks alone', () => {
+    let state = assessHealth(INITIAL_HEALTH_STATE, WORKING, 0, DEFAULT_HEALTH_OPTIONS).state
+    for (let at = 500; at <= 10_000; at += 500) {
+      state = addHealthHeartbeat(state, at)
+      state = assessHealth(state, WORKING, at, DEFAULT_HEALTH_OPTIONS).state
+    }
+    expect(state.level).toBe('ok')
+  })
+
+  it('does not expect frames while the camera is off', () => {
+    const off: HealthSignals = { ...WORKING, expectFrames: false }
+    const first = assessHealth(INITIAL_HEALTH_STATE, off, 0, DEFAULT_HEALTH_OPTIONS)
+    expect(assessHealth(first.state, off, 60_000, DEFAULT_HEALTH_OPTIONS).state.level).toBe('ok')
+  })
+
+  it('degrades when the model keeps returning undecodable boxes', () => {
+    const { state, changes } = run(INITIAL_HEALTH_STATE, 0, 3000, at => ({ malformed: at % 200 === 0 }))
+    expect(changes).toEqual(['degraded'])
+    expect(state.issue).toBe('malformed')
+    expect(describeHealthChange({ state, change: 'degraded' })!.text).toMatch(/do not rely on it/)
+  })
+
+  it('degrades when inference is too slow to warn in time', () => {
+    const { state } = run(INITIAL_HEALTH_STATE, 0, 2000, () => ({ latencyMs: 900 }))
+    expect(state.level).toBe('degraded')
+    expect(state.issue).toBe('slow')
+  })
+
+  it('counts thrown frames and fails once most of them throw', () => {
+    const some = run(INITIAL_HEALTH_STATE, 0, 3000, at => ({ failed: at % 300 === 0, latencyMs: null }))
+    expect(some.state).toMatchObject({ level: 'degraded', issue: 'errors' })
+    const most = run(some.state, 3100, 6000, () => ({ failed: true, latencyMs: null }))
+    expect(most.state).toMatchObject({ level: 'unavailable', issue: 'errors' })
+    expect(most.changes).toEqual(['failed'])
+  })
+
+  it('only reports recovery once it has held', () => {
+    const slow = run(INITIAL_HEALTH_STATE, 0, 2000, () => ({ latencyMs: 900 })).state
+    const brief = run(slow, 2100, 6000)
+    // The slow frames age out of the window first, then recovery must hold for recoverMs.
+    expect(brief.changes).toEqual([])
+    const { state, changes } = run(brief.state, 6100, 10_000)
+    expect(changes).toEqual(['restored'])
+    expect(state.level).toBe('ok')
+  })
+
+  it('recovers silently when not navigating', () => {
+    const failed = assessHealth(INITIAL_HEALTH_STATE, { ...WORKING, fault: 'camera' }, 0, DEFAULT_HEALTH_OPTIONS).state
+    const waiting = assessHealth(failed, { ...WORKING, active: false, expectFrames: false }, 100, DEFAULT_HEALTH_OPTIONS).state
+    const update = assessHealth(waiting, { ...WORKING, active: false, expectFrames: false }, 100 + DEFAULT_HEALTH_OPTIONS.recoverMs, DEFAULT_HEALTH_OPTIONS)
+    expect(update.state.level).toBe('ok')
+    expect(update.change).toBeNull()
+  })
+
+  it('keeps reminding while navigating with detection down', () => {
+    const signals: HealthSignals = { ...WORKING, fault: 'camera' }
+    let state = assessHealth(INITIAL_HEALTH_STATE, signals, 0, DEFAULT_HEALTH_OPTIONS).state
+    const changes: (string | null)[] = []
+    for (let at = 1000; at <= 65_000; at += 1000) {
+      const update = assessHealth(state, signals, at, DEFAULT_HEALTH_OPTIONS)
+      state = update.state
+      if (update.change) changes.push(update.change)
+    }
+    expect(changes).toEqual(['reminder', 'reminder'])
+  })
+})
@@ -0,0 +1,46 @@
+import { DEFAULT_KALMAN_OPTIONS, kalmanFilter } from '../kalmanCore'
+
+const ones = (n: number) => new Array(n).fill(1)
+const ramp = (n: number, start: number, rate: number) => Array.from({ length: n }, (_, i) => start + rate * i)
+
+describe('kalmanFilter', () => {
+  it('is null without samples', () => {
+    expect(kalmanFilter([], [], undefined, DEFAULT_KALMAN_OPTIONS)).toBeNull()
+  })
+
+  it('follows a box growing at a steady rate', () => {
+    const estimate = kalmanFilter(ramp(12, 0.2, 0.02), ones(12), undefined, DEFAULT_KALMAN_OPTIONS)!
+    expect(estimate.size).toBeCloseTo(0.42, 2)
+    expect(estimate.rate).toBeCloseTo(0.02, 2)
+    expect(estimate.covariance[2]).toBeLessThan(DEFAULT_KALMAN_OPTIONS.initialRateVariance / 10)
+  })
+
+  it('projects the size across a dropped frame instead of squeezing it out', () => {
+    // Frame 6 never arrived: the next sample is two intervals after the one before it.
+    const values = [0.2, 0.22, 0.24, 0.26, 0.28, 0.3, 0.34]
+    const steps = [1, 1, 1, 1, 1, 1, 2]
+    const estimate = kalmanFilter(values, steps, undefined, DEFAULT_KALMAN_OPTIONS)!
+    expect(estimate.innovation!).toBeLessThan(0.02)
+    expect(estimate.rate).toBeCloseTo(0.02, 2)
+  })
+
+  it('only advances the clock on zero-weight samples', () => {
+    const values = [0.3, 0.3, 0.3, 0.3, 0.9]
+    const weighted = kalmanFilter(values, ones(5), [1, 1, 1, 1, 0], DEFAULT_KALMAN_OPTIONS)!
+    const held = kalmanFilter(values.slice(0, 4), ones(4), undefined, DEFAULT_KALMAN_OPTIONS)!
+    expect(weighted.size).toBeCloseTo(held.size, 6)
+    expect(weighted.covariance[0]).toBeGreaterThan(held.covariance[0])
+  })
+
+  it('barely moves for a box that flares up for one frame', () => {
+    const estimate = kalmanFilter([0.3, 0.3, 0.3, 0.3, 0.3, 0.3, 0.6], ones(7), undefined, DEFAULT_KALMAN_OPTIONS)!
+    expect(estimate.innovation).toBeCloseTo(0.3, 2)
+    expect(estimate.change!).toBeLessThan(0.05)
+  })
+
+  it('is pulled over by a jump that persists', () => {
+    const values = [0.3, 0.3, 0.3, 0.3, 0.3, 0.3, 0.6, 0.6, 0.6, 0.6, 0.6]
+    const estimate = kalmanFilter(values, ones(values.length), undefined, DEFAULT_KALMAN_OPTIONS)!
+    expect(estimate.size).toBeGreaterThan(0.5)
+  })
+})
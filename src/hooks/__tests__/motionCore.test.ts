@@ -0,0 +1,70 @@
+import {
+  createMotionTimeline,
+  DEFAULT_MOTION_OPTIONS,
+  frameWeight,
+  INITIAL_MOTION_STATE,
+  MotionSample,
+  motionContext,
+  NO_MOTION,
+  updateMotionState,
+  walkingSpeed,
+} from '../motionCore'
+
+// Samples every 40 ms with a heel strike spike at the given step interval, turning at the given rate.
+function walk(durationMs: number, stepMs: number | null, rotation = 0, start = 0): MotionSample[] {
+  const samples: MotionSample[] = []
+  for (let t = start; t < start + durationMs; t += 40) {
+    const spike = stepMs != null && (t - start) % stepMs < 40
+    samples.push({ t, rotation: [0, rotation, 0], acceleration: [0, spike ? 3 : 0.2, 0] })
+  }
+  return samples
+}
+
+describe('walking speed', () => {
+  it('estimates speed from the step cadence', () => {
+    let state = INITIAL_MOTION_STATE
+    for (const s of walk(4000, 520)) state = updateMotionState(state, s)
+    // 0.7 m per step at a step every 520 ms is about 1.35 m/s.
+    expect(walkingSpeed(state, 4000)).toBeCloseTo(1.35, 1)
+    expect(motionContext(state, 4000, DEFAULT_MOTION_OPTIONS).stationary).toBe(false)
+  })
+
+  it('drops to zero when the steps stop', () => {
+    let state = INITIAL_MOTION_STATE
+    for (const s of [...walk(2000, 520), ...walk(3000, null, 0, 2000)]) state = updateMotionState(state, s)
+    expect(walkingSpeed(state, 5000)).toBe(0)
+    expect(motionContext(state, 5000, DEFAULT_MOTION_OPTIONS).stationary).toBe(true)
+  })
+
+  it('counts the first step as moving', () => {
+    let state = INITIAL_MOTION_STATE
+    for (const s of [...walk(2000, null), ...walk(200, 1000, 0, 2000)]) state = updateMotionState(state, s)
+    expect(motionContext(state, 2200, DEFAULT_MOTION_OPTIONS).stationary).toBe(false)
+  })
+})
+
+describe('rotation', () => {
+  it('weights frames by how fast the phone turns', () => {
+    expect(frameWeight(10, DEFAULT_MOTION_OPTIONS)).toBe(1)
+    expect(frameWeight(75, DEFAULT_MOTION_OPTIONS)).toBeCloseTo(0.5)
+    expect(frameWeight(200, DEFAULT_MOTION_OPTIONS)).toBe(0)
+  })
+
+  it('keeps a head turn going for a moment after it peaks', () => {
+    let state = INITIAL_MOTION_STATE
+    for (const s of [...walk(400, null, 200), ...walk(80, null, 0, 400)]) state = updateMotionState(state, s)
+    expect(motionContext(state, 480, DEFAULT_MOTION_OPTIONS).weight).toBeLessThan(1)
+  })
+})
+
+describe('motion timeline', () => {
+  it('replays a trace up to each frame time', () => {
+    const at = createMotionTimeline([...walk(1000, null, 0), ...walk(1000, null, 300, 1000)], DEFAULT_MOTION_OPTIONS)
+    expect(at(500).weight).toBe(1)
+    expect(at(1500).weight).toBe(0)
+  })
+
+  it('reports nothing without samples', () => {
+    expect(createMotionTimeline([], DEFAULT_MOTION_OPTIONS)(1000)).toEqual(NO_MOTION)
+  })
+})
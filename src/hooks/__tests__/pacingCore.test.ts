@@ -0,0 +1,103 @@
+import {
+  EMPTY_PIPELINE_METRICS,
+  INITIAL_PACER_STATE,
+  PacerState,
+  frameIntervalMs,
+  nextPacerState,
+  shouldProcessFrame,
+  targetInferenceFps,
+  thermalFactor,
+  updatePipelineMetrics,
+} from '../pacingCore'
+
+const fullBattery = { batteryLevel: 0.9, lowPowerMode: false, charging: false }
+const options = { targetFps: 10, minFps: 3 }
+
+describe('targetInferenceFps', () => {
+  it('runs at the target on a healthy device', () => {
+    expect(targetInferenceFps(options, fullBattery)).toBe(10)
+  })
+
+  it('halves the rate on low battery unless charging', () => {
+    expect(targetInferenceFps(options, { ...fullBattery, batteryLevel: 0.15 })).toBe(5)
+    expect(targetInferenceFps(options, { ...fullBattery, lowPowerMode: true })).toBe(5)
+    expect(targetInferenceFps(options, { batteryLevel: 0.15, lowPowerMode: false, charging: true })).toBe(10)
+    // Unknown battery level is reported as -1.
+    expect(targetInferenceFps(options, { ...fullBattery, batteryLevel: -1 })).toBe(10)
+  })
+
+  it('never drops below the minimum', () => {
+    expect(targetInferenceFps(options, { ...fullBattery, lowPowerMode: true }, 0.5)).toBe(3)
+  })
+
+  it('respects the cooldown as a floor on the interval', () => {
+    expect(frameIntervalMs(10, 150)).toBe(150)
+    expect(frameIntervalMs(5, 150)).toBe(200)
+  })
+})
+
+describe('frame pacing', () => {
+  function run(frameTimes: number[], workMs: number, intervalMs: number) {
+    let state: PacerState = INITIAL_PACER_STATE
+    const processed: number[] = []
+    for (const t of frameTimes) {
+      const go = shouldProcessFrame(state, t, intervalMs)
+      if (go) processed.push(t)
+      state = nextPacerState(state, go, t, go ? workMs : 0)
+    }
+    return { processed, state }
+  }
+
+  const camera30 = Array.from({ length: 30 }, (_, i) => 1000 + Math.round((i * 1000) / 30))
+
+  it('processes frames at the target rate and skips the rest', () => {
+    const { processed } = run(camera30, 20, 100)
+    expect(processed).toHaveLength(10)
+    for (let i = 1; i < processed.length; i++) expect(processed[i] - processed[i - 1]).toBeGreaterThanOrEqual(100)
+  })
+
+  it('skips more frames when processing falls behind', () => {
+    const { processed } = run(camera30, 250, 100)
+    expect(processed.length).toBeLessThanOrEqual(4)
+    for (let i = 1; i < processed.length; i++) expect(processed[i] - processed[i - 1]).toBeGreaterThanOrEqual(300)
+  })
+
+  it('counts skipped frames until the next processed one', () => {
+    let state = nextPacerState(INITIAL_PACER_STATE, true, 1000, 30)
+    state = nextPacerState(state, false, 1033, 0)
+    state = nextPacerState(state, false, 1066, 0)
+    expect(state.skipped).toBe(2)
+    expect(nextPacerState(state, true, 1100, 30).skipped).toBe(0)
+  })
+})
+
+describe('pipeline metrics', () => {
+  const timing = (capturedAt: number, frames: number, inferenceMs: number) => ({
+    capturedAt,
+    frames,
+    resizeMs: 5,
+    inferenceMs,
+    postprocessMs: 3,
+    finishedAt: capturedAt + 5 + inferenceMs + 3 + 2,
+  })
+
+  it('measures camera and inference rates and per-stage latency', () => {
+    let metrics = EMPTY_PIPELINE_METRICS
+    for (let i = 0; i < 50; i++) metrics = updatePipelineMetrics(metrics, timing(i * 100, 3, 40))
+    expect(metrics.inferenceFps).toBeCloseTo(10)
+    expect(metrics.cameraFps).toBeCloseTo(30)
+    expect(metrics.stages.inference).toBeCloseTo(40)
+    expect(metrics.stages.total).toBeCloseTo(50)
+    expect(metrics.skippedFrames).toBe(100)
+  })
+
+  it('backs off when inference slows down from its baseline', () => {
+    let metrics = EMPTY_PIPELINE_METRICS
+    for (let i = 0; i < 30; i++) metrics = updatePipelineMetrics(metrics, timing(i * 100, 3, 40))
+    expect(thermalFactor(metrics)).toBe(1)
+    for (let i = 30; i < 60; i++) metrics = updatePipelineMetrics(metrics, timing(i * 100, 3, 70))
+    expect(thermalFactor(metrics)).toBe(0.75)
+    for (let i = 60; i < 90; i++) metrics = updatePipelineMetrics(metrics, timing(i * 100, 3, 100))
+    expect(thermalFactor(metrics)).toBe(0.5)
+  })
+})
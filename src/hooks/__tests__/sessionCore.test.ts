@@ -0,0 +1,107 @@
+import {
+  DEFAULT_SESSION_OPTIONS,
+  describeSessionChange,
+  describeSummary,
+  INITIAL_SESSION_STATE,
+  SessionSignals,
+  SessionState,
+  tickSession,
+  updateSession,
+} from '../sessionCore'
+
+const HELD: SessionSignals = { facing: 0, brightness: 0.5, background: false, lastFrameAt: null }
+
+function started(at = 0): SessionState {
+  return updateSession(INITIAL_SESSION_STATE, { type: 'start' }, at).state
+}
+
+// Ticks every 250 ms from `from` to `to`, with frames arriving throughout.
+function run(state: SessionState, signals: Partial<SessionSignals>, from: number, to: number) {
+  let changes: string[] = []
+  for (let now = from; now <= to; now += 250) {
+    const update = tickSession(state, { ...HELD, lastFrameAt: now, ...signals }, now, DEFAULT_SESSION_OPTIONS)
+    state = update.state
+    if (update.change) changes = [...changes, update.change]
+  }
+  return { state, changes }
+}
+
+describe('session lifecycle', () => {
+  it('summarises a stopped session', () => {
+    let state = started(0)
+    for (let i = 0; i < 100; i++) state = updateSession(state, { type: 'frame' }, i * 100).state
+    state = updateSession(state, { type: 'alert' }, 5000).state
+    const update = updateSession(state, { type: 'stop' }, 10_000)
+    expect(update.change).toBe('stopped')
+    expect(update.state.status).toBe('idle')
+    expect(update.summary).toEqual({ startedAt: 0, endedAt: 10_000, activeMs: 10_000, alerts: 1, averageFps: 10 })
+  })
+
+  it('ignores frames and alerts while idle', () => {
+    expect(updateSession(INITIAL_SESSION_STATE, { type: 'frame' }, 0).state).toBe(INITIAL_SESSION_STATE)
+    expect(updateSession(INITIAL_SESSION_STATE, { type: 'stop' }, 0).change).toBeNull()
+  })
+
+  it('pauses once the phone has been face down for a while', () => {
+    const brief = run(started(), { facing: -1 }, 0, 1000)
+    expect(brief.state.status).toBe('running')
+    const { state, changes } = run(brief.state, { facing: -1 }, 1250, 2000)
+    expect(changes).toEqual(['paused'])
+    expect(state.pauseReason).toBe('face-down')
+  })
+
+  it('does not count paused time as running time', () => {
+    const paused = run(started(), { facing: -1 }, 0, 2000).state
+    const resumed = run(paused, {}, 2250, 10_000).state
+    const summary = updateSession(resumed, { type: 'stop' }, 10_000).summary!
+    // Paused at 1.5 s, raised at 2.25 s and resumed half a second later.
+    expect(summary.activeMs).toBe(1500 + 10_000 - 2750)
+  })
+
+  it('stays paused when turned face up on a table and resumes once raised', () => {
+    const paused = run(started(), { facing: -1 }, 0, 2000).state
+    const flat = run(paused, { facing: 1 }, 2250, 5000)
+    expect(flat.changes).toEqual([])
+    const raised = run(flat.state, { facing: 0.2 }, 5250, 6000)
+    expect(raised.changes).toEqual(['resumed'])
+  })
+
+  it('pauses when the camera is covered', () => {
+    const { state } = run(started(), { brightness: 0.01 }, 0, 2000)
+    expect(state.status).toBe('paused')
+    expect(state.pauseReason).toBe('covered')
+  })
+
+  it('leaves the camera running when auto-pause is off', () => {
+    const update = tickSession(started(), { ...HELD, facing: -1, lastFrameAt: 5000 }, 5000, {
+      ...DEFAULT_SESSION_OPTIONS,
+      autoPause: false,
+    })
+    expect(update.state.status).toBe('running')
+  })
+
+  it('pauses silently and at once in the background', () => {
+    const update = tickSession(started(), { ...HELD, background: true }, 100, DEFAULT_SESSION_OPTIONS)
+    expect(update.change).toBe('paused')
+    expect(update.state.pauseReason).toBe('background')
+    expect(describeSessionChange(update)).toBeNull()
+  })
+
+  it('warns when frames stop arriving and again when they come back', () => {
+    const update = tickSession(started(), { ...HELD, lastFrameAt: 500 }, 3500, DEFAULT_SESSION_OPTIONS)
+    expect(update.change).toBe('fault')
+    expect(update.state.fault).toBe('stalled')
+    const back = updateSession(update.state, { type: 'frame' }, 3600)
+    expect(back.change).toBe('recovered')
+    expect(back.state.fault).toBeNull()
+  })
+})
+
+describe('describeSummary', () => {
+  it('speaks duration, alerts and frame rate', () => {
+    expect(describeSummary({ startedAt: 0, endedAt: 0, activeMs: 12 * 60_000, alerts: 5, averageFps: 8.2 }))
+      .toBe('Navigation stopped after 12 minutes, 5 alerts, 8 frames per second')
+    expect(describeSummary({ startedAt: 0, endedAt: 0, activeMs: 1000, alerts: 1, averageFps: null }))
+      .toBe('Navigation stopped after 1 second, 1 alert')
+  })
+})
@@ -0,0 +1,125 @@
+import { DetectionOptions } from '../detectionCore'
+import { Box, createTrackerState, iou, primaryTrack, Track, TrackerOptions, TrackerState, updateTracks } from '../trackerCore'
+
+const detection: DetectionOptions = {
+  estimator: 'heuristic',
+  frames: 12,
+  threshold: 0.4,
+  hysteresis: 0.12,
+  minSlope: 0.008,
+  suddenDelta: 0.15,
+  smoothingWindow: 6,
+  allowSizeOnly: false,
+  triggerDistance: 1.5,
+  distanceHysteresis: 0.4,
+  minClosingSpeed: 0.2,
+  cautionTimeToContact: 4,
+  timeToContact: 2.5,
+  imminentTimeToContact: 1.2,
+  ttcHysteresis: 0.25,
+  minTtcConfidence: 0.5,
+}
+
+const options: TrackerOptions = { iouThreshold: 0.3, maxMisses: 2, detection, camera: null }
+
+const seen = (box: Box, extra: { label?: string; urgent?: boolean } = {}) =>
+  ({ height: box[2] - box[0], confidence: 0.9, box, centerX: (box[1] + box[3]) / 2, ...extra })
+
+describe('iou', () => {
+  it('is 1 for the same box, 0 apart and a third for boxes overlapping by half', () => {
+    expect(iou([0, 0, 1, 1], [0, 0, 1, 1])).toBe(1)
+    expect(iou([0, 0, 0.5, 0.5], [0.5, 0.5, 1, 1])).toBe(0)
+    expect(iou([0, 0, 1, 0.5], [0, 0.25, 1, 0.75])).toBeCloseTo(1 / 3)
+  })
+})
+
+describe('updateTracks', () => {
+  it('keeps the ids of two objects crossing in front of the camera', () => {
+    let state: TrackerState = createTrackerState()
+    const ids: Record<'left' | 'right', number[]> = { left: [], right: [] }
+    for (let i = 0; i <= 15; i++) {
+      const x = 0.1 + i * 0.04
+      // A short box walking right and a taller one walking left, passed in the opposite order each frame.
+      const left: Box = [0.2, x, 0.6, x + 0.2]
+      const right: Box = [0.4, 0.8 - x, 0.9, 1 - x]
+      const dets = i % 2 ? [seen(left), seen(right)] : [seen(right), seen(left)]
+      state = updateTracks(state, dets, i * 100, options).state
+      const idOf = (box: Box) => state.tracks.find(t => t.box === box || iou(t.box, box) === 1)!.id
+      ids.left.push(idOf(left))
+      ids.right.push(idOf(right))
+    }
+    expect(new Set(ids.left).size).toBe(1)
+    expect(new Set(ids.right).size).toBe(1)
+    expect(ids.left[0]).not.toBe(ids.right[0])
+    expect(state.tracks).toHaveLength(2)
+  })
+
+  it('drops a track only after maxMisses frames without it', () => {
+    let update = updateTracks(createTrackerState(), [seen([0.2, 0.4, 0.6, 0.6])], 0, options)
+    const id = update.born[0]
+    for (let i = 1; i <= options.maxMisses; i++) {
+      update = updateTracks(update.state, [], i * 100, options)
+      expect(update.state.tracks.map(t => t.id)).toEqual([id])
+      expect(update.state.tracks[0].misses).toBe(i)
+    }
+    update = updateTracks(update.state, [], 1000, options)
+    expect(update.died).toEqual([id])
+    expect(update.state.tracks).toEqual([])
+  })
+
+  it('resets the miss count when the object comes back in time', () => {
+    const box: Box = [0.2, 0.4, 0.6, 0.6]
+    let state = updateTracks(createTrackerState(), [seen(box)], 0, options).state
+    state = updateTracks(state, [], 100, options).state
+    state = updateTracks(state, [seen(box)], 200, options).state
+    expect(state.tracks).toHaveLength(1)
+    expect(state.tracks[0]).toMatchObject({ id: 1, misses: 0, hits: 2 })
+  })
+
+  it('only moves the box for frames taken mid-turn', () => {
+    let state = updateTracks(createTrackerState(), [seen([0.2, 0.4, 0.6, 0.6])], 0, options).state
+    const { heights } = state.tracks[0]
+    const moved: Box = [0.2, 0.42, 0.7, 0.62]
+    state = updateTracks(state, [seen(moved)], 100, options, { weight: 0, walkingSpeed: null, stationary: false }).state
+    expect(state.tracks[0].box).toEqual(moved)
+    expect(state.tracks[0].heights).toEqual(heights)
+    expect(state.tracks[0].hits).toBe(2)
+  })
+
+  it('reports each track once when it is first detected and keeps it detected inside the hysteresis band', () => {
+    let state = createTrackerState()
+    const changed: number[] = []
+    // A person right ahead (size alone is enough for urgent classes), then dipping just under the threshold.
+    const heights = [...new Array(8).fill(0.6), 0.35, 0.35]
+    heights.forEach((h, i) => {
+      const update = updateTracks(state, [seen([0.5 - h / 2, 0.4, 0.5 + h / 2, 0.6], { label: 'person', urgent: true })], i * 100, options)
+      state = update.state
+      changed.push(...update.changed)
+    })
+    expect(changed).toEqual([1])
+    expect(state.tracks[0].detected).toBe(true)
+  })
+})
+
+describe('primaryTrack', () => {
+  const base = updateTracks(createTrackerState(), [seen([0.2, 0.4, 0.6, 0.6])], 0, options).state.tracks[0]
+  const track = (id: number, overrides: Partial<Track>): Track => ({ ...base, id, detected: true, ...overrides })
+
+  it('prefers a higher alert level over a sooner time to contact', () => {
+    const warning = track(1, { alertLevel: 'warning', distance: 4, timeToContact: 3 })
+    const caution = track(2, { alertLevel: 'caution', distance: 1, timeToContact: 0.8 })
+    expect(primaryTrack([caution, warning])!.id).toBe(1)
+  })
+
+  it('prefers urgent classes, then the sooner contact, among equal levels', () => {
+    const chair = track(1, { alertLevel: 'warning', distance: 1, timeToContact: 1 })
+    const person = track(2, { alertLevel: 'warning', distance: 3, timeToContact: 2, urgent: true })
+    const nearer = track(3, { alertLevel: 'warning', distance: 3, timeToContact: 1.5, urgent: true })
+    expect(primaryTrack([chair, person])!.id).toBe(2)
+    expect(primaryTrack([chair, person, nearer])!.id).toBe(3)
+  })
+
+  it('ignores tracks that are not reported', () => {
+    expect(primaryTrack([track(1, { detected: false, alertLevel: 'imminent' })])).toBeNull()
+  })
+})
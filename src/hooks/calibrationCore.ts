@@ -0,0 +1,126 @@
+import { CONFIG_SCHEMA, ObstacleDetectionConfig } from '../utils/configStore'
+import { groundDistanceAtRow } from '../utils/distance'
+
+// One reading taken during setup, about ten a second.
+export type CalibrationSample = {
+  t: number
+  // Vertical component of the screen normal, as for session auto-pause; null without motion data.
+  facing: number | null
+  // Gyroscope rotation speed (deg/s).
+  rotationSpeed: number
+  // From the step cadence, 0 when standing, null without motion data.
+  walkingSpeed: number | null
+  // Row (0 top, 1 bottom) where the floor ahead meets the wall, while the floor analysis sees one.
+  wallRow: number | null
+}
+
+export type Calibration = {
+  // How far below the horizon the camera points as the phone is carried.
+  tiltDeg: number
+  heightM: number | null
+  walkingSpeed: number | null
+  // Rotation speed the phone sways at during a normal straight walk (deg/s).
+  swayDegS: number | null
+}
+
+// Enough readings for a median over the hold, and for a speed and sway over the walk.
+const MIN_HOLD_SAMPLES = 10
+const MIN_WALK_SAMPLES = 10
+// Below this the user has not started walking yet, or has stopped at the wall.
+const WALKING_SPEED = 0.3
+// The wall has to be followed for this long for its approach to say anything about camera height.
+const MIN_WALL_SAMPLES = 8
+const MIN_WALL_SPAN_MS = 1500
+// Heights outside this range mean the wall was misread.
+const MIN_HEIGHT_M = 0.5
+const MAX_HEIGHT_M = 2
+// Gait sway percentile, and how far under the steady-rotation limit (a quarter of the maximum) it should sit.
+const SWAY_PERCENTILE = 0.9
+const SWAY_MARGIN = 4
+// Things closing slower than this share of the user's own pace are not approaching.
+const CLOSING_SHARE = 0.25
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+}
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step
+
+// Camera tilt from how the phone was held still: screen tipped back toward the sky points the camera down.
+export function holdingTilt(facings: (number | null)[]): number | null {
+  const known = facings.filter((f): f is number => f != null)
+  if (known.length < MIN_HOLD_SAMPLES) return null
+  const facing = Math.max(-1, Math.min(1, percentile(known, 0.5)))
+  return Math.round((Math.asin(facing) * 180) / Math.PI)
+}
+
+// Least-squares slope of y against x.
+function slope(xs: number[], ys: number[]): number {
+  const n = xs.length
+  const mx = xs.reduce((a, b) => a + b, 0) / n
+  const my = ys.reduce((a, b) => a + b, 0) / n
+  let sxy = 0
+  let sxx = 0
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my)
+    sxx += (xs[i] - mx) ** 2
+  }
+  return sxx > 0 ? sxy / sxx : 0
+}
+
+// Walking speed and sway come from the IMU. Camera height comes from the wall: at unit height the floor row it
+// stands on maps to a distance that shrinks at walking speed / height, so the rate it shrinks at gives the height.
+export function calibrateWalk(
+  samples: CalibrationSample[],
+  tiltDeg: number,
+  verticalFovDeg: number
+): Omit<Calibration, 'tiltDeg'> {
+  const walking = samples.filter(s => s.walkingSpeed != null && s.walkingSpeed >= WALKING_SPEED)
+  if (walking.length < MIN_WALK_SAMPLES) return { heightM: null, walkingSpeed: null, swayDegS: null }
+
+  const walkingSpeed = percentile(walking.map(s => s.walkingSpeed as number), 0.5)
+  const swayDegS = percentile(walking.map(s => s.rotationSpeed), SWAY_PERCENTILE)
+
+  const unit = { verticalFovDeg, tiltDeg, heightM: 1 }
+  const wall = walking
+    .map(s => ({ t: s.t, d: s.wallRow != null ? groundDistanceAtRow(s.wallRow, unit) : null }))
+    .filter((s): s is { t: number; d: number } => s.d != null)
+  let heightM: number | null = null
+  if (wall.length >= MIN_WALL_SAMPLES && wall[wall.length - 1].t - wall[0].t >= MIN_WALL_SPAN_MS) {
+    const shrink = -slope(wall.map(s => s.t / 1000), wall.map(s => s.d))
+    const height = shrink > 0 ? walkingSpeed / shrink : NaN
+    if (height >= MIN_HEIGHT_M && height <= MAX_HEIGHT_M) heightM = height
+  }
+
+  return { heightM, walkingSpeed, swayDegS }
+}
+
+// The calibration layer of the config: only what was actually measured.
+export function calibrationConfig(calibration: Calibration): Partial<ObstacleDetectionConfig> {
+  const values: Partial<ObstacleDetectionConfig> = { CAMERA_TILT_DEG: calibration.tiltDeg }
+  if (calibration.heightM != null) values.CAMERA_HEIGHT_M = roundTo(calibration.heightM, 0.05)
+  if (calibration.walkingSpeed != null) {
+    values.OBSTACLE_MIN_CLOSING_SPEED = Math.max(0.1, roundTo(calibration.walkingSpeed * CLOSING_SHARE, 0.05))
+  }
+  if (calibration.swayDegS != null) {
+    // Never stricter than the default, so a very steady walk does not start discarding ordinary turns.
+    values.OBSTACLE_MAX_ROTATION_DEG_S = Math.max(
+      CONFIG_SCHEMA.OBSTACLE_MAX_ROTATION_DEG_S.default,
+      roundTo(calibration.swayDegS * SWAY_MARGIN, 10)
+    )
+  }
+  return values
+}
+
+// "Camera tilted 15 degrees down, held 1.2 meters high, walking 1.1 meters per second".
+export function describeCalibration(calibration: Calibration): string {
+  const parts = [
+    calibration.tiltDeg >= 0
+      ? `Camera tilted ${calibration.tiltDeg} degrees down`
+      : `Camera tilted ${-calibration.tiltDeg} degrees up`,
+  ]
+  if (calibration.heightM != null) parts.push(`held ${calibration.heightM.toFixed(1)} meters high`)
+  if (calibration.walkingSpeed != null) parts.push(`walking ${calibration.walkingSpeed.toFixed(1)} meters per second`)
+  return parts.join(', ')
+}
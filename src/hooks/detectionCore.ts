@@ -1,4 +1,16 @@
+import { Covariance, DEFAULT_KALMAN_OPTIONS, kalmanFilter } from './kalmanCore'
+
+export type AlertLevel = 'none' | 'caution' | 'warning' | 'imminent'
+
+export const ALERT_LEVELS: AlertLevel[] = ['none', 'caution', 'warning', 'imminent']
+
+export type EstimatorKind = 'heuristic' | 'kalman'
+
+export const ESTIMATOR_KINDS: EstimatorKind[] = ['heuristic', 'kalman']
+
 export type DetectionOptions = {
+  // How box heights are turned into a size and growth rate.
+  estimator: EstimatorKind
   frames: number
   threshold: number
   hysteresis: number
@@ -6,20 +18,251 @@ export type DetectionOptions = {
   suddenDelta: number
   smoothingWindow: number
   allowSizeOnly: boolean
+  // Distance triggers, used when the track has metric distance samples.
+  triggerDistance: number
+  distanceHysteresis: number
+  minClosingSpeed: number
+  // Time to contact (seconds) that raises each alert level; timeToContact is the warning level.
+  cautionTimeToContact: number
+  timeToContact: number
+  imminentTimeToContact: number
+  // A level holds until time to contact exceeds its threshold by this fraction.
+  ttcHysteresis: number
+  // Time-to-contact estimates less certain than this are ignored.
+  minTtcConfidence: number
+}
+
+export type DetectionSeries = {
+  // When each height sample was taken (ms).
+  times: number[]
+  // Metric distance samples (meters) and when they were taken; empty without a camera model.
+  distances: number[]
+  distanceTimes: number[]
+  // 0..1 per height sample; frames taken while the phone turned count for less. All 1 without IMU data.
+  weights?: number[]
+  // The user's own speed from the IMU (m/s), and whether they are standing still.
+  walkingSpeed?: number | null
+  stationary?: boolean
+  // People and vehicles can move at any moment, so they are never dismissed as furniture.
+  urgent?: boolean
+}
+
+// What an estimator makes of the box heights of one obstacle.
+export type SizeEstimate = {
+  // Box height (fraction of the frame) and how much it grows per frame.
+  size: number
+  rate: number
+  // How much the latest frame added to the size, for the sudden-jump rule; null with a single sample.
+  jump: number | null
+  // Null when the estimator does not track its own uncertainty.
+  covariance: Covariance | null
+}
+
+// Heights, sample times (ms) and weights are already cut to the analysis window.
+export type SizeEstimator = (
+  heights: number[],
+  times: number[] | null,
+  weights: number[] | undefined,
+  options: DetectionOptions
+) => SizeEstimate
+
+export type TimeToContact = {
+  // Infinity when not approaching.
+  seconds: number
+  // 0..1, from how well the samples fit a steady approach.
+  confidence: number
+  source: 'scale' | 'distance'
 }
 
 export type DetectionResult = {
   newDetected: boolean
+  alertLevel: AlertLevel
   smoothed: number
   slope: number
+  // Uncertainty of smoothed and slope, from estimators that track it.
+  covariance: Covariance | null
   avgConfidence: number | null
+  // Smoothed distance in meters, or null without distance samples.
+  distance: number | null
+  // Meters per second, positive while approaching.
+  closingSpeed: number | null
+  // Closing speed minus the user's walking speed: how fast the object itself is coming closer.
+  objectSpeed: number | null
+  // Best of the scale and distance estimates, or null with too few samples.
+  timeToContact: TimeToContact | null
+}
+
+// Fewer samples than this cannot tell a steady approach from noise.
+const MIN_TTC_SAMPLES = 3
+// Standard deviations by which a Kalman estimate must clear the hysteresis band to alert without an approach.
+const INSTANT_CLOSE_SIGMAS = 2
+
+function average(arr: number[]) {
+  if (!arr || arr.length === 0) return 0
+  return arr.reduce((s, v) => s + v, 0) / arr.length
+}
+
+// A window whose samples all have zero weight keeps the previous value.
+function movingAverageSeries(values: number[], window: number, weights?: number[]) {
+  const out: number[] = []
+  for (let i = 0; i < values.length; i++) {
+    const start = Math.max(0, i - (window - 1))
+    let s = 0
+    let total = 0
+    for (let j = start; j <= i; j++) {
+      const w = weights ? weights[j] ?? 1 : 1
+      s += values[j] * w
+      total += w
+    }
+    out.push(total > 0 ? s / total : out[i - 1] ?? values[i])
+  }
+  return out
+}
+
+// Weighted least squares line through the values; the standard error says how far the slope can be trusted.
+function regression(values: number[], xs?: number[], weights?: number[]) {
+  const n = values.length
+  if (n <= 1) return { slope: 0, intercept: values[0] ?? 0, meanX: n === 1 ? (xs ? xs[0] : 0) : 0, standardError: Infinity }
+  const x = (i: number) => (xs ? xs[i] : i)
+  const w = (i: number) => (weights ? weights[i] ?? 1 : 1)
+  let total = 0
+  let meanX = 0
+  let meanY = 0
+  for (let i = 0; i < n; i++) {
+    total += w(i)
+    meanX += w(i) * x(i)
+    meanY += w(i) * values[i]
+  }
+  if (total === 0) return { slope: 0, intercept: average(values), meanX: 0, standardError: Infinity }
+  meanX /= total
+  meanY /= total
+  let num = 0
+  let denom = 0
+  for (let i = 0; i < n; i++) {
+    const dx = x(i) - meanX
+    num += w(i) * dx * (values[i] - meanY)
+    denom += w(i) * dx * dx
+  }
+  if (denom === 0) return { slope: 0, intercept: meanY, meanX, standardError: Infinity }
+  const slope = num / denom
+  const intercept = meanY - slope * meanX
+  if (n <= 2) return { slope, intercept, meanX, standardError: Infinity }
+  let residuals = 0
+  for (let i = 0; i < n; i++) residuals += w(i) * (values[i] - (intercept + slope * x(i))) ** 2
+  // Scaled so that unit weights give the ordinary standard error.
+  return { slope, intercept, meanX, standardError: Math.sqrt((residuals / total) * (n / (n - 2)) / ((denom / total) * n)) }
+}
+
+function ttcConfidence(rate: number, standardError: number, samples: number): number {
+  if (samples < MIN_TTC_SAMPLES || !(rate > 0)) return 0
+  if (standardError === 0) return 1
+  return Math.max(0, Math.min(1, 1 - standardError / rate))
+}
+
+// Box height grows as 1 / distance, so d(ln h)/dt is the inverse time to contact, no metric distance needed.
+export function scaleTimeToContact(heights: number[], times: number[], weights?: number[]): TimeToContact | null {
+  const logs: number[] = []
+  const seconds: number[] = []
+  const used: number[] = []
+  for (let i = 0; i < heights.length && i < times.length; i++) {
+    const w = weights ? weights[i] ?? 1 : 1
+    if (!(heights[i] > 0) || !(w > 0)) continue
+    logs.push(Math.log(heights[i]))
+    seconds.push(times[i] / 1000)
+    used.push(w)
+  }
+  if (logs.length < MIN_TTC_SAMPLES) return null
+  const { slope: rate, meanX, standardError } = regression(logs, seconds, weights ? used : undefined)
+  // The fitted rate belongs to the middle of the window; the latest sample is that much closer.
+  const elapsed = seconds[seconds.length - 1] - meanX
+  return {
+    seconds: rate > 0 ? Math.max(0, 1 / rate - elapsed) : Infinity,
+    confidence: ttcConfidence(rate, standardError, logs.length),
+    source: 'scale',
+  }
+}
+
+// Distance over closing speed, both from a line fitted to the samples over time.
+export function distanceTimeToContact(distances: number[], times: number[]): TimeToContact | null {
+  if (distances.length < MIN_TTC_SAMPLES) return null
+  const fit = regression(distances, times.map(t => t / 1000))
+  const speed = -fit.slope
+  const latest = distances[distances.length - 1]
+  return {
+    seconds: speed > 0 ? latest / speed : Infinity,
+    confidence: ttcConfidence(speed, fit.standardError, distances.length),
+    source: 'distance',
+  }
+}
+
+// Moving average of the heights and a regression slope through it, one sample per frame regardless of gaps.
+export const heuristicEstimator: SizeEstimator = (heights, _times, weights, { frames, smoothingWindow }) => {
+  const smoothSeries = movingAverageSeries(heights, smoothingWindow, weights)
+  const size = smoothSeries[smoothSeries.length - 1] ?? 0
+  const regressionWindow = Math.max(2, Math.min(smoothSeries.length, frames))
+  const regressionValues = smoothSeries.slice(smoothSeries.length - regressionWindow)
+  const rate = regression(regressionValues, undefined, weights?.slice(weights.length - regressionWindow)).slope
+  const jump = smoothSeries.length >= 2 ? size - smoothSeries[smoothSeries.length - 2] : null
+  return { size, rate, jump, covariance: null }
+}
+
+// Gaps between samples in units of the window's typical frame interval; a dropped frame shows up as a step of 2.
+function frameSteps(times: number[] | null, count: number): number[] {
+  if (!times || times.length < 2) return new Array(count).fill(1)
+  const gaps = times.slice(1).map((t, i) => t - times[i]).filter(gap => gap > 0)
+  if (gaps.length === 0) return new Array(count).fill(1)
+  const interval = [...gaps].sort((a, b) => a - b)[Math.floor(gaps.length / 2)]
+  return times.map((t, i) => (i === 0 ? 1 : Math.max(0, t - times[i - 1]) / interval))
+}
+
+// Constant-velocity Kalman filter: the rate is per typical frame interval, so the heuristic's thresholds still apply.
+export const kalmanEstimator: SizeEstimator = (heights, times, weights) => {
+  const estimate = kalmanFilter(heights, frameSteps(times, heights.length), weights, DEFAULT_KALMAN_OPTIONS)
+  if (!estimate) return { size: 0, rate: 0, jump: null, covariance: null }
+  return { size: estimate.size, rate: estimate.rate, jump: estimate.change, covariance: estimate.covariance }
+}
+
+export const SIZE_ESTIMATORS: Record<EstimatorKind, SizeEstimator> = {
+  heuristic: heuristicEstimator,
+  kalman: kalmanEstimator,
+}
+
+export function alertRank(level: AlertLevel): number {
+  return ALERT_LEVELS.indexOf(level)
+}
+
+// Each level is entered at its own threshold and held until time to contact clears it by ttcHysteresis.
+export function nextAlertLevel(
+  previous: AlertLevel,
+  cues: { detected: boolean; veryClose: boolean; timeToContact: number | null },
+  options: Pick<DetectionOptions, 'cautionTimeToContact' | 'timeToContact' | 'imminentTimeToContact' | 'ttcHysteresis'>
+): AlertLevel {
+  const ttc = cues.timeToContact
+  const thresholds: Record<Exclude<AlertLevel, 'none'>, number> = {
+    caution: options.cautionTimeToContact,
+    warning: options.timeToContact,
+    imminent: options.imminentTimeToContact,
+  }
+  const holds = (level: Exclude<AlertLevel, 'none'>) => {
+    if (ttc == null) return false
+    const held = alertRank(previous) >= alertRank(level)
+    return ttc <= thresholds[level] * (held ? 1 + options.ttcHysteresis : 1)
+  }
+
+  if (holds('imminent')) return 'imminent'
+  // Standing right next to something is a warning even when nothing is moving.
+  if (holds('warning') || cues.veryClose) return 'warning'
+  if (holds('caution') || cues.detected) return 'caution'
+  return 'none'
 }
 
 export function analyzeDetection(
   heights: number[],
   confidences: number[],
   previousDetected: boolean,
-  options: DetectionOptions
+  options: DetectionOptions,
+  series: DetectionSeries | null = null,
+  previousLevel: AlertLevel = previousDetected ? 'caution' : 'none'
 ): DetectionResult {
   const {
     frames,
@@ -29,78 +272,110 @@ export function analyzeDetection(
     suddenDelta,
     smoothingWindow,
     allowSizeOnly,
+    triggerDistance,
+    distanceHysteresis,
+    minClosingSpeed,
+    minTtcConfidence,
   } = options
 
-  function average(arr: number[]) {
-    if (!arr || arr.length === 0) return 0
-    return arr.reduce((s, v) => s + v, 0) / arr.length
-  }
-
-  function movingAverageSeries(values: number[], window: number) {
-    const out: number[] = []
-    for (let i = 0; i < values.length; i++) {
-      const start = Math.max(0, i - (window - 1))
-      let s = 0
-      let count = 0
-      for (let j = start; j <= i; j++) {
-        s += values[j]
-        count++
-      }
-      out.push(s / count)
-    }
-    return out
-  }
-
-  function linearRegressionSlope(values: number[]) {
-    const n = values.length
-    if (n <= 1) return 0
-    const meanX = (n - 1) / 2
-    const meanY = average(values)
-    let num = 0
-    let denom = 0
-    for (let i = 0; i < n; i++) {
-      const dx = i - meanX
-      num += dx * (values[i] - meanY)
-      denom += dx * dx
-    }
-    return denom === 0 ? 0 : num / denom
-  }
-
   const raw = heights.slice(-frames)
   const confRaw = confidences.slice(-frames)
+  const weights = series?.weights ? series.weights.slice(-frames) : undefined
+  const times = series ? series.times.slice(-frames) : null
 
-  const smoothSeries = movingAverageSeries(raw, smoothingWindow)
-  const smoothed = smoothSeries[smoothSeries.length - 1] ?? 0
-
-  const regressionWindow = Math.max(2, Math.min(smoothSeries.length, frames))
-  const regressionValues = smoothSeries.slice(smoothSeries.length - regressionWindow)
-  const slope = linearRegressionSlope(regressionValues)
+  const estimate = SIZE_ESTIMATORS[options.estimator](raw, times, weights, options)
+  const { size: smoothed, rate: slope } = estimate
+  // Boxes jump while the phone turns, so only frames taken holding steady can count as a sudden change.
+  const steady = !weights || (weights[weights.length - 1] ?? 1) >= 1
 
   const avgConfidence = confRaw.length ? average(confRaw) : null
 
-  const enterThreshold = threshold
-  const exitThreshold = Math.max(0, threshold - hysteresis)
-  const instantDelta = Math.min(0.15, hysteresis * 3)
-  const instantClose = smoothed >= enterThreshold + instantDelta
-  const prevSmoothed = smoothSeries.length >= 2 ? smoothSeries[smoothSeries.length - 2] : null
-  const suddenIncrease = prevSmoothed != null && smoothed - prevSmoothed >= suddenDelta
+  const scaleTtc = times ? scaleTimeToContact(raw, times, weights) : null
+
+  let detected = previousDetected
+  let veryClose = false
+  let distance: number | null = null
+  let closingSpeed: number | null = null
+  let objectSpeed: number | null = null
+  let approaching = slope >= minSlope
+  // Whether the object itself is coming closer, as opposed to the user walking up to it.
+  let objectApproaching = approaching
+  let distanceTtc: TimeToContact | null = null
 
-  let newDetected = previousDetected
+  if (series && series.distances.length > 0) {
+    const distances = series.distances.slice(-frames)
+    const distanceTimes = series.distanceTimes.slice(-frames)
+    const distanceSeries = movingAverageSeries(distances, smoothingWindow)
+    distance = distanceSeries[distanceSeries.length - 1]
+    const latestDistance = distances[distances.length - 1]
+    // Regression of the raw samples over time (ms): it already averages out noise, and uneven frame spacing does not skew it.
+    closingSpeed = -regression(distances, distanceTimes).slope * 1000
+    distanceTtc = distanceTimeToContact(distances, distanceTimes)
+    if (series.walkingSpeed != null) objectSpeed = closingSpeed - series.walkingSpeed
 
-  // Use either smoothed value or the latest raw measurement to trigger detection.
-  const latestRaw = raw[raw.length - 1] ?? 0
-  const crossesEnter = (smoothed >= enterThreshold || latestRaw >= enterThreshold)
-    && (allowSizeOnly || slope >= minSlope)
+    approaching = closingSpeed >= minClosingSpeed
+    objectApproaching = (objectSpeed ?? closingSpeed) >= minClosingSpeed
+    const nearest = Math.min(distance, latestDistance)
+    // Very close obstacles alert without an approach while walking; a low table at arm's length is still in the way.
+    veryClose = nearest <= triggerDistance / 2
 
-  if (!previousDetected) {
-    if (crossesEnter || instantClose || suddenIncrease) {
-      newDetected = true
+    if (!previousDetected) {
+      if ((nearest <= triggerDistance && (allowSizeOnly || approaching)) || veryClose) {
+        detected = true
+      }
+    } else {
+      const receding = closingSpeed <= -minClosingSpeed
+      if (distance >= triggerDistance + distanceHysteresis || (receding && !veryClose)) {
+        detected = false
+      }
     }
   } else {
-    if ((smoothed <= exitThreshold && latestRaw <= enterThreshold) || slope <= -minSlope) {
-      newDetected = false
+    const enterThreshold = threshold
+    const exitThreshold = Math.max(0, threshold - hysteresis)
+    // The moving average needs a fixed margin; the Kalman filter knows how far its own estimate can be off.
+    const instantClose = estimate.covariance
+      ? smoothed - INSTANT_CLOSE_SIGMAS * Math.sqrt(estimate.covariance[0]) >= enterThreshold + hysteresis
+      : smoothed >= enterThreshold + Math.min(0.15, hysteresis * 3)
+    const suddenIncrease = steady && estimate.jump != null && estimate.jump >= suddenDelta
+
+    // Use either smoothed value or the latest raw measurement to trigger detection.
+    const latestRaw = raw[raw.length - 1] ?? 0
+    const crossesEnter = (smoothed >= enterThreshold || latestRaw >= enterThreshold)
+      && (allowSizeOnly || slope >= minSlope)
+
+    if (!previousDetected) {
+      if (crossesEnter || instantClose || suddenIncrease) {
+        detected = true
+      }
+    } else {
+      if ((smoothed <= exitThreshold && latestRaw <= enterThreshold) || slope <= -minSlope) {
+        detected = false
+      }
     }
   }
 
-  return { newDetected, smoothed, slope, avgConfidence }
+  // Standing still, anything further off that is not coming closer is furniture the user already knows about.
+  if (series?.stationary && !series.urgent && !objectApproaching && !veryClose) {
+    detected = false
+  }
+
+  // The metric estimate wins ties: it does not depend on the box staying tight around the object.
+  const timeToContact = distanceTtc && (!scaleTtc || distanceTtc.confidence >= scaleTtc.confidence) ? distanceTtc : scaleTtc
+  const trustedTtc = timeToContact && timeToContact.confidence >= minTtcConfidence ? timeToContact.seconds : null
+
+  // Fast walkers reach the time-to-contact levels before the size or distance trigger, which then only adds caution.
+  const alertLevel = nextAlertLevel(previousLevel, { detected, veryClose, timeToContact: trustedTtc }, options)
+
+  return {
+    newDetected: alertLevel !== 'none',
+    alertLevel,
+    smoothed,
+    slope,
+    covariance: estimate.covariance,
+    avgConfidence,
+    distance,
+    closingSpeed,
+    objectSpeed,
+    timeToContact,
+  }
 }
@@ -0,0 +1,244 @@
+import { ClassPolicy, DEFAULT_CLASS_POLICIES, resolveClassPolicy } from '../utils/classPolicy'
+import type { ObstacleDetectionConfig } from '../utils/configStore'
+import { EMPTY_LABEL_MAP, LabelMap, labelForClassId } from '../utils/labelMap'
+import { Box } from './trackerCore'
+
+export type Detection = {
+  height: number
+  confidence: number
+  centerX?: number
+  box?: Box
+  classId?: number | null
+  label?: string | null
+  urgent?: boolean
+}
+
+export type ModelOutputs = {
+  boxes: any
+  classIds: any
+  confidenceScores: any
+}
+
+export type FilterOptions = {
+  minConfidence: number
+  // Fraction of minConfidence a box needs in a quiet scene.
+  baseConfidenceFactor: number
+  // Scenes with more candidates than these counts raise the threshold to the matching factor.
+  busySceneCount: number
+  busyConfidenceFactor: number
+  veryBusySceneCount: number
+  veryBusyConfidenceFactor: number
+  // Max distance of the box center from the middle of the frame (0.3 = middle 60%).
+  centerTolerance: number
+  minBoxHeight: number
+  minBoxWidth: number
+  // Report a fixed-height obstacle when confident boxes cannot be decoded.
+  fallbackEnabled: boolean
+  fallbackHeight: number
+  fallbackMinConfidence: number
+  labelMap: LabelMap
+  classPolicies: Record<string, ClassPolicy>
+}
+
+export type RejectionReason =
+  | 'below-threshold'
+  | 'ignored-class'
+  | 'malformed-box'
+  | 'off-center'
+  | 'too-small'
+
+export type BoxDecision = {
+  index: number
+  classId: number | null
+  label: string | null
+  confidence: number
+  box: Box | null
+  height: number | null
+  width: number | null
+  centerX: number | null
+  accepted: boolean
+  reason: RejectionReason | null
+}
+
+export type FilterResult = {
+  detections: Detection[]
+  decisions: BoxDecision[]
+  fallback: Detection | null
+  // Adaptive confidence threshold used for this frame.
+  threshold: number
+  candidates: number
+}
+
+// What crosses from the camera thread to JS: boxes below the threshold are dropped, rejected candidates kept for logging.
+export type CompactFilterResult = Omit<FilterResult, 'decisions'> & {
+  rejected: BoxDecision[]
+}
+
+export const DEFAULT_FILTER_OPTIONS: FilterOptions = {
+  minConfidence: 0.45,
+  baseConfidenceFactor: 0.5,
+  busySceneCount: 3,
+  busyConfidenceFactor: 0.7,
+  veryBusySceneCount: 5,
+  veryBusyConfidenceFactor: 0.8,
+  centerTolerance: 0.3,
+  minBoxHeight: 0.35,
+  minBoxWidth: 0.15,
+  fallbackEnabled: false,
+  fallbackHeight: 0.6,
+  fallbackMinConfidence: 0.5,
+  labelMap: EMPTY_LABEL_MAP,
+  classPolicies: DEFAULT_CLASS_POLICIES,
+}
+
+export function filterOptionsFromConfig(config: ObstacleDetectionConfig, labelMap: LabelMap): FilterOptions {
+  return {
+    ...DEFAULT_FILTER_OPTIONS,
+    minConfidence: config.OBSTACLE_MIN_CONFIDENCE,
+    baseConfidenceFactor: config.OBSTACLE_BASE_CONFIDENCE_FACTOR,
+    busySceneCount: config.OBSTACLE_BUSY_SCENE_COUNT,
+    busyConfidenceFactor: config.OBSTACLE_BUSY_CONFIDENCE_FACTOR,
+    veryBusySceneCount: config.OBSTACLE_VERY_BUSY_SCENE_COUNT,
+    veryBusyConfidenceFactor: config.OBSTACLE_VERY_BUSY_CONFIDENCE_FACTOR,
+    centerTolerance: config.OBSTACLE_CENTER_TOLERANCE,
+    minBoxHeight: config.OBSTACLE_MIN_BOX_HEIGHT,
+    minBoxWidth: config.OBSTACLE_MIN_BOX_WIDTH,
+    fallbackEnabled: config.OBSTACLE_FALLBACK_ENABLED,
+    fallbackHeight: config.OBSTACLE_FALLBACK_HEIGHT,
+    fallbackMinConfidence: config.OBSTACLE_FALLBACK_MIN_CONFIDENCE,
+    labelMap,
+  }
+}
+
+export function adaptiveThreshold(candidates: number, options: FilterOptions): number {
+  'worklet'
+  if (candidates > options.veryBusySceneCount) return options.minConfidence * options.veryBusyConfidenceFactor
+  if (candidates > options.busySceneCount) return options.minConfidence * options.busyConfidenceFactor
+  return options.minConfidence * options.baseConfidenceFactor
+}
+
+// Runs on the camera thread, so it must stay worklet-safe: plain data in, plain data out.
+export function filterDetections(outputs: ModelOutputs, options: FilterOptions): FilterResult {
+  'worklet'
+  const { boxes, classIds, confidenceScores } = outputs
+  const baseThreshold = options.minConfidence * options.baseConfidenceFactor
+
+  if (!confidenceScores) {
+    return { detections: [], decisions: [], fallback: null, threshold: baseThreshold, candidates: 0 }
+  }
+
+  const count = confidenceScores.length ?? 0
+  const confidences: number[] = []
+  const classes: { classId: number | null; label: string | null; ignore: boolean; urgent: boolean; minHeight: number | null }[] = []
+  for (let i = 0; i < count; i++) {
+    const confidence = Number(confidenceScores[i])
+    confidences.push(Number.isFinite(confidence) ? confidence : 0)
+    const raw = classIds ? Number(classIds[i]) : NaN
+    const classId = Number.isFinite(raw) ? raw : null
+    const label = labelForClassId(options.labelMap, classId)
+    const policy = resolveClassPolicy(label, options.classPolicies)
+    classes.push({ classId, label, ...policy })
+  }
+
+  // Count detections above base threshold, then raise the bar in busy scenes
+  let candidates = 0
+  for (let i = 0; i < count; i++) {
+    if (confidences[i] > baseThreshold && !classes[i].ignore) candidates++
+  }
+  const threshold = adaptiveThreshold(candidates, options)
+
+  const detections: Detection[] = []
+  const decisions: BoxDecision[] = []
+  let bestMalformed: BoxDecision | null = null
+
+  for (let i = 0; i < count; i++) {
+    const confidence = confidences[i]
+    const { classId, label, ignore, urgent, minHeight } = classes[i]
+    const decision: BoxDecision = {
+      index: i,
+      classId,
+      label,
+      confidence,
+      box: readBox(boxes, i),
+      height: null,
+      width: null,
+      centerX: null,
+      accepted: false,
+      reason: null,
+    }
+    decisions.push(decision)
+
+    if (decision.box) {
+      const [ymin, xmin, ymax, xmax] = decision.box
+      decision.height = Math.max(0, Math.min(1, ymax - ymin))
+      decision.width = Math.max(0, Math.min(1, xmax - xmin))
+      decision.centerX = (xmin + xmax) / 2
+    }
+
+    if (!(confidence > threshold)) {
+      decision.reason = 'below-threshold'
+      continue
+    }
+    if (ignore) {
+      decision.reason = 'ignored-class'
+      continue
+    }
+    if (!decision.box) {
+      decision.reason = 'malformed-box'
+      if (!bestMalformed || confidence > bestMalformed.confidence) bestMalformed = decision
+      continue
+    }
+
+    // Center-focused filtering: prioritize walking path
+    const height = decision.height as number
+    const width = decision.width as number
+    const centerX = decision.centerX as number
+    if (Math.abs(centerX - 0.5) > options.centerTolerance) {
+      decision.reason = 'off-center'
+      continue
+    }
+    if (!(height > (minHeight ?? options.minBoxHeight) && width > options.minBoxWidth)) {
+      decision.reason = 'too-small'
+      continue
+    }
+
+    decision.accepted = true
+    detections.push({ height, confidence, centerX, box: decision.box, classId, label, urgent })
+  }
+
+  // Fallback for undecodable boxes with high confidence
+  let fallback: Detection | null = null
+  if (
+    detections.length === 0 &&
+    bestMalformed &&
+    options.fallbackEnabled &&
+    bestMalformed.confidence > options.fallbackMinConfidence
+  ) {
+    const { classId, label, confidence } = bestMalformed
+    fallback = { height: options.fallbackHeight, confidence, classId, label, urgent: classes[bestMalformed.index].urgent }
+  }
+
+  return { detections, decisions, fallback, threshold, candidates }
+}
+
+export function compactFilterResult({ decisions, ...result }: FilterResult): CompactFilterResult {
+  'worklet'
+  return { ...result, rejected: decisions.filter(d => !d.accepted && d.reason !== 'below-threshold') }
+}
+
+function readBox(boxes: any, i: number): Box | null {
+  'worklet'
+  if (!boxes) return null
+  let raw: any = null
+  if (Array.isArray(boxes[i]) || ArrayBuffer.isView(boxes[i])) {
+    raw = boxes[i]
+  } else if (typeof boxes[i * 4] === 'number') {
+    raw = [boxes[i * 4], boxes[i * 4 + 1], boxes[i * 4 + 2], boxes[i * 4 + 3]]
+  }
+  if (!raw || raw.length < 4) return null
+
+  const box: Box = [Number(raw[0]), Number(raw[1]), Number(raw[2]), Number(raw[3])]
+  if (!box.every(Number.isFinite)) return null
+  if (box[2] < box[0] || box[3] < box[1]) return null
+  return box
+}
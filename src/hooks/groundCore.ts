@@ -0,0 +1,182 @@
+import { CameraModel, groundDistanceAtRow } from '../utils/distance'
+import { AlertLevel } from './detectionCore'
+
+export type GroundHazardKind = 'drop-off' | 'wall'
+
+// Frames are scaled down to this many cells a side before the floor is analysed.
+export const GROUND_GRID = 32
+
+export type GroundAnalysis = {
+  // Row (0 top, 1 bottom) where walkable floor ends straight ahead.
+  corridorEnd: number
+  // Meters along the floor to that row, when a camera model is known.
+  corridorDistance: number | null
+  // Fraction of the frame width that looks like floor right in front of the user.
+  corridorWidth: number
+  hazard: GroundHazardKind | null
+  // 0..1, from how much of the corridor the boundary spans.
+  confidence: number
+}
+
+export type GroundHazard = {
+  kind: GroundHazardKind
+  distance: number | null
+  level: AlertLevel
+  confidence: number
+}
+
+export type HazardOptions = {
+  // Hazards further than this are not reported.
+  hazardDistance: number
+  // Consecutive analysed frames needed to raise a hazard, and to clear one.
+  confirmFrames: number
+  clearFrames: number
+}
+
+export type HazardState = {
+  candidate: GroundHazardKind | null
+  count: number
+  misses: number
+  hazard: GroundHazard | null
+}
+
+export const INITIAL_HAZARD_STATE: HazardState = { candidate: null, count: 0, misses: 0, hazard: null }
+
+// Rows at the very bottom are assumed to be the floor the user stands on.
+const REFERENCE_ROWS = 3
+// A cell is floor when it is within this many standard deviations of the reference (or MIN_TOLERANCE levels).
+const FLOOR_SIGMAS = 3
+const MIN_TOLERANCE = 14
+// A row is walkable when at least this much of the center band is floor.
+const MIN_FLOOR = 0.5
+// A boundary is a hazard only when a sharp step runs across most of the corridor; objects leave ragged edges.
+const EDGE_SIGMAS = 4
+const MIN_EDGE = 24
+const MIN_EDGE_COVERAGE = 0.6
+// Beyond a wall, nearly every row is blocked.
+const WALL_BLOCKED = 0.8
+// Without a camera model, boundaries below these rows count as near and close.
+const NEAR_ROW = 0.75
+const CLOSE_ROW = 0.9
+
+// Heuristic floor analysis on a luminance grid (0..255, row-major). The bottom-center patch defines what floor
+// looks like; the corridor is the center third, followed upward until it stops looking like that floor. A straight
+// step across the corridor with a darker surface or more floor beyond is a drop-off; one with a surface that fills
+// the rest of the view is a wall.
+export function analyzeGround(luma: ArrayLike<number>, width: number, height: number, camera: CameraModel | null): GroundAnalysis {
+  'worklet'
+  const left = Math.floor(width / 3)
+  const right = Math.ceil((width * 2) / 3)
+  const band = right - left
+
+  // The floor never reaches above the middle of the frame or the horizon.
+  let top = Math.floor(height / 2)
+  if (camera) {
+    while (top < height - 1 && groundDistanceAtRow((top + 0.5) / height, camera) == null) top++
+  }
+
+  let sum = 0
+  let sumSq = 0
+  let n = 0
+  for (let r = height - REFERENCE_ROWS; r < height; r++) {
+    for (let c = left; c < right; c++) {
+      const v = luma[r * width + c]
+      sum += v
+      sumSq += v * v
+      n++
+    }
+  }
+  const mean = sum / n
+  const std = Math.sqrt(Math.max(0, sumSq / n - mean * mean))
+  const tolerance = Math.max(FLOOR_SIGMAS * std, MIN_TOLERANCE)
+
+  const floorFraction = (r: number, from: number, to: number) => {
+    let floor = 0
+    for (let c = from; c < to; c++) {
+      if (Math.abs(luma[r * width + c] - mean) <= tolerance) floor++
+    }
+    return floor / (to - from)
+  }
+
+  let corridorWidth = 0
+  for (let r = height - REFERENCE_ROWS; r < height; r++) corridorWidth += floorFraction(r, 0, width) / REFERENCE_ROWS
+
+  // Two blocked rows in a row end the corridor, so a single seam or shadow line does not.
+  let end = top
+  for (let r = height - 1; r >= top; r--) {
+    if (floorFraction(r, left, right) < MIN_FLOOR && (r - 1 < top || floorFraction(r - 1, left, right) < MIN_FLOOR)) {
+      end = r + 1
+      break
+    }
+  }
+
+  const corridorEnd = end / height
+  const corridorDistance = camera ? groundDistanceAtRow(corridorEnd, camera) : null
+  if (end <= top || end >= height) {
+    return { corridorEnd, corridorDistance, corridorWidth, hazard: null, confidence: 0 }
+  }
+
+  const edgeThreshold = Math.max(EDGE_SIGMAS * std, MIN_EDGE)
+  let edges = 0
+  for (let c = left; c < right; c++) {
+    const floor = luma[end * width + c]
+    const step = Math.max(
+      Math.abs(luma[(end - 1) * width + c] - floor),
+      end - 2 >= top ? Math.abs(luma[(end - 2) * width + c] - floor) : 0
+    )
+    if (step > edgeThreshold) edges++
+  }
+  const edgeCoverage = edges / band
+
+  let blocked = 0
+  let beyondSum = 0
+  let beyondCount = 0
+  for (let r = end - 1; r >= top; r--) {
+    if (floorFraction(r, left, right) < MIN_FLOOR) blocked++
+    for (let c = left; c < right; c++) {
+      beyondSum += luma[r * width + c]
+      beyondCount++
+    }
+  }
+  const blockedFraction = blocked / (end - top)
+  const darker = beyondSum / beyondCount < mean - edgeThreshold
+
+  let hazard: GroundHazardKind | null = null
+  if (edgeCoverage >= MIN_EDGE_COVERAGE) {
+    hazard = darker || blockedFraction < WALL_BLOCKED ? 'drop-off' : 'wall'
+  }
+  return { corridorEnd, corridorDistance, corridorWidth, hazard, confidence: hazard ? edgeCoverage : 0 }
+}
+
+function hazardLevel(kind: GroundHazardKind, analysis: GroundAnalysis, options: HazardOptions): AlertLevel {
+  const close = analysis.corridorDistance != null
+    ? analysis.corridorDistance <= options.hazardDistance / 2
+    : analysis.corridorEnd >= CLOSE_ROW
+  // Walking off an edge is worse than walking into a wall.
+  if (kind === 'drop-off') return close ? 'imminent' : 'warning'
+  return close ? 'warning' : 'caution'
+}
+
+// Raises a hazard after confirmFrames matching frames in range, and holds it until clearFrames frames without one.
+export function updateHazardState(state: HazardState, analysis: GroundAnalysis | null, options: HazardOptions): HazardState {
+  const near = analysis != null && (analysis.corridorDistance != null
+    ? analysis.corridorDistance <= options.hazardDistance
+    : analysis.corridorEnd >= NEAR_ROW)
+  const kind = near && analysis ? analysis.hazard : null
+
+  if (kind && analysis) {
+    const count = state.candidate === kind ? state.count + 1 : 1
+    const confirmed = count >= options.confirmFrames || state.hazard?.kind === kind
+    return {
+      candidate: kind,
+      count,
+      misses: 0,
+      hazard: confirmed
+        ? { kind, distance: analysis.corridorDistance, level: hazardLevel(kind, analysis, options), confidence: analysis.confidence }
+        : state.hazard,
+    }
+  }
+
+  const misses = state.misses + 1
+  return { candidate: null, count: 0, misses, hazard: state.hazard && misses < options.clearFrames ? state.hazard : null }
+}
@@ -0,0 +1,202 @@
+import { AnnouncementPriority } from '../utils/announcementQueue'
+import { SessionFault } from './sessionCore'
+
+export type HealthLevel = 'ok' | 'degraded' | 'unavailable'
+
+export type HealthIssue = SessionFault | 'errors' | 'malformed' | 'slow'
+
+// One analysed frame, or one that threw before it could be analysed.
+export type HealthSample = {
+  at: number
+  // Capture to filtered result, or null when the frame failed.
+  latencyMs: number | null
+  // The model returned boxes that could not be decoded.
+  malformed: boolean
+  failed: boolean
+}
+
+export type HealthSignals = {
+  model: 'loading' | 'loaded' | 'error'
+  // Camera, model or stall fault reported by the session.
+  fault: SessionFault | null
+  // Reminders and recovery messages are only spoken while navigating.
+  active: boolean
+  // The camera is on and should be delivering frames, whether or not they are analysed.
+  expectFrames: boolean
+}
+
+export type HealthOptions = {
+  // Rates are taken over this much recent history, once it holds enough frames.
+  windowMs: number
+  minSamples: number
+  maxLatencyMs: number
+  malformedRate: number
+  // Failing this share of frames is degraded; failing most of them counts as unavailable.
+  errorRate: number
+  // No frame for this long while the camera is on means it or the model has stopped.
+  stallMs: number
+  // A problem must stay gone this long before detection counts as healthy again.
+  recoverMs: number
+  // While navigating in a degraded or unavailable state, the warning is repeated this often.
+  reminderMs: number
+}
+
+export type HealthState = {
+  samples: HealthSample[]
+  // Last frame of any kind, including the brightness checks taken while paused.
+  lastFrameAt: number | null
+  // Since when the camera has been expected to deliver frames.
+  expectingSince: number | null
+  level: HealthLevel
+  issue: HealthIssue | null
+  // Since when the assessment has been better than the current level.
+  improvingSince: number | null
+  warnedAt: number | null
+}
+
+export type HealthChange = 'failed' | 'degraded' | 'restored' | 'reminder'
+
+export type HealthUpdate = {
+  state: HealthState
+  change: HealthChange | null
+}
+
+export const DEFAULT_HEALTH_OPTIONS: HealthOptions = {
+  windowMs: 5000,
+  minSamples: 5,
+  maxLatencyMs: 500,
+  malformedRate: 0.3,
+  errorRate: 0.2,
+  stallMs: 3000,
+  recoverMs: 3000,
+  reminderMs: 30_000,
+}
+
+export const INITIAL_HEALTH_STATE: HealthState = {
+  samples: [],
+  lastFrameAt: null,
+  expectingSince: null,
+  level: 'ok',
+  issue: null,
+  improvingSince: null,
+  warnedAt: null,
+}
+
+const SEVERITY: Record<HealthLevel, number> = { ok: 0, degraded: 1, unavailable: 2 }
+
+// Most of the frames failing is no better than none arriving.
+const UNAVAILABLE_ERROR_RATE = 0.5
+
+function recent(samples: HealthSample[], now: number, options: HealthOptions): HealthSample[] {
+  return samples.filter(sample => now - sample.at <= options.windowMs)
+}
+
+export function addHealthSample(state: HealthState, sample: HealthSample, options: HealthOptions): HealthState {
+  return { ...state, samples: [...recent(state.samples, sample.at, options), sample], lastFrameAt: sample.at }
+}
+
+// A frame that arrived without being analysed, which still shows the camera is alive.
+export function addHealthHeartbeat(state: HealthState, at: number): HealthState {
+  return { ...state, lastFrameAt: at }
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// The worst problem right now, without any debouncing. `lastFrameAt` is the last frame, or when frames became
+// expected if that is later; null when the camera is off.
+export function diagnose(
+  samples: HealthSample[],
+  signals: HealthSignals,
+  now: number,
+  options: HealthOptions,
+  lastFrameAt: number | null = null
+): { level: HealthLevel; issue: HealthIssue | null } {
+  if (signals.model === 'error') return { level: 'unavailable', issue: 'model' }
+  if (signals.fault) return { level: 'unavailable', issue: signals.fault }
+  // Checked before the window, which stops filling once frames stop.
+  if (lastFrameAt != null && now - lastFrameAt >= options.stallMs) return { level: 'unavailable', issue: 'stalled' }
+
+  const window = recent(samples, now, options)
+  if (window.length < options.minSamples) return { level: 'ok', issue: null }
+
+  const failed = window.filter(sample => sample.failed).length / window.length
+  if (failed >= UNAVAILABLE_ERROR_RATE) return { level: 'unavailable', issue: 'errors' }
+  if (failed >= options.errorRate) return { level: 'degraded', issue: 'errors' }
+
+  const analysed = window.filter(sample => !sample.failed)
+  if (analysed.filter(sample => sample.malformed).length / analysed.length >= options.malformedRate) {
+    return { level: 'degraded', issue: 'malformed' }
+  }
+  const latency = median(analysed.map(sample => sample.latencyMs ?? 0))
+  if (latency != null && latency > options.maxLatencyMs) return { level: 'degraded', issue: 'slow' }
+  return { level: 'ok', issue: null }
+}
+
+// Getting worse is reported at once; getting better only after it has held for recoverMs.
+export function assessHealth(state: HealthState, signals: HealthSignals, now: number, options: HealthOptions): HealthUpdate {
+  const samples = recent(state.samples, now, options)
+  const expectingSince = signals.expectFrames ? state.expectingSince ?? now : null
+  const lastFrameAt = expectingSince != null ? Math.max(state.lastFrameAt ?? 0, expectingSince) : null
+  const { level, issue } = diagnose(samples, signals, now, options, lastFrameAt)
+  const base = { ...state, samples, expectingSince }
+
+  if (SEVERITY[level] > SEVERITY[state.level] || (level === state.level && level !== 'ok' && issue !== state.issue)) {
+    return {
+      state: { ...base, level, issue, improvingSince: null, warnedAt: now },
+      change: level === 'unavailable' ? 'failed' : 'degraded',
+    }
+  }
+
+  if (SEVERITY[level] < SEVERITY[state.level]) {
+    const improvingSince = state.improvingSince ?? now
+    if (now - improvingSince < options.recoverMs) {
+      return { state: { ...base, improvingSince }, change: null }
+    }
+    return {
+      state: { ...base, level, issue, improvingSince: null, warnedAt: level === 'ok' ? null : now },
+      // Nobody needs to hear that detection is back while they are not navigating.
+      change: !signals.active ? null : level === 'ok' ? 'restored' : 'degraded',
+    }
+  }
+
+  if (level !== 'ok' && signals.active && state.warnedAt != null && now - state.warnedAt >= options.reminderMs) {
+    return { state: { ...base, improvingSince: null, warnedAt: now }, change: 'reminder' }
+  }
+  return { state: { ...base, improvingSince: null }, change: null }
+}
+
+const ISSUE_TEXT: Record<HealthIssue, string> = {
+  camera: 'The camera failed',
+  model: 'The detection model could not be loaded',
+  stalled: 'The camera stopped responding',
+  errors: 'Frames keep failing to process',
+  malformed: 'The model is returning garbled results',
+  slow: 'Detection is running too slowly to warn in time',
+}
+
+export function describeHealth(level: HealthLevel, issue: HealthIssue | null): string {
+  const reason = issue ? `. ${ISSUE_TEXT[issue]}` : ''
+  switch (level) {
+    case 'unavailable':
+      return `Obstacle detection unavailable${reason}`
+    case 'degraded':
+      return `Obstacle detection unreliable, do not rely on it${reason}`
+    case 'ok':
+      return 'Obstacle detection working again'
+  }
+}
+
+// What to say about a change. Failures interrupt anything else being said.
+export function describeHealthChange(update: HealthUpdate): { text: string; priority: AnnouncementPriority } | null {
+  const { state, change } = update
+  if (!change) return null
+  return {
+    text: describeHealth(change === 'restored' ? 'ok' : state.level, state.issue),
+    priority: state.level === 'unavailable' ? 'urgent' : 'warning',
+  }
+}
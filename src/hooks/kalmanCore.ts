@@ -0,0 +1,100 @@
+// [var(size), cov(size, rate), var(rate)]: the symmetric 2×2 covariance, without the repeated corner.
+export type Covariance = [number, number, number]
+
+export type KalmanOptions = {
+  // Variance of one box height measurement (fraction of the frame, squared).
+  measurementNoise: number
+  // How much the growth rate can change from one frame to the next: white-noise acceleration spectral density.
+  processNoise: number
+  // Variance of the growth rate before the second sample; the first one says nothing about it.
+  initialRateVariance: number
+  // Samples further than this many standard deviations from the prediction count as if they were just that far, so a
+  // box flaring up for one frame barely moves the estimate while a real jump still pulls it over a few frames.
+  outlierGate: number
+}
+
+export type KalmanEstimate = {
+  size: number
+  // Per frame.
+  rate: number
+  covariance: Covariance
+  // Latest sample minus what the filter predicted for it, and that difference's variance; null before a second sample.
+  innovation: number | null
+  innovationVariance: number | null
+  // How far the latest sample moved the size from the previous estimate; null before a second sample.
+  change: number | null
+}
+
+// Box heights jitter by about 0.02 between frames; a person walking up grows by a few thousandths more each frame.
+export const DEFAULT_KALMAN_OPTIONS: KalmanOptions = {
+  measurementNoise: 0.0004,
+  processNoise: 0.000004,
+  initialRateVariance: 0.0025,
+  outlierGate: 3,
+}
+
+export function predict(estimate: KalmanEstimate, dt: number, options: KalmanOptions): KalmanEstimate {
+  const [pss, psv, pvv] = estimate.covariance
+  const q = options.processNoise
+  return {
+    ...estimate,
+    size: estimate.size + estimate.rate * dt,
+    covariance: [
+      pss + 2 * dt * psv + dt * dt * pvv + (q * dt * dt * dt) / 3,
+      psv + dt * pvv + (q * dt * dt) / 2,
+      pvv + q * dt,
+    ],
+  }
+}
+
+// weight 0..1 scales the measurement's trust: half weight doubles its variance.
+export function correct(predicted: KalmanEstimate, value: number, weight: number, options: KalmanOptions): KalmanEstimate {
+  const [pss, psv, pvv] = predicted.covariance
+  const innovation = value - predicted.size
+  const gated = (options.outlierGate * options.outlierGate) * (pss + options.measurementNoise / weight)
+  const innovationVariance = innovation * innovation > gated
+    ? (innovation * innovation) / (options.outlierGate * options.outlierGate)
+    : pss + options.measurementNoise / weight
+  const gainSize = pss / innovationVariance
+  const gainRate = psv / innovationVariance
+  return {
+    size: predicted.size + gainSize * innovation,
+    rate: predicted.rate + gainRate * innovation,
+    covariance: [(1 - gainSize) * pss, (1 - gainSize) * psv, pvv - gainRate * psv],
+    innovation,
+    innovationVariance,
+    change: null,
+  }
+}
+
+// Constant-velocity filter over a window of samples. steps[i] is how many frame intervals passed before sample i, so
+// a dropped frame widens the uncertainty instead of being squeezed out; zero-weight samples only advance the clock.
+export function kalmanFilter(
+  values: number[],
+  steps: number[],
+  weights: number[] | undefined,
+  options: KalmanOptions
+): KalmanEstimate | null {
+  let estimate: KalmanEstimate | null = null
+  for (let i = 0; i < values.length; i++) {
+    const weight = weights ? weights[i] ?? 1 : 1
+    if (estimate == null) {
+      if (!(weight > 0)) continue
+      estimate = {
+        size: values[i],
+        rate: 0,
+        covariance: [options.measurementNoise / weight, 0, options.initialRateVariance],
+        innovation: null,
+        innovationVariance: null,
+        change: null,
+      }
+      continue
+    }
+    const predicted = predict(estimate, steps[i] ?? 1, options)
+    const next: KalmanEstimate = weight > 0
+      ? correct(predicted, values[i], weight, options)
+      : { ...predicted, innovation: null, innovationVariance: null }
+    estimate = { ...next, change: next.size - estimate.size }
+  }
+  return estimate
+}
@@ -0,0 +1,131 @@
+export type Vector3 = [number, number, number]
+
+export type MotionSample = {
+  // Milliseconds, on the same clock as the frames they are fused with.
+  t: number
+  // Rotation rate (deg/s) from the gyroscope.
+  rotation: Vector3
+  // Acceleration without gravity (m/s²) from the accelerometer.
+  acceleration: Vector3
+}
+
+export type MotionOptions = {
+  // Frames are used at full weight below this rotation speed (deg/s) and skipped above maxRotation.
+  steadyRotation: number
+  maxRotation: number
+  // Slower than this (m/s) the user is standing still.
+  stationarySpeed: number
+}
+
+export type MotionState = {
+  // Smoothed rotation speed (deg/s).
+  rotationSpeed: number
+  // Whether acceleration was above the step threshold at the last sample.
+  inStep: boolean
+  lastStepAt: number | null
+  // Recent gaps between steps (ms), for the cadence.
+  stepIntervals: number[]
+  lastSampleAt: number | null
+}
+
+// What the tracker needs from the IMU for one frame.
+export type MotionContext = {
+  // 0..1: how much the frame can be trusted given how fast the phone turned while it was taken.
+  weight: number
+  // Meters per second from the step cadence, 0 when standing still, null without IMU data.
+  walkingSpeed: number | null
+  stationary: boolean
+}
+
+export const DEFAULT_MOTION_OPTIONS: MotionOptions = {
+  steadyRotation: 30,
+  maxRotation: 120,
+  stationarySpeed: 0.2,
+}
+
+export const INITIAL_MOTION_STATE: MotionState = {
+  rotationSpeed: 0,
+  inStep: false,
+  lastStepAt: null,
+  stepIntervals: [],
+  lastSampleAt: null,
+}
+
+// Without IMU data every frame counts fully and nothing is known about the user's own movement.
+export const NO_MOTION: MotionContext = { weight: 1, walkingSpeed: null, stationary: false }
+
+// Each heel strike shows up as a spike in acceleration; the lower level re-arms detection for the next one.
+const STEP_ACCELERATION = 1.5
+const STEP_RELEASE = 0.8
+// Faster than about 4 steps a second is not walking, and no step in this long means the user stopped.
+const MIN_STEP_INTERVAL_MS = 250
+const STEP_TIMEOUT_MS = 1500
+const CADENCE_STEPS = 4
+// Average adult walking stride per step.
+const STEP_LENGTH_M = 0.7
+const MAX_WALKING_SPEED = 2.5
+// Rotation speed follows the gyroscope quickly up and settles more slowly, so a head turn is not over at its peak.
+const ROTATION_RISE = 0.6
+const ROTATION_FALL = 0.2
+
+function magnitude([x, y, z]: Vector3): number {
+  return Math.sqrt(x * x + y * y + z * z)
+}
+
+export function updateMotionState(state: MotionState, sample: MotionSample): MotionState {
+  const speed = magnitude(sample.rotation)
+  const rate = speed > state.rotationSpeed ? ROTATION_RISE : ROTATION_FALL
+  const rotationSpeed = state.lastSampleAt == null ? speed : state.rotationSpeed + (speed - state.rotationSpeed) * rate
+
+  const accel = magnitude(sample.acceleration)
+  let { inStep, lastStepAt, stepIntervals } = state
+  if (!inStep && accel >= STEP_ACCELERATION && (lastStepAt == null || sample.t - lastStepAt >= MIN_STEP_INTERVAL_MS)) {
+    inStep = true
+    if (lastStepAt != null && sample.t - lastStepAt <= STEP_TIMEOUT_MS) {
+      stepIntervals = [...stepIntervals, sample.t - lastStepAt].slice(-CADENCE_STEPS)
+    } else {
+      stepIntervals = []
+    }
+    lastStepAt = sample.t
+  } else if (inStep && accel <= STEP_RELEASE) {
+    inStep = false
+  }
+
+  return { rotationSpeed, inStep, lastStepAt, stepIntervals, lastSampleAt: sample.t }
+}
+
+export function walkingSpeed(state: MotionState, now: number): number {
+  if (state.lastStepAt == null || now - state.lastStepAt > STEP_TIMEOUT_MS || state.stepIntervals.length === 0) return 0
+  const sorted = [...state.stepIntervals].sort((a, b) => a - b)
+  const median = sorted[Math.floor(sorted.length / 2)]
+  return Math.min(MAX_WALKING_SPEED, STEP_LENGTH_M / (median / 1000))
+}
+
+export function frameWeight(rotationSpeed: number, options: MotionOptions): number {
+  if (rotationSpeed <= options.steadyRotation) return 1
+  if (rotationSpeed >= options.maxRotation) return 0
+  return 1 - (rotationSpeed - options.steadyRotation) / (options.maxRotation - options.steadyRotation)
+}
+
+export function motionContext(state: MotionState, now: number, options: MotionOptions): MotionContext {
+  if (state.lastSampleAt == null) return NO_MOTION
+  const speed = walkingSpeed(state, now)
+  // A single recent step already counts as moving, so warnings come back with the first step, not the second.
+  const recentStep = state.lastStepAt != null && now - state.lastStepAt <= STEP_TIMEOUT_MS
+  return {
+    weight: frameWeight(state.rotationSpeed, options),
+    walkingSpeed: speed,
+    stationary: speed < options.stationarySpeed && !recentStep,
+  }
+}
+
+// Feeds every sample up to each frame time through the state, for replaying recorded IMU traces.
+export function createMotionTimeline(samples: MotionSample[], options: MotionOptions) {
+  const sorted = [...samples].sort((a, b) => a.t - b.t)
+  let state = INITIAL_MOTION_STATE
+  let next = 0
+  return (t: number): MotionContext => {
+    while (next < sorted.length && sorted[next].t <= t) state = updateMotionState(state, sorted[next++])
+    return motionContext(state, t, options)
+  }
+}
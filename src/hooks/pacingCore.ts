@@ -0,0 +1,138 @@
+export type PowerConditions = {
+  // 0..1, or null when the platform does not report it.
+  batteryLevel: number | null
+  lowPowerMode: boolean
+  charging: boolean
+}
+
+export type PacingOptions = {
+  targetFps: number
+  minFps: number
+  // Never run inference more often than this, whatever the target.
+  cooldownMs: number
+}
+
+export type PacerState = {
+  // When the last processed frame started (ms), or 0 before the first.
+  lastStart: number
+  // Smoothed camera-thread time for one processed frame: resize, inference and filtering (ms).
+  workMs: number
+  // Frames skipped since the last processed one.
+  skipped: number
+}
+
+export type StageName = 'resize' | 'inference' | 'postprocess' | 'total'
+
+export const STAGE_NAMES: StageName[] = ['resize', 'inference', 'postprocess', 'total']
+
+export type FrameTiming = {
+  // When the frame entered the processor (ms).
+  capturedAt: number
+  // Frames the camera delivered since the previous processed one, including this one.
+  frames: number
+  resizeMs: number
+  inferenceMs: number
+  postprocessMs: number
+  // When the results were handed to the detector (ms).
+  finishedAt: number
+}
+
+export type PipelineMetrics = {
+  cameraFps: number | null
+  inferenceFps: number | null
+  // Smoothed latency of each stage (ms); total runs from capture to the detector.
+  stages: Record<StageName, number | null>
+  skippedFrames: number
+  // Fastest smoothed inference seen; a device that heats up slows down from here.
+  baselineInferenceMs: number | null
+  lastCapturedAt: number | null
+}
+
+export const EMPTY_PIPELINE_METRICS: PipelineMetrics = {
+  cameraFps: null,
+  inferenceFps: null,
+  stages: { resize: null, inference: null, postprocess: null, total: null },
+  skippedFrames: 0,
+  baselineInferenceMs: null,
+  lastCapturedAt: null,
+}
+
+export const INITIAL_PACER_STATE: PacerState = { lastStart: 0, workMs: 0, skipped: 0 }
+
+// At or below this charge, and not charging, inference runs at half rate.
+export const LOW_BATTERY_LEVEL = 0.2
+const LOW_BATTERY_FACTOR = 0.5
+
+// Inference this much slower than its baseline means the device is throttling, usually from heat.
+const WARM_SLOWDOWN = 1.5
+const HOT_SLOWDOWN = 2
+const WARM_FACTOR = 0.75
+const HOT_FACTOR = 0.5
+
+// Leave some room after each processed frame so the camera thread is never saturated.
+const WORK_HEADROOM = 1.2
+const METRICS_SMOOTHING = 0.2
+
+export function targetInferenceFps(options: Pick<PacingOptions, 'targetFps' | 'minFps'>, power: PowerConditions, thermalFactor = 1): number {
+  let fps = options.targetFps
+  const lowBattery = power.lowPowerMode || (power.batteryLevel != null && power.batteryLevel >= 0 && power.batteryLevel <= LOW_BATTERY_LEVEL)
+  if (lowBattery && !power.charging) fps *= LOW_BATTERY_FACTOR
+  fps *= thermalFactor
+  return Math.max(Math.min(options.minFps, options.targetFps), Math.min(options.targetFps, fps))
+}
+
+export function frameIntervalMs(fps: number, cooldownMs: number): number {
+  return Math.max(1000 / Math.max(fps, 0.1), cooldownMs)
+}
+
+// Runs on the camera thread before any expensive work.
+export function shouldProcessFrame(state: PacerState, now: number, intervalMs: number): boolean {
+  'worklet'
+  if (state.lastStart === 0) return true
+  // When processing falls behind the interval, wait for it instead, so frames are skipped rather than queued.
+  const interval = Math.max(intervalMs, state.workMs * WORK_HEADROOM)
+  return now - state.lastStart >= interval
+}
+
+export function nextPacerState(state: PacerState, processed: boolean, now: number, workMs: number): PacerState {
+  'worklet'
+  if (!processed) return { lastStart: state.lastStart, workMs: state.workMs, skipped: state.skipped + 1 }
+  const smoothed = state.workMs === 0 ? workMs : state.workMs + (workMs - state.workMs) * 0.3
+  return { lastStart: now, workMs: smoothed, skipped: 0 }
+}
+
+function smooth(previous: number | null, sample: number): number {
+  return previous == null ? sample : previous + (sample - previous) * METRICS_SMOOTHING
+}
+
+export function updatePipelineMetrics(metrics: PipelineMetrics, timing: FrameTiming): PipelineMetrics {
+  const elapsed = metrics.lastCapturedAt != null ? timing.capturedAt - metrics.lastCapturedAt : null
+  const rate = (count: number) => (elapsed != null && elapsed > 0 ? (count * 1000) / elapsed : null)
+  const cameraFps = rate(timing.frames)
+  const inferenceFps = rate(1)
+  const inference = smooth(metrics.stages.inference, timing.inferenceMs)
+  return {
+    cameraFps: cameraFps != null ? smooth(metrics.cameraFps, cameraFps) : metrics.cameraFps,
+    inferenceFps: inferenceFps != null ? smooth(metrics.inferenceFps, inferenceFps) : metrics.inferenceFps,
+    stages: {
+      resize: smooth(metrics.stages.resize, timing.resizeMs),
+      inference,
+      postprocess: smooth(metrics.stages.postprocess, timing.postprocessMs),
+      total: smooth(metrics.stages.total, timing.finishedAt - timing.capturedAt),
+    },
+    skippedFrames: metrics.skippedFrames + Math.max(0, timing.frames - 1),
+    baselineInferenceMs: metrics.baselineInferenceMs == null ? inference : Math.min(metrics.baselineInferenceMs, inference),
+    lastCapturedAt: timing.capturedAt,
+  }
+}
+
+// Slows inference down when it has become much slower than it was, instead of letting the phone get hotter.
+export function thermalFactor(metrics: PipelineMetrics): number {
+  const { baselineInferenceMs: baseline } = metrics
+  const current = metrics.stages.inference
+  if (baseline == null || current == null || baseline <= 0) return 1
+  const slowdown = current / baseline
+  if (slowdown >= HOT_SLOWDOWN) return HOT_FACTOR
+  if (slowdown >= WARM_SLOWDOWN) return WARM_FACTOR
+  return 1
+}
@@ -0,0 +1,254 @@
+import { AnnouncementPriority } from '../utils/announcementQueue'
+
+export type SessionStatus = 'idle' | 'running' | 'paused'
+
+export type PauseReason = 'background' | 'face-down' | 'covered'
+
+export type SessionFault = 'camera' | 'model' | 'stalled'
+
+export type SessionSignals = {
+  // Vertical component of the screen normal: 1 face up, -1 face down, 0 held upright; null without motion data.
+  facing: number | null
+  // Mean brightness 0..1 of a recent frame, or null when none is recent.
+  brightness: number | null
+  background: boolean
+  // When the detector last analysed a frame (ms), or null.
+  lastFrameAt: number | null
+}
+
+export type SessionOptions = {
+  // Pause by itself when the phone is put face down or the camera is covered.
+  autoPause: boolean
+  // How long a pause condition must hold before pausing, and how long the phone must be raised before resuming.
+  pauseAfterMs: number
+  resumeAfterMs: number
+  // Running without an analysed frame for this long means the camera or model has stopped.
+  stallMs: number
+}
+
+export type SessionState = {
+  status: SessionStatus
+  pauseReason: PauseReason | null
+  fault: SessionFault | null
+  startedAt: number | null
+  // Running time banked from earlier stretches, and when the current one began.
+  activeMs: number
+  runningSince: number | null
+  alerts: number
+  frames: number
+  // Since when the pause condition (while running) or the resume condition (while paused) has held.
+  pendingSince: number | null
+}
+
+export type SessionSummary = {
+  startedAt: number
+  endedAt: number
+  // Time spent running, without pauses.
+  activeMs: number
+  alerts: number
+  // Analysed frames per running second, or null when it never ran.
+  averageFps: number | null
+}
+
+export type SessionChange = 'started' | 'stopped' | 'paused' | 'resumed' | 'fault' | 'recovered'
+
+export type SessionUpdate = {
+  state: SessionState
+  change: SessionChange | null
+  // Set when the session stops.
+  summary: SessionSummary | null
+}
+
+export type SessionEvent =
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'frame' }
+  | { type: 'alert' }
+  | { type: 'fault'; fault: SessionFault }
+
+export const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  autoPause: true,
+  pauseAfterMs: 1500,
+  resumeAfterMs: 500,
+  stallMs: 3000,
+}
+
+export const INITIAL_SESSION_STATE: SessionState = {
+  status: 'idle',
+  pauseReason: null,
+  fault: null,
+  startedAt: null,
+  activeMs: 0,
+  runningSince: null,
+  alerts: 0,
+  frames: 0,
+  pendingSince: null,
+}
+
+// Screen more than 45° past flat toward the ground; the back camera then sees nothing ahead.
+const FACE_DOWN = -0.7
+// Within 45° of upright counts as raised to look ahead.
+const RAISED = 0.7
+// A pocket or a hand over the lens.
+const DARK_BRIGHTNESS = 0.06
+
+export function screenFacing(beta: number, gamma: number): number {
+  return Math.cos(beta) * Math.cos(gamma)
+}
+
+// Mean luma of an RGB uint8 thumbnail, 0..1.
+export function frameBrightness(rgb: ArrayLike<number>): number {
+  'worklet'
+  const pixels = Math.floor(rgb.length / 3)
+  if (pixels === 0) return 0
+  let sum = 0
+  for (let i = 0; i < pixels; i++) {
+    sum += 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2]
+  }
+  return sum / pixels / 255
+}
+
+export function pauseCondition(signals: SessionSignals, options: SessionOptions): PauseReason | null {
+  // The camera stops in the background whatever the setting says.
+  if (signals.background) return 'background'
+  if (!options.autoPause) return null
+  if (signals.facing != null && signals.facing <= FACE_DOWN) return 'face-down'
+  if (signals.brightness != null && signals.brightness <= DARK_BRIGHTNESS) return 'covered'
+  return null
+}
+
+function raised(signals: SessionSignals): boolean {
+  return signals.facing == null || Math.abs(signals.facing) < RAISED
+}
+
+function runningMs(state: SessionState, now: number): number {
+  return state.activeMs + (state.runningSince != null ? now - state.runningSince : 0)
+}
+
+export function summarizeSession(state: SessionState, now: number): SessionSummary {
+  const activeMs = runningMs(state, now)
+  return {
+    startedAt: state.startedAt ?? now,
+    endedAt: now,
+    activeMs,
+    alerts: state.alerts,
+    averageFps: activeMs > 0 ? state.frames / (activeMs / 1000) : null,
+  }
+}
+
+export function updateSession(state: SessionState, event: SessionEvent, now: number): SessionUpdate {
+  const unchanged = { state, change: null, summary: null }
+  switch (event.type) {
+    case 'start':
+      if (state.status !== 'idle') return unchanged
+      return {
+        state: { ...INITIAL_SESSION_STATE, status: 'running', startedAt: now, runningSince: now },
+        change: 'started',
+        summary: null,
+      }
+    case 'stop':
+      if (state.status === 'idle') return unchanged
+      return { state: INITIAL_SESSION_STATE, change: 'stopped', summary: summarizeSession(state, now) }
+    case 'frame':
+      if (state.status !== 'running') return unchanged
+      if (state.fault === 'stalled') return { state: { ...state, frames: state.frames + 1, fault: null }, change: 'recovered', summary: null }
+      return { state: { ...state, frames: state.frames + 1 }, change: null, summary: null }
+    case 'alert':
+      if (state.status !== 'running') return unchanged
+      return { state: { ...state, alerts: state.alerts + 1 }, change: null, summary: null }
+    case 'fault':
+      if (state.status === 'idle' || state.fault === event.fault) return unchanged
+      return { state: { ...state, fault: event.fault }, change: 'fault', summary: null }
+  }
+}
+
+// Called periodically with fresh signals: debounces auto-pause and resume, and notices a stalled camera.
+export function tickSession(state: SessionState, signals: SessionSignals, now: number, options: SessionOptions): SessionUpdate {
+  const reason = pauseCondition(signals, options)
+
+  if (state.status === 'running') {
+    if (reason == null) {
+      const lastFrame = Math.max(signals.lastFrameAt ?? 0, state.runningSince ?? 0)
+      if (state.fault == null && now - lastFrame >= options.stallMs) {
+        return { state: { ...state, fault: 'stalled', pendingSince: null }, change: 'fault', summary: null }
+      }
+      return { state: state.pendingSince == null ? state : { ...state, pendingSince: null }, change: null, summary: null }
+    }
+    const pendingSince = state.pendingSince ?? now
+    if (reason !== 'background' && now - pendingSince < options.pauseAfterMs) {
+      return { state: state.pendingSince === pendingSince ? state : { ...state, pendingSince }, change: null, summary: null }
+    }
+    return {
+      state: { ...state, status: 'paused', pauseReason: reason, activeMs: runningMs(state, now), runningSince: null, pendingSince: null },
+      change: 'paused',
+      summary: null,
+    }
+  }
+
+  if (state.status === 'paused') {
+    // Resuming needs the phone raised again, not just turned over onto its back.
+    if (reason != null || !raised(signals)) {
+      if (reason != null && reason !== state.pauseReason && reason !== 'background') {
+        return { state: { ...state, pauseReason: reason, pendingSince: null }, change: null, summary: null }
+      }
+      return { state: state.pendingSince == null ? state : { ...state, pendingSince: null }, change: null, summary: null }
+    }
+    const pendingSince = state.pendingSince ?? now
+    if (now - pendingSince < options.resumeAfterMs) {
+      return { state: state.pendingSince === pendingSince ? state : { ...state, pendingSince }, change: null, summary: null }
+    }
+    return {
+      state: { ...state, status: 'running', pauseReason: null, runningSince: now, pendingSince: null },
+      change: 'resumed',
+      summary: null,
+    }
+  }
+
+  return { state, change: null, summary: null }
+}
+
+function durationWords(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  const hourWords = `${hours} ${hours === 1 ? 'hour' : 'hours'}`
+  return rest === 0 ? hourWords : `${hourWords} ${rest} ${rest === 1 ? 'minute' : 'minutes'}`
+}
+
+// "Navigation stopped after 12 minutes, 5 alerts, 8 frames per second".
+export function describeSummary(summary: SessionSummary): string {
+  const alerts = `${summary.alerts} ${summary.alerts === 1 ? 'alert' : 'alerts'}`
+  const fps = summary.averageFps != null ? `, ${Math.round(summary.averageFps)} frames per second` : ''
+  return `Navigation stopped after ${durationWords(summary.activeMs)}, ${alerts}${fps}`
+}
+
+const PAUSE_TEXT: Record<PauseReason, string | null> = {
+  // Nobody is listening once the app is in the background.
+  background: null,
+  'face-down': 'Paused, phone facing down',
+  covered: 'Paused, camera covered',
+}
+
+// What to say about a change, or null to stay quiet. Faults and recovery are spoken by the health monitor.
+export function describeSessionChange(
+  update: SessionUpdate
+): { text: string; priority: AnnouncementPriority } | null {
+  const { state, change, summary } = update
+  switch (change) {
+    case 'started':
+      return { text: 'Navigation started', priority: 'warning' }
+    case 'stopped':
+      return { text: summary ? describeSummary(summary) : 'Navigation stopped', priority: 'warning' }
+    case 'paused': {
+      const text = state.pauseReason ? PAUSE_TEXT[state.pauseReason] : null
+      return text ? { text, priority: 'warning' } : null
+    }
+    case 'resumed':
+      return { text: 'Navigation resumed', priority: 'warning' }
+    default:
+      return null
+  }
+}
@@ -0,0 +1,296 @@
+import { CameraModel, estimateDistance } from '../utils/distance'
+import { AlertLevel, alertRank, analyzeDetection, DetectionOptions } from './detectionCore'
+import { Covariance } from './kalmanCore'
+import { MotionContext, NO_MOTION } from './motionCore'
+
+export type Box = [number, number, number, number] // [ymin, xmin, ymax, xmax], normalized
+
+export type TrackerDetection = {
+  height: number
+  confidence: number
+  centerX?: number
+  box?: Box
+  classId?: number | null
+  label?: string | null
+  urgent?: boolean
+}
+
+export type Track = {
+  id: number
+  box: Box
+  classId: number | null
+  label: string | null
+  urgent: boolean
+  height: number
+  confidence: number
+  centerX: number
+  heights: number[]
+  confidences: number[]
+  // When each height sample was taken, and how much it counts given how fast the phone was turning.
+  times: number[]
+  weights: number[]
+  detected: boolean
+  alertLevel: AlertLevel
+  smoothed: number
+  slope: number
+  // Of smoothed and slope, when the estimator tracks it.
+  sizeCovariance: Covariance | null
+  avgConfidence: number | null
+  // Metric distance samples and when they were taken; empty without a camera model.
+  distances: number[]
+  distanceTimes: number[]
+  distance: number | null
+  distanceSigma: number | null
+  closingSpeed: number | null
+  // Closing speed less the user's own walking speed, when the IMU reports it.
+  objectSpeed: number | null
+  // Seconds, Infinity when not approaching; ttcConfidence is 0..1.
+  timeToContact: number | null
+  ttcConfidence: number | null
+  hits: number
+  misses: number
+  bornAt: number
+  lastSeenAt: number
+}
+
+export type TrackerOptions = {
+  iouThreshold: number
+  maxMisses: number
+  detection: DetectionOptions
+  // Enables metric distance; without it tracks fall back to box height.
+  camera: CameraModel | null
+}
+
+export type TrackerState = {
+  tracks: Track[]
+  nextId: number
+}
+
+export type TrackerUpdate = {
+  state: TrackerState
+  born: number[]
+  died: number[]
+  changed: number[]
+}
+
+// Width assumed for detections that arrive without a box (fallback detections).
+const FALLBACK_BOX_WIDTH = 0.3
+
+export function createTrackerState(): TrackerState {
+  return { tracks: [], nextId: 1 }
+}
+
+export function boxOf(detection: TrackerDetection): Box {
+  if (detection.box) return detection.box
+  const centerX = detection.centerX ?? 0.5
+  const halfH = detection.height / 2
+  const halfW = FALLBACK_BOX_WIDTH / 2
+  return [0.5 - halfH, centerX - halfW, 0.5 + halfH, centerX + halfW]
+}
+
+export function iou(a: Box, b: Box): number {
+  const ymin = Math.max(a[0], b[0])
+  const xmin = Math.max(a[1], b[1])
+  const ymax = Math.min(a[2], b[2])
+  const xmax = Math.min(a[3], b[3])
+  const inter = Math.max(0, ymax - ymin) * Math.max(0, xmax - xmin)
+  const areaA = Math.max(0, a[2] - a[0]) * Math.max(0, a[3] - a[1])
+  const areaB = Math.max(0, b[2] - b[0]) * Math.max(0, b[3] - b[1])
+  const union = areaA + areaB - inter
+  return union <= 0 ? 0 : inter / union
+}
+
+export function updateTracks(
+  state: TrackerState,
+  detections: TrackerDetection[],
+  now: number,
+  options: TrackerOptions,
+  motion: MotionContext = NO_MOTION
+): TrackerUpdate {
+  const { iouThreshold, maxMisses } = options
+  const boxes = detections.map(boxOf)
+
+  // Greedy association: best-overlapping pairs first.
+  const pairs: { t: number; d: number; score: number }[] = []
+  for (let t = 0; t < state.tracks.length; t++) {
+    for (let d = 0; d < detections.length; d++) {
+      const score = iou(state.tracks[t].box, boxes[d])
+      if (score >= iouThreshold) pairs.push({ t, d, score })
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score)
+
+  const trackMatch = new Map<number, number>()
+  const usedDetections = new Set<number>()
+  for (const pair of pairs) {
+    if (trackMatch.has(pair.t) || usedDetections.has(pair.d)) continue
+    trackMatch.set(pair.t, pair.d)
+    usedDetections.add(pair.d)
+  }
+
+  const tracks: Track[] = []
+  const died: number[] = []
+  const changed: number[] = []
+
+  for (let t = 0; t < state.tracks.length; t++) {
+    const track = state.tracks[t]
+    const d = trackMatch.get(t)
+    if (d == null) {
+      const misses = track.misses + 1
+      if (misses > maxMisses) {
+        died.push(track.id)
+      } else {
+        tracks.push({ ...track, misses })
+      }
+      continue
+    }
+
+    const next = observe(track, detections[d], boxes[d], now, options, motion)
+    if (next.detected !== track.detected) changed.push(track.id)
+    tracks.push(next)
+  }
+
+  let nextId = state.nextId
+  const born: number[] = []
+  for (let d = 0; d < detections.length; d++) {
+    if (usedDetections.has(d)) continue
+    const fresh: Track = {
+      id: nextId++,
+      box: boxes[d],
+      classId: null,
+      label: null,
+      urgent: false,
+      height: 0,
+      confidence: 0,
+      centerX: 0.5,
+      heights: [],
+      confidences: [],
+      times: [],
+      weights: [],
+      detected: false,
+      alertLevel: 'none',
+      smoothed: 0,
+      slope: 0,
+      sizeCovariance: null,
+      avgConfidence: null,
+      distances: [],
+      distanceTimes: [],
+      distance: null,
+      distanceSigma: null,
+      closingSpeed: null,
+      objectSpeed: null,
+      timeToContact: null,
+      ttcConfidence: null,
+      hits: 0,
+      misses: 0,
+      bornAt: now,
+      lastSeenAt: now,
+    }
+    const track = observe(fresh, detections[d], boxes[d], now, options, motion)
+    if (track.detected) changed.push(track.id)
+    born.push(track.id)
+    tracks.push(track)
+  }
+
+  return { state: { tracks, nextId }, born, died, changed }
+}
+
+// Seconds until contact, capped by distance so a standing obstacle still ranks by how near it is.
+function urgency(track: Track): number {
+  if (track.distance == null) return -track.smoothed
+  return Math.min(track.timeToContact ?? Infinity, track.distance)
+}
+
+// The obstacle the user should hear about first: highest alert level, then urgent classes, then the soonest to reach.
+export function primaryTrack(tracks: Track[]): Track | null {
+  let best: Track | null = null
+  for (const track of tracks) {
+    if (!track.detected) continue
+    const rank = best == null ? 0 : alertRank(track.alertLevel) - alertRank(best.alertLevel)
+    if (
+      best == null ||
+      rank > 0 ||
+      (rank === 0 && track.urgent && !best.urgent) ||
+      (rank === 0 && track.urgent === best.urgent && urgency(track) < urgency(best))
+    ) {
+      best = track
+    }
+  }
+  return best
+}
+
+function observe(
+  track: Track,
+  detection: TrackerDetection,
+  box: Box,
+  now: number,
+  trackerOptions: TrackerOptions,
+  motion: MotionContext
+): Track {
+  const { detection: detectionOptions, camera } = trackerOptions
+  const urgent = detection.urgent === true
+  const label = detection.label ?? track.label
+
+  // Taken mid-turn: the box still keeps the track associated, but its size and position say nothing about range.
+  if (motion.weight <= 0) {
+    return { ...track, box, label, urgent, hits: track.hits + 1, misses: 0, lastSeenAt: now }
+  }
+
+  const frames = detectionOptions.frames
+  const heights = [...track.heights, detection.height].slice(-frames)
+  const confidences = [...track.confidences, detection.confidence].slice(-frames)
+  const times = [...track.times, now].slice(-frames)
+  const weights = [...track.weights, motion.weight].slice(-frames)
+
+  // Fallback detections have no real box, so their bottom edge says nothing about range.
+  const estimate = camera && detection.box ? estimateDistance(detection.box, label, camera) : null
+  let distances = track.distances
+  let distanceTimes = track.distanceTimes
+  if (estimate) {
+    distances = [...distances, estimate.meters].slice(-frames)
+    distanceTimes = [...distanceTimes, now].slice(-frames)
+  }
+
+  // Urgent classes (people, vehicles) count as obstacles on size alone, without waiting for an approach slope.
+  const options = urgent ? { ...detectionOptions, allowSizeOnly: true } : detectionOptions
+  const res = analyzeDetection(
+    heights,
+    confidences,
+    track.detected,
+    options,
+    { times, distances, distanceTimes, weights, walkingSpeed: motion.walkingSpeed, stationary: motion.stationary, urgent },
+    track.alertLevel
+  )
+
+  return {
+    ...track,
+    box,
+    classId: detection.classId ?? track.classId,
+    label,
+    urgent,
+    height: detection.height,
+    confidence: detection.confidence,
+    centerX: detection.centerX ?? (box[1] + box[3]) / 2,
+    heights,
+    confidences,
+    times,
+    weights,
+    detected: res.newDetected,
+    alertLevel: res.alertLevel,
+    smoothed: res.smoothed,
+    slope: res.slope,
+    sizeCovariance: res.covariance,
+    avgConfidence: res.avgConfidence,
+    distances,
+    distanceTimes,
+    distance: res.distance,
+    distanceSigma: estimate ? estimate.sigma : track.distanceSigma,
+    closingSpeed: res.closingSpeed,
+    objectSpeed: res.objectSpeed,
+    timeToContact: res.timeToContact?.seconds ?? null,
+    ttcConfidence: res.timeToContact?.confidence ?? null,
+    hits: track.hits + 1,
+    misses: 0,
+    lastSeenAt: now,
+  }
+}
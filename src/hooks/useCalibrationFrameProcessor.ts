@@ -0,0 +1,38 @@
+import { useFrameProcessor } from 'react-native-vision-camera'
+import { useRunOnJS, useSharedValue } from 'react-native-worklets-core'
+import { useResizePlugin } from 'vision-camera-resize-plugin'
+import { CameraModel } from '../utils/distance'
+import { GROUND_GRID, analyzeGround } from '../hooks/groundCore'
+
+// Fast enough to follow the wall between steps, cheap enough to leave the IMU alone.
+const CALIBRATION_INTERVAL_MS = 100
+
+// Floor analysis only, no model: reports where the wall meets the floor while the user walks toward it during setup.
+export function useCalibrationFrameProcessor(camera: CameraModel, onWallRow: (row: number | null, at: number) => void) {
+  const { resize } = useResizePlugin()
+  const lastAt = useSharedValue(0)
+
+  const report = useRunOnJS(onWallRow, [onWallRow])
+
+  return useFrameProcessor(
+    (frame) => {
+      'worklet'
+      const now = Date.now()
+      if (now - lastAt.value < CALIBRATION_INTERVAL_MS) return
+      lastAt.value = now
+
+      const small = resize(frame, {
+        scale: { width: GROUND_GRID, height: GROUND_GRID },
+        pixelFormat: 'rgb',
+        dataType: 'uint8',
+      })
+      const luma = new Array<number>(GROUND_GRID * GROUND_GRID)
+      for (let i = 0; i < luma.length; i++) {
+        luma[i] = 0.299 * small[i * 3] + 0.587 * small[i * 3 + 1] + 0.114 * small[i * 3 + 2]
+      }
+      const ground = analyzeGround(luma, GROUND_GRID, GROUND_GRID, camera)
+      report(ground.hazard === 'wall' ? ground.corridorEnd : null, now)
+    },
+    [camera, lastAt, report]
+  )
+}
@@ -1,108 +1,272 @@
+import * as Battery from 'expo-battery'
 import * as React from 'react'
 import { TensorflowModel } from 'react-native-fast-tflite'
 import { useFrameProcessor } from 'react-native-vision-camera'
-import { useRunOnJS } from 'react-native-worklets-core'
+import { useRunOnJS, useSharedValue } from 'react-native-worklets-core'
 import { useResizePlugin } from 'vision-camera-resize-plugin'
-import { useTensorFlowDetectionProcessor } from '../hooks/useTensorFlowDetectionProcessor'
+import { CameraModel } from '../utils/distance'
+import { sceneObjects } from '../utils/sceneDescription'
+import { LabelMap } from '../utils/labelMap'
+import { ModelManifest } from '../utils/modelManifest'
+import { OutputTensor, adaptModelOutputs } from '../utils/parseDetections'
+import { BoxDecision, CompactFilterResult, ModelOutputs, compactFilterResult, filterDetections } from '../hooks/filterCore'
+import { GROUND_GRID, GroundAnalysis, analyzeGround } from '../hooks/groundCore'
+import {
+  EMPTY_PIPELINE_METRICS,
+  INITIAL_PACER_STATE,
+  PacerState,
+  frameIntervalMs,
+  nextPacerState,
+  shouldProcessFrame,
+  targetInferenceFps,
+  thermalFactor,
+  updatePipelineMetrics,
+} from '../hooks/pacingCore'
+import { frameBrightness } from '../hooks/sessionCore'
+import { publishDetectionDebug } from '../hooks/useDetectionDebug'
+import { recordHealthFailure, recordHealthFrame, recordHealthHeartbeat } from '../hooks/useDetectionHealth'
+import { recordSessionBrightness, recordSessionFrame } from '../hooks/useNavigationSession'
+import { publishPipelineMetrics } from '../hooks/usePipelineMetrics'
+import { publishSceneObjects } from '../hooks/useSceneDescription'
+import { Detection, useTensorFlowDetectionProcessor } from '../hooks/useTensorFlowDetectionProcessor'
 
-interface Detection {
-  height: number
-  confidence: number
-}
-
-interface DetectionData {
-  boxes: any
-  classIds: any
-  confidenceScores: any
+interface FrameData {
+  result: CompactFilterResult
+  // Adapted model outputs, only sent while a session is being recorded.
+  modelOutputs: ModelOutputs | null
+  ground: GroundAnalysis | null
+  // Every box with its filter decision, only sent while the debug overlay is on.
+  decisions: BoxDecision[] | null
+  // Mean luma 0..1, for telling a covered camera from a dark room.
+  brightness: number
   frameCount: number
+  capturedAt: number
+  frames: number
+  resizeMs: number
+  inferenceMs: number
+  postprocessMs: number
 }
 
 interface CameraFrameProcessorProps {
   model: TensorflowModel | undefined
-  onDetection: (detection: Detection) => void
+  manifest: ModelManifest
+  labelMap: LabelMap
+  onDetections: (detections: Detection[]) => void
   onFallbackDetection: (detection: Detection) => void
+  onModelOutput?: ((outputs: ModelOutputs & { frameCount: number }) => void) | null
   cooldownMs: number
+  targetFps: number
+  minFps: number
+  // Floor analysis for drop-offs and walls runs alongside the detector when this is set.
+  onGroundAnalysis?: ((analysis: GroundAnalysis) => void) | null
+  camera?: CameraModel | null
+  // Publish every box and its filter decision for the debug overlay.
+  debug?: boolean
+  // Skip inference and only sample brightness, slowly, while the session is paused.
+  paused?: boolean
 }
 
+const METRICS_PUBLISH_MS = 1000
+// Brightness is averaged over a thumbnail this many cells a side.
+const BRIGHTNESS_GRID = 8
+const PAUSED_INTERVAL_MS = 500
+
 export function useCameraFrameProcessor({
   model,
-  onDetection,
+  manifest,
+  labelMap,
+  onDetections,
   onFallbackDetection,
-  cooldownMs
+  onModelOutput,
+  cooldownMs,
+  targetFps,
+  minFps,
+  onGroundAnalysis = null,
+  camera = null,
+  debug = false,
+  paused = false,
 }: CameraFrameProcessorProps) {
   const { resize } = useResizePlugin()
+  const { input, output } = manifest
   const frameCountRef = React.useRef(0)
-  const [detectionData, setDetectionData] = React.useState<DetectionData | null>(null)
+  const pacer = useSharedValue<PacerState>(INITIAL_PACER_STATE)
+  const metricsRef = React.useRef(EMPTY_PIPELINE_METRICS)
+  const lastPublishRef = React.useRef(0)
+  const [thermal, setThermal] = React.useState(1)
+
+  const power = Battery.usePowerState()
+  const charging = power.batteryState === Battery.BatteryState.CHARGING || power.batteryState === Battery.BatteryState.FULL
+  const fps = targetInferenceFps(
+    { targetFps, minFps },
+    { batteryLevel: power.batteryLevel, lowPowerMode: power.lowPowerMode, charging },
+    thermal
+  )
+  const intervalMs = frameIntervalMs(fps, cooldownMs)
+
+  React.useEffect(() => {
+    console.log(`Inference paced at ${fps.toFixed(1)} fps (${Math.round(intervalMs)}ms)`)
+  }, [fps, intervalMs])
 
-  // Create a worklet function that passes detection data to React side
-  const updateDetectionData = useRunOnJS((data: DetectionData) => {
-    setDetectionData(data)
+  const { filterOptions, handleResult } = useTensorFlowDetectionProcessor({
+    labelMap,
+    onDetections,
+    onFallbackDetection,
+    onError: recordHealthFailure,
+  })
+  const recordOutputs = onModelOutput != null
+  const analyseGround = onGroundAnalysis != null
+
+  React.useEffect(() => {
+    if (!debug) publishDetectionDebug(null)
+  }, [debug])
+
+  const handleFailure = useRunOnJS((message: string, at: number) => {
+    recordHealthFailure(message, at)
   }, [])
 
+  const handleBrightness = useRunOnJS((brightness: number, capturedAt: number) => {
+    recordSessionBrightness(brightness, capturedAt)
+    recordHealthHeartbeat(capturedAt)
+  }, [])
+
+  // Called only for frames the pacer let through, with results already decoded and filtered.
+  const handleFrame = useRunOnJS((data: FrameData) => {
+    const { result, frameCount } = data
+    recordSessionFrame(data.capturedAt)
+    recordSessionBrightness(data.brightness, data.capturedAt)
+    recordHealthFrame(
+      data.capturedAt,
+      data.resizeMs + data.inferenceMs + data.postprocessMs,
+      result.fallback != null || result.rejected.some(d => d.reason === 'malformed-box')
+    )
+    if (frameCount <= 3 || frameCount % 30 === 0) {
+      console.log(`Frame ${frameCount} (${manifest.id}): ${result.candidates} candidates, ${result.detections.length} in path, threshold ${result.threshold.toFixed(3)}`)
+    }
+    if (data.modelOutputs) onModelOutput?.({ ...data.modelOutputs, frameCount })
+    handleResult(result, frameCount)
+    publishSceneObjects(sceneObjects(result), data.capturedAt)
+    if (data.ground) onGroundAnalysis?.(data.ground)
+    if (data.decisions) {
+      publishDetectionDebug({ decisions: data.decisions, threshold: result.threshold, capturedAt: data.capturedAt, intervalMs })
+    }
+
+    const finishedAt = Date.now()
+    metricsRef.current = updatePipelineMetrics(metricsRef.current, {
+      capturedAt: data.capturedAt,
+      frames: data.frames,
+      resizeMs: data.resizeMs,
+      inferenceMs: data.inferenceMs,
+      postprocessMs: data.postprocessMs,
+      finishedAt,
+    })
+    if (finishedAt - lastPublishRef.current >= METRICS_PUBLISH_MS) {
+      lastPublishRef.current = finishedAt
+      publishPipelineMetrics(metricsRef.current)
+      setThermal(thermalFactor(metricsRef.current))
+    }
+  }, [manifest.id, onModelOutput, onGroundAnalysis, handleResult, intervalMs])
+
   const frameProcessor = useFrameProcessor(
     (frame) => {
       'worklet'
       
       frameCountRef.current++
-      
+
+      const thumbnail = () => frameBrightness(resize(frame, {
+        scale: { width: BRIGHTNESS_GRID, height: BRIGHTNESS_GRID },
+        pixelFormat: 'rgb',
+        dataType: 'uint8',
+      }))
+
+      // Decide before resizing, so skipped frames cost nothing.
+      const start = Date.now()
+      const state = pacer.value
+      if (!shouldProcessFrame(state, start, paused ? PAUSED_INTERVAL_MS : intervalMs)) {
+        pacer.value = nextPacerState(state, false, start, 0)
+        return
+      }
+
+      if (paused) {
+        const brightness = thumbnail()
+        pacer.value = nextPacerState(state, true, start, Date.now() - start)
+        handleBrightness(brightness, start)
+        return
+      }
+
       if (model == null) {
         return
       }
       
-      const resized = resize(frame, {
-        scale: {
-          width: 320,
-          height: 320,
-        },
-        pixelFormat: 'rgb',
-        dataType: 'uint8',
-      })
-      
-      const result = model.runSync([resized])
-      
-      const boxes = result[0]
-      const classIds = result[1] 
-      const confidenceScores = result[2]
-      
-      if (frameCountRef.current <= 3 || frameCountRef.current % 30 === 0) {
-        let highConfCount = 0
-        let bestConf = 0
-        if (confidenceScores) {
-          for (let i = 0; i < confidenceScores.length; i++) {
-            const conf = Number(confidenceScores[i])
-            if (conf > 0.2) highConfCount++
-            if (conf > bestConf) bestConf = conf
+      try {
+        const resized = resize(frame, {
+          scale: {
+            width: input.width,
+            height: input.height,
+          },
+          pixelFormat: input.pixelFormat,
+          dataType: input.dataType,
+        })
+
+        const normalization = input.normalization
+        if (normalization) {
+          for (let i = 0; i < resized.length; i++) {
+            resized[i] = (resized[i] - normalization.mean) / normalization.std
           }
         }
-        console.log(`Frame ${frameCountRef.current}: ${highConfCount} detections (>0.2 confidence), best: ${bestConf.toFixed(3)}`)
-      }
 
-      if (boxes && confidenceScores) {
-        const boxesArray = Array.isArray(boxes) ? boxes : [...(boxes || [])]
-        const classIdsArray = Array.isArray(classIds) ? classIds : [...(classIds || [])]
-        const confidenceScoresArray = Array.isArray(confidenceScores) ? confidenceScores : [...(confidenceScores || [])]
-        
-        updateDetectionData({
-          boxes: boxesArray,
-          classIds: classIdsArray,
-          confidenceScores: confidenceScoresArray,
-          frameCount: frameCountRef.current
+        const resizedAt = Date.now()
+        const result = model.runSync([resized])
+        const inferredAt = Date.now()
+
+        // Explicit layouts read the typed arrays in place; only shape detection needs plain arrays.
+        const tensors: OutputTensor[] = []
+        for (let i = 0; i < result.length; i++) {
+          const tensor = result[i]
+          tensors.push(output.layout !== 'auto' ? tensor : Array.from(tensor, Number))
+        }
+        const adapted = adaptModelOutputs(tensors, output)
+        const decided = filterDetections(adapted, filterOptions)
+        const filtered = compactFilterResult(decided)
+
+        let ground: GroundAnalysis | null = null
+        if (analyseGround) {
+          const small = resize(frame, {
+            scale: { width: GROUND_GRID, height: GROUND_GRID },
+            pixelFormat: 'rgb',
+            dataType: 'uint8',
+          })
+          const luma = new Array<number>(GROUND_GRID * GROUND_GRID)
+          for (let i = 0; i < luma.length; i++) {
+            luma[i] = 0.299 * small[i * 3] + 0.587 * small[i * 3 + 1] + 0.114 * small[i * 3 + 2]
+          }
+          ground = analyzeGround(luma, GROUND_GRID, GROUND_GRID, camera)
+        }
+        const brightness = thumbnail()
+        const filteredAt = Date.now()
+        pacer.value = nextPacerState(state, true, start, filteredAt - start)
+
+        handleFrame({
+          result: filtered,
+          modelOutputs: recordOutputs ? adapted : null,
+          ground,
+          decisions: debug ? decided.decisions : null,
+          brightness,
+          frameCount: frameCountRef.current,
+          capturedAt: start,
+          frames: state.skipped + 1,
+          resizeMs: resizedAt - start,
+          inferenceMs: inferredAt - resizedAt,
+          postprocessMs: filteredAt - inferredAt,
         })
+      } catch (e) {
+        // A model that throws must not look like an empty road.
+        pacer.value = nextPacerState(state, true, start, Date.now() - start)
+        handleFailure(String(e), start)
       }
     },
-    [model, updateDetectionData]
+    [model, input, output, filterOptions, recordOutputs, analyseGround, debug, paused, camera, intervalMs, pacer, handleFrame, handleBrightness, handleFailure]
   )
 
-  useTensorFlowDetectionProcessor({
-    boxes: detectionData?.boxes,
-    classIds: detectionData?.classIds,
-    confidenceScores: detectionData?.confidenceScores,
-    frameCount: detectionData?.frameCount || 0,
-    onDetection,
-    onFallbackDetection,
-    cooldownMs
-  })
-
   return frameProcessor
 }
 
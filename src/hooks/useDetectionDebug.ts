@@ -0,0 +1,32 @@
+import * as React from 'react'
+
+import { BoxDecision } from './filterCore'
+
+export type DetectionDebugFrame = {
+  // Every box the model returned for the last processed frame, accepted or not.
+  decisions: BoxDecision[]
+  threshold: number
+  capturedAt: number
+  // Pacing interval at the time; boxes much older than this are from before a cooldown.
+  intervalMs: number
+}
+
+// Published by the frame processor for each processed frame while the debug overlay is on.
+let frame: DetectionDebugFrame | null = null
+const listeners = new Set<() => void>()
+
+export function publishDetectionDebug(next: DetectionDebugFrame | null) {
+  frame = next
+  listeners.forEach(listener => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function useDetectionDebug(): DetectionDebugFrame | null {
+  return React.useSyncExternalStore(subscribe, () => frame)
+}
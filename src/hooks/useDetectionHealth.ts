@@ -0,0 +1,98 @@
+import * as React from 'react'
+
+import {
+  addHealthHeartbeat,
+  addHealthSample,
+  assessHealth,
+  describeHealthChange,
+  HealthIssue,
+  HealthLevel,
+  HealthOptions,
+  HealthSample,
+  HealthSignals,
+  HealthUpdate,
+  INITIAL_HEALTH_STATE,
+} from './healthCore'
+import { SessionNotice } from './useNavigationSession'
+
+export type HealthSnapshot = {
+  level: HealthLevel
+  issue: HealthIssue | null
+  // Latest fault, reminder or recovery to speak and feel.
+  notice: SessionNotice | null
+}
+
+// How often the watchdog looks at recent frames.
+const TICK_MS = 1000
+
+// Samples arrive with every frame, so subscribers only hear about level changes and notices.
+let state = INITIAL_HEALTH_STATE
+let options: HealthOptions | null = null
+let snapshot: HealthSnapshot = { level: 'ok', issue: null, notice: null }
+const listeners = new Set<() => void>()
+
+function apply(update: HealthUpdate, now: number) {
+  const previous = state
+  state = update.state
+  if (!update.change && previous.level === state.level && previous.issue === state.issue) return
+  const description = describeHealthChange(update)
+  if (update.change) console.warn(`Detection health ${update.change}:`, { level: state.level, issue: state.issue })
+  snapshot = {
+    level: state.level,
+    issue: state.issue,
+    notice: description ? { ...description, at: now } : snapshot.notice,
+  }
+  listeners.forEach(listener => listener())
+}
+
+function record(sample: HealthSample) {
+  if (options) state = addHealthSample(state, sample, options)
+}
+
+// Called by the frame processor for every analysed frame.
+export function recordHealthFrame(at: number, latencyMs: number, malformed: boolean) {
+  record({ at, latencyMs, malformed, failed: false })
+}
+
+// Called for frames that are only checked for brightness while the session is paused.
+export function recordHealthHeartbeat(at: number) {
+  state = addHealthHeartbeat(state, at)
+}
+
+// Called when running the model or handling its result threw, instead of swallowing the error.
+export function recordHealthFailure(error: unknown, at: number = Date.now()) {
+  console.warn('Detection failed:', error)
+  record({ at, latencyMs: null, malformed: false, failed: true })
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function useHealthSnapshot(): HealthSnapshot {
+  return React.useSyncExternalStore(subscribe, () => snapshot)
+}
+
+// Watches model load, session faults, frame arrival and recent frames, so a broken pipeline is never mistaken for a
+// clear path.
+export function useDetectionHealth(signals: HealthSignals, healthOptions: HealthOptions): HealthSnapshot {
+  const current = useHealthSnapshot()
+  const { model, fault, active, expectFrames } = signals
+
+  React.useEffect(() => {
+    options = healthOptions
+    const tick = () => {
+      const now = Date.now()
+      apply(assessHealth(state, { model, fault, active, expectFrames }, now, healthOptions), now)
+    }
+    // Model and session faults are reported right away rather than on the next tick.
+    tick()
+    const timer = setInterval(tick, TICK_MS)
+    return () => clearInterval(timer)
+  }, [model, fault, active, expectFrames, healthOptions])
+
+  return current
+}
@@ -0,0 +1,78 @@
+import { DeviceMotion } from 'expo-sensors'
+import * as React from 'react'
+
+import {
+  INITIAL_MOTION_STATE,
+  MotionContext,
+  MotionOptions,
+  MotionSample,
+  MotionState,
+  motionContext,
+  updateMotionState,
+} from './motionCore'
+import { screenFacing } from './sessionCore'
+
+// Fast enough to catch each heel strike while walking.
+const MOTION_INTERVAL_MS = 40
+
+// Read by the tracker for each frame; raw samples also go to the session recorder.
+let state: MotionState = INITIAL_MOTION_STATE
+// Which way the screen faces, for pausing the session when the phone is put face down.
+let facing: number | null = null
+const sampleListeners = new Set<(sample: MotionSample) => void>()
+
+export function currentMotion(options: MotionOptions, now = Date.now()): MotionContext {
+  return motionContext(state, now, options)
+}
+
+export function currentFacing(): number | null {
+  return facing
+}
+
+export function onMotionSample(listener: (sample: MotionSample) => void) {
+  sampleListeners.add(listener)
+  return () => {
+    sampleListeners.delete(listener)
+  }
+}
+
+export function useDeviceMotion(enabled: boolean) {
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let cancelled = false
+    let subscription: { remove: () => void } | null = null
+    const start = async () => {
+      if (!(await DeviceMotion.isAvailableAsync())) {
+        console.log('Device motion is not available; frames are used without motion compensation')
+        return
+      }
+      const { granted } = await DeviceMotion.requestPermissionsAsync()
+      if (!granted || cancelled) {
+        if (!granted) console.log('Motion permission denied; frames are used without motion compensation')
+        return
+      }
+      DeviceMotion.setUpdateInterval(MOTION_INTERVAL_MS)
+      subscription = DeviceMotion.addListener(measurement => {
+        const { rotation, rotationRate, acceleration } = measurement
+        if (rotation) facing = screenFacing(rotation.beta, rotation.gamma)
+        if (!rotationRate || !acceleration) return
+        const sample: MotionSample = {
+          t: Date.now(),
+          rotation: [rotationRate.alpha, rotationRate.beta, rotationRate.gamma],
+          acceleration: [acceleration.x, acceleration.y, acceleration.z],
+        }
+        state = updateMotionState(state, sample)
+        sampleListeners.forEach(listener => listener(sample))
+      })
+    }
+    start().catch(e => console.log('Device motion failed:', e))
+
+    return () => {
+      cancelled = true
+      subscription?.remove()
+      state = INITIAL_MOTION_STATE
+      facing = null
+    }
+  }, [enabled])
+}
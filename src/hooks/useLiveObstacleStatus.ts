@@ -0,0 +1,51 @@
+import * as React from 'react'
+
+import { AlertLevel } from './detectionCore'
+import { GroundHazardKind } from './groundCore'
+
+export type LiveObstacleStatus = {
+  detected: boolean
+  alertLevel: AlertLevel
+  // Drop-off or wall from the floor analysis.
+  hazard: GroundHazardKind | null
+  label: string | null
+  smoothed: number | null
+  slope: number | null
+  distance: number | null
+  timeToContact: number | null
+  trackCount: number
+  updatedAt: number | null
+}
+
+const EMPTY_STATUS: LiveObstacleStatus = {
+  detected: false,
+  alertLevel: 'none',
+  hazard: null,
+  label: null,
+  smoothed: null,
+  slope: null,
+  distance: null,
+  timeToContact: null,
+  trackCount: 0,
+  updatedAt: null,
+}
+
+// The camera screen stays mounted under the settings screen, so it publishes here for live tuning.
+let status = EMPTY_STATUS
+const listeners = new Set<() => void>()
+
+export function publishLiveObstacleStatus(next: Omit<LiveObstacleStatus, 'updatedAt'>) {
+  status = { ...next, updatedAt: Date.now() }
+  listeners.forEach(listener => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function useLiveObstacleStatus(): LiveObstacleStatus {
+  return React.useSyncExternalStore(subscribe, () => status)
+}
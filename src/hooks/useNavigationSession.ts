@@ -0,0 +1,132 @@
+import * as React from 'react'
+import { AppState } from 'react-native'
+
+import { AnnouncementPriority } from '../utils/announcementQueue'
+import {
+  describeSessionChange,
+  INITIAL_SESSION_STATE,
+  SessionEvent,
+  SessionFault,
+  SessionOptions,
+  SessionState,
+  SessionSummary,
+  SessionUpdate,
+  tickSession,
+  updateSession,
+} from './sessionCore'
+import { currentFacing } from './useDeviceMotion'
+
+export type SessionNotice = {
+  text: string
+  priority: AnnouncementPriority
+  at: number
+}
+
+export type SessionSnapshot = {
+  state: SessionState
+  // Latest confirmation or warning to speak.
+  notice: SessionNotice | null
+  // Of the last session that stopped.
+  summary: SessionSummary | null
+}
+
+// How often pause, resume and stall conditions are checked.
+const TICK_MS = 250
+// Brightness older than this says nothing about whether the camera is covered now.
+const MAX_BRIGHTNESS_AGE_MS = 1000
+
+// Frame and alert counters change many times a second, so subscribers only hear about status changes and notices.
+let state: SessionState = INITIAL_SESSION_STATE
+let snapshot: SessionSnapshot = { state, notice: null, summary: null }
+let brightness: { value: number; at: number } | null = null
+let lastFrameAt: number | null = null
+const listeners = new Set<() => void>()
+
+function apply(update: SessionUpdate, now: number) {
+  state = update.state
+  if (!update.change) return
+  const description = describeSessionChange(update)
+  snapshot = {
+    state,
+    notice: description ? { ...description, at: now } : snapshot.notice,
+    summary: update.summary ?? snapshot.summary,
+  }
+  listeners.forEach(listener => listener())
+}
+
+function dispatch(event: SessionEvent) {
+  const now = Date.now()
+  apply(updateSession(state, event, now), now)
+}
+
+export function startSession() {
+  dispatch({ type: 'start' })
+}
+
+export function stopSession() {
+  dispatch({ type: 'stop' })
+}
+
+export function toggleSession() {
+  dispatch({ type: state.status === 'idle' ? 'start' : 'stop' })
+}
+
+export function reportSessionFault(fault: SessionFault) {
+  dispatch({ type: 'fault', fault })
+}
+
+export function recordSessionAlert() {
+  dispatch({ type: 'alert' })
+}
+
+// Called by the frame processor for every analysed frame.
+export function recordSessionFrame(at: number) {
+  lastFrameAt = at
+  dispatch({ type: 'frame' })
+}
+
+// Sampled from every processed frame, and slowly while paused so uncovering the camera can resume.
+export function recordSessionBrightness(value: number, at: number) {
+  brightness = { value, at }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function useSessionSnapshot(): SessionSnapshot {
+  return React.useSyncExternalStore(subscribe, () => snapshot)
+}
+
+// Drives auto-pause, resume and stall detection for as long as a session is open. Until the camera and model are
+// ready, missing frames are expected and do not count as a stall.
+export function useNavigationSession(options: SessionOptions, ready: boolean): SessionSnapshot {
+  const current = useSessionSnapshot()
+  const open = current.state.status !== 'idle'
+
+  React.useEffect(() => {
+    if (!open) return
+    const readySince = Date.now()
+    const tick = () => {
+      const now = Date.now()
+      apply(tickSession(state, {
+        facing: currentFacing(),
+        brightness: brightness && now - brightness.at <= MAX_BRIGHTNESS_AGE_MS ? brightness.value : null,
+        background: AppState.currentState !== 'active',
+        lastFrameAt: ready ? Math.max(lastFrameAt ?? 0, readySince) : now,
+      }, now, options), now)
+    }
+    const timer = setInterval(tick, TICK_MS)
+    // Going to the background pauses right away rather than on the next tick.
+    const subscription = AppState.addEventListener('change', tick)
+    return () => {
+      clearInterval(timer)
+      subscription.remove()
+    }
+  }, [open, ready, options])
+
+  return current
+}
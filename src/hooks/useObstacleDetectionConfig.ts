@@ -1,36 +1,96 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
 import * as React from 'react'
 
-export interface ObstacleDetectionConfig {
-  OBSTACLE_THRESHOLD: number
-  OBSTACLE_MIN_CONFIDENCE: number
-  OBSTACLE_HYSTERESIS: number
-  OBSTACLE_FRAMES: number
-  OBSTACLE_SMOOTHING_WINDOW: number
-  OBSTACLE_MIN_SLOPE: number
-  OBSTACLE_SUDDEN_DELTA: number
-  OBSTACLE_ALLOW_SIZE_ONLY: boolean
-  OBSTACLE_SPEECH_CONFIDENCE: number
-  OBSTACLE_HAPTIC_REPEAT_MS: number
-  DETECTION_COOLDOWN_MS: number
+import {
+  ConfigSnapshot,
+  createConfigStore,
+  ObstacleDetectionConfig,
+  RawConfig,
+} from '../utils/configStore'
+
+export type { ObstacleDetectionConfig } from '../utils/configStore'
+
+// Each variable is read by name so the bundler can inline it.
+function readConfigEnv(): RawConfig {
+  return {
+    OBSTACLE_ESTIMATOR: process.env.OBSTACLE_ESTIMATOR,
+    OBSTACLE_THRESHOLD: process.env.OBSTACLE_THRESHOLD,
+    OBSTACLE_MIN_CONFIDENCE: process.env.OBSTACLE_MIN_CONFIDENCE,
+    OBSTACLE_HYSTERESIS: process.env.OBSTACLE_HYSTERESIS,
+    OBSTACLE_FRAMES: process.env.OBSTACLE_FRAMES,
+    OBSTACLE_SMOOTHING_WINDOW: process.env.OBSTACLE_SMOOTHING_WINDOW,
+    OBSTACLE_MIN_SLOPE: process.env.OBSTACLE_MIN_SLOPE,
+    OBSTACLE_SUDDEN_DELTA: process.env.OBSTACLE_SUDDEN_DELTA,
+    OBSTACLE_ALLOW_SIZE_ONLY: process.env.OBSTACLE_ALLOW_SIZE_ONLY,
+    OBSTACLE_TRIGGER_DISTANCE_M: process.env.OBSTACLE_TRIGGER_DISTANCE_M,
+    OBSTACLE_DISTANCE_HYSTERESIS_M: process.env.OBSTACLE_DISTANCE_HYSTERESIS_M,
+    OBSTACLE_TTC_CAUTION_S: process.env.OBSTACLE_TTC_CAUTION_S,
+    OBSTACLE_TTC_S: process.env.OBSTACLE_TTC_S,
+    OBSTACLE_TTC_IMMINENT_S: process.env.OBSTACLE_TTC_IMMINENT_S,
+    OBSTACLE_TTC_HYSTERESIS: process.env.OBSTACLE_TTC_HYSTERESIS,
+    OBSTACLE_TTC_MIN_CONFIDENCE: process.env.OBSTACLE_TTC_MIN_CONFIDENCE,
+    OBSTACLE_MIN_CLOSING_SPEED: process.env.OBSTACLE_MIN_CLOSING_SPEED,
+    OBSTACLE_GROUND_HAZARDS: process.env.OBSTACLE_GROUND_HAZARDS,
+    OBSTACLE_HAZARD_DISTANCE_M: process.env.OBSTACLE_HAZARD_DISTANCE_M,
+    OBSTACLE_HAZARD_FRAMES: process.env.OBSTACLE_HAZARD_FRAMES,
+    OBSTACLE_MOTION_COMPENSATION: process.env.OBSTACLE_MOTION_COMPENSATION,
+    OBSTACLE_MAX_ROTATION_DEG_S: process.env.OBSTACLE_MAX_ROTATION_DEG_S,
+    CAMERA_VERTICAL_FOV_DEG: process.env.CAMERA_VERTICAL_FOV_DEG,
+    CAMERA_TILT_DEG: process.env.CAMERA_TILT_DEG,
+    CAMERA_HEIGHT_M: process.env.CAMERA_HEIGHT_M,
+    OBSTACLE_CENTER_TOLERANCE: process.env.OBSTACLE_CENTER_TOLERANCE,
+    OBSTACLE_MIN_BOX_HEIGHT: process.env.OBSTACLE_MIN_BOX_HEIGHT,
+    OBSTACLE_MIN_BOX_WIDTH: process.env.OBSTACLE_MIN_BOX_WIDTH,
+    OBSTACLE_BASE_CONFIDENCE_FACTOR: process.env.OBSTACLE_BASE_CONFIDENCE_FACTOR,
+    OBSTACLE_BUSY_SCENE_COUNT: process.env.OBSTACLE_BUSY_SCENE_COUNT,
+    OBSTACLE_BUSY_CONFIDENCE_FACTOR: process.env.OBSTACLE_BUSY_CONFIDENCE_FACTOR,
+    OBSTACLE_VERY_BUSY_SCENE_COUNT: process.env.OBSTACLE_VERY_BUSY_SCENE_COUNT,
+    OBSTACLE_VERY_BUSY_CONFIDENCE_FACTOR: process.env.OBSTACLE_VERY_BUSY_CONFIDENCE_FACTOR,
+    OBSTACLE_FALLBACK_ENABLED: process.env.OBSTACLE_FALLBACK_ENABLED,
+    OBSTACLE_FALLBACK_HEIGHT: process.env.OBSTACLE_FALLBACK_HEIGHT,
+    OBSTACLE_FALLBACK_MIN_CONFIDENCE: process.env.OBSTACLE_FALLBACK_MIN_CONFIDENCE,
+    OBSTACLE_TRACK_IOU: process.env.OBSTACLE_TRACK_IOU,
+    OBSTACLE_TRACK_MAX_MISSES: process.env.OBSTACLE_TRACK_MAX_MISSES,
+    OBSTACLE_SPEECH_ENABLED: process.env.OBSTACLE_SPEECH_ENABLED,
+    OBSTACLE_SPEECH_CONFIDENCE: process.env.OBSTACLE_SPEECH_CONFIDENCE,
+    OBSTACLE_SPEECH_RATE: process.env.OBSTACLE_SPEECH_RATE,
+    OBSTACLE_HAPTIC_REPEAT_MS: process.env.OBSTACLE_HAPTIC_REPEAT_MS,
+    OBSTACLE_HAPTIC_MIN_INTERVAL_MS: process.env.OBSTACLE_HAPTIC_MIN_INTERVAL_MS,
+    OBSTACLE_HAPTIC_MAX_INTERVAL_MS: process.env.OBSTACLE_HAPTIC_MAX_INTERVAL_MS,
+    OBSTACLE_DIRECTIONAL_HAPTICS: process.env.OBSTACLE_DIRECTIONAL_HAPTICS,
+    OBSTACLE_HAPTIC_INTENSITY: process.env.OBSTACLE_HAPTIC_INTENSITY,
+    OBSTACLE_HAPTIC_QUIET: process.env.OBSTACLE_HAPTIC_QUIET,
+    OBSTACLE_AUDIO_CUES_ENABLED: process.env.OBSTACLE_AUDIO_CUES_ENABLED,
+    OBSTACLE_AUDIO_CUES_VOLUME: process.env.OBSTACLE_AUDIO_CUES_VOLUME,
+    OBSTACLE_CLEAR_PATH_HINT: process.env.OBSTACLE_CLEAR_PATH_HINT,
+    OBSTACLE_SONIFICATION_ENABLED: process.env.OBSTACLE_SONIFICATION_ENABLED,
+    OBSTACLE_SONIFICATION_PULSED: process.env.OBSTACLE_SONIFICATION_PULSED,
+    OBSTACLE_SONIFICATION_VOLUME: process.env.OBSTACLE_SONIFICATION_VOLUME,
+    DETECTION_MODEL: process.env.DETECTION_MODEL,
+    DETECTION_COOLDOWN_MS: process.env.DETECTION_COOLDOWN_MS,
+    DETECTION_TARGET_FPS: process.env.DETECTION_TARGET_FPS,
+    DETECTION_MIN_FPS: process.env.DETECTION_MIN_FPS,
+    DETECTION_RECORD_SESSIONS: process.env.DETECTION_RECORD_SESSIONS,
+    DETECTION_AUTO_START: process.env.DETECTION_AUTO_START,
+    DETECTION_AUTO_PAUSE: process.env.DETECTION_AUTO_PAUSE,
+    DETECTION_DEBUG_OVERLAY: process.env.DETECTION_DEBUG_OVERLAY,
+    DETECTION_LOG_URL: process.env.DETECTION_LOG_URL,
+    DETECTION_LOG_BATCH_SIZE: process.env.DETECTION_LOG_BATCH_SIZE,
+    DETECTION_LOG_SEND_IMMEDIATE: process.env.DETECTION_LOG_SEND_IMMEDIATE,
+    DETECTION_LOG_MAX: process.env.DETECTION_LOG_MAX,
+  }
 }
 
+export const obstacleConfigStore = createConfigStore({
+  env: readConfigEnv(),
+  preset: process.env.OBSTACLE_PRESET,
+  storage: AsyncStorage,
+})
+
 export function useObstacleDetectionConfig(): ObstacleDetectionConfig {
-  return React.useMemo(() => {
-    const config: ObstacleDetectionConfig = {
-      OBSTACLE_THRESHOLD: parseFloat(process.env.OBSTACLE_THRESHOLD ?? '0.4'),
-      OBSTACLE_MIN_CONFIDENCE: parseFloat(process.env.OBSTACLE_MIN_CONFIDENCE ?? '0.45'),
-      OBSTACLE_HYSTERESIS: parseFloat(process.env.OBSTACLE_HYSTERESIS ?? '0.12'),
-      OBSTACLE_FRAMES: parseInt(process.env.OBSTACLE_FRAMES ?? '12', 10),
-      OBSTACLE_SMOOTHING_WINDOW: parseInt(process.env.OBSTACLE_SMOOTHING_WINDOW ?? '6', 10),
-      OBSTACLE_MIN_SLOPE: parseFloat(process.env.OBSTACLE_MIN_SLOPE ?? '0.008'),
-      OBSTACLE_SUDDEN_DELTA: parseFloat(process.env.OBSTACLE_SUDDEN_DELTA ?? '0.15'),
-      OBSTACLE_ALLOW_SIZE_ONLY: (process.env.OBSTACLE_ALLOW_SIZE_ONLY ?? 'false') === 'true',
-      OBSTACLE_SPEECH_CONFIDENCE: parseFloat(process.env.OBSTACLE_SPEECH_CONFIDENCE ?? '0.8'),
-      OBSTACLE_HAPTIC_REPEAT_MS: parseInt(process.env.OBSTACLE_HAPTIC_REPEAT_MS ?? '2000', 10),
-      DETECTION_COOLDOWN_MS: parseInt(process.env.DETECTION_COOLDOWN_MS ?? '150', 10),
-    }
+  return React.useSyncExternalStore(obstacleConfigStore.subscribe, obstacleConfigStore.getConfig)
+}
 
-    console.log('Loaded obstacle detection config:', config)
-    return config
-  }, [])
+export function useObstacleConfigSnapshot(): ConfigSnapshot {
+  return React.useSyncExternalStore(obstacleConfigStore.subscribe, obstacleConfigStore.getSnapshot)
 }
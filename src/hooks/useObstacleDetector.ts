@@ -1,60 +1,63 @@
 import * as React from 'react'
-import { analyzeDetection, DetectionOptions } from './detectionCore'
+import { clearPathSide } from '../utils/directionalCues'
+import { CameraModel } from '../utils/distance'
+import { AlertLevel, alertRank, DetectionOptions } from './detectionCore'
+import { GroundAnalysis, GroundHazard, HazardOptions, HazardState, INITIAL_HAZARD_STATE, updateHazardState } from './groundCore'
+import { DEFAULT_MOTION_OPTIONS, MotionOptions, NO_MOTION } from './motionCore'
+import {
+  Box,
+  createTrackerState,
+  primaryTrack,
+  Track,
+  TrackerDetection,
+  TrackerOptions,
+  TrackerState,
+  updateTracks,
+} from './trackerCore'
+import { currentMotion } from './useDeviceMotion'
+import { publishLiveObstacleStatus } from './useLiveObstacleStatus'
+import { useObstacleDetectionConfig } from './useObstacleDetectionConfig'
+import { useTelemetry } from './useTelemetry'
 
-function average(arr: number[]) {
-  if (arr.length === 0) return 0
-  let s = 0
-  for (let i = 0; i < arr.length; i++) s += arr[i]
-  return s / arr.length
+interface ObstacleDetectorProps {
+  // Model name attached to uploaded telemetry.
+  model?: string | null
+  // Geometry for metric distance; without it obstacles are judged by box height.
+  camera?: CameraModel | null
 }
 
-export function useObstacleDetector() {
-  const OBSTACLE_FRAMES = React.useMemo(() => {
-    const v = parseInt(process.env.OBSTACLE_FRAMES ?? '5', 10)
-    return Number.isFinite(v) && v > 1 ? Math.min(v, 30) : 5
-  }, [])
-
-  const OBSTACLE_THRESHOLD = React.useMemo(() => {
-    const v = parseFloat(process.env.OBSTACLE_THRESHOLD ?? '0.35')
-    return Number.isFinite(v) && v >= 0 && v <= 1 ? v : 0.35
-  }, [])
-
-  const OBSTACLE_HYSTERESIS = React.useMemo(() => {
-    const v = parseFloat(process.env.OBSTACLE_HYSTERESIS ?? '0.05')
-    return Number.isFinite(v) && v >= 0 && v <= 1 ? v : 0.05
-  }, [])
-
-  const OBSTACLE_SUDDEN_DELTA = React.useMemo(() => {
-    const v = parseFloat(process.env.OBSTACLE_SUDDEN_DELTA ?? '0.08')
-    return Number.isFinite(v) && v >= 0 ? v : 0.08
-  }, [])
-
-  const OBSTACLE_MIN_CONFIDENCE = React.useMemo(() => {
-    const v = parseFloat(process.env.OBSTACLE_MIN_CONFIDENCE ?? '0.4')
-    return Number.isFinite(v) && v >= 0 && v <= 1 ? v : 0.4
-  }, [])
-
-  const OBSTACLE_SPEECH_CONFIDENCE = React.useMemo(() => {
-    const v = parseFloat(process.env.OBSTACLE_SPEECH_CONFIDENCE ?? '0.8')
-    return Number.isFinite(v) && v >= 0 && v <= 1 ? v : 0.8
-  }, [])
-
-  const OBSTACLE_MIN_SLOPE = React.useMemo(() => {
-    const v = parseFloat(process.env.OBSTACLE_MIN_SLOPE ?? '0.002')
-    return Number.isFinite(v) && v >= 0 ? v : 0.002
-  }, [])
-
-  const OBSTACLE_ALLOW_SIZE_ONLY = React.useMemo(() => {
-    const v = process.env.OBSTACLE_ALLOW_SIZE_ONLY ?? 'true'
-    return v === 'true' || v === '1'
-  }, [])
-
-  const SMOOTHING_WINDOW = React.useMemo(() => {
-    const v = parseInt(process.env.OBSTACLE_SMOOTHING_WINDOW ?? '3', 10)
-    return Number.isFinite(v) && v > 0 ? Math.min(v, OBSTACLE_FRAMES) : 3
-  }, [OBSTACLE_FRAMES])
+export function useObstacleDetector({ model = null, camera = null }: ObstacleDetectorProps = {}) {
+  const config = useObstacleDetectionConfig()
+  const {
+    OBSTACLE_FRAMES,
+    OBSTACLE_THRESHOLD,
+    OBSTACLE_HYSTERESIS,
+    OBSTACLE_SUDDEN_DELTA,
+    OBSTACLE_MIN_CONFIDENCE,
+    OBSTACLE_SPEECH_CONFIDENCE,
+    OBSTACLE_MIN_SLOPE,
+    OBSTACLE_ALLOW_SIZE_ONLY,
+    OBSTACLE_TRIGGER_DISTANCE_M,
+    OBSTACLE_DISTANCE_HYSTERESIS_M,
+    OBSTACLE_TTC_CAUTION_S,
+    OBSTACLE_TTC_S,
+    OBSTACLE_TTC_IMMINENT_S,
+    OBSTACLE_TTC_HYSTERESIS,
+    OBSTACLE_TTC_MIN_CONFIDENCE,
+    OBSTACLE_MIN_CLOSING_SPEED,
+    OBSTACLE_SMOOTHING_WINDOW: SMOOTHING_WINDOW,
+    OBSTACLE_TRACK_IOU,
+    OBSTACLE_TRACK_MAX_MISSES,
+    OBSTACLE_GROUND_HAZARDS,
+    OBSTACLE_HAZARD_DISTANCE_M,
+    OBSTACLE_HAZARD_FRAMES,
+    OBSTACLE_MOTION_COMPENSATION,
+    OBSTACLE_MAX_ROTATION_DEG_S,
+    OBSTACLE_ESTIMATOR,
+  } = config
 
   const options: DetectionOptions = React.useMemo(() => ({
+    estimator: OBSTACLE_ESTIMATOR,
     frames: OBSTACLE_FRAMES,
     threshold: OBSTACLE_THRESHOLD,
     hysteresis: OBSTACLE_HYSTERESIS,
@@ -62,188 +65,200 @@ export function useObstacleDetector() {
     suddenDelta: OBSTACLE_SUDDEN_DELTA,
     smoothingWindow: SMOOTHING_WINDOW,
     allowSizeOnly: OBSTACLE_ALLOW_SIZE_ONLY,
-  }), [OBSTACLE_FRAMES, OBSTACLE_THRESHOLD, OBSTACLE_HYSTERESIS, OBSTACLE_MIN_SLOPE, OBSTACLE_SUDDEN_DELTA, SMOOTHING_WINDOW, OBSTACLE_ALLOW_SIZE_ONLY])
-
-  const DETECTION_LOG_URL = React.useMemo(() => process.env.DETECTION_LOG_URL ?? null, [])
-  const DETECTION_LOG_BATCH_SIZE = React.useMemo(() => {
-    const v = parseInt(process.env.DETECTION_LOG_BATCH_SIZE ?? '20', 10)
-    return Number.isFinite(v) && v > 0 ? v : 20
-  }, [])
-  const DETECTION_LOG_SEND_IMMEDIATE = React.useMemo(() => {
-    const v = process.env.DETECTION_LOG_SEND_IMMEDIATE ?? 'false'
-    return v === 'true' || v === '1'
-  }, [])
-  const DETECTION_LOG_MAX = React.useMemo(() => {
-    const v = parseInt(process.env.DETECTION_LOG_MAX ?? '1000', 10)
-    return Number.isFinite(v) && v > 0 ? v : 1000
-  }, [])
-
-  const logsRef = React.useRef<Array<any>>([])
-  const [loggingEnabled, setLoggingEnabled] = React.useState<boolean>(!!DETECTION_LOG_URL)
-
-  const enqueueLog = React.useCallback((event: any) => {
-    try {
-      logsRef.current.push(event)
-      if (logsRef.current.length > DETECTION_LOG_MAX) {
-        // drop oldest
-        logsRef.current.splice(0, logsRef.current.length - DETECTION_LOG_MAX)
-      }
-    } catch (e) {}
-  }, [DETECTION_LOG_MAX])
-
-  const sendLogs = React.useCallback(async (events?: any[]) => {
-    const url = DETECTION_LOG_URL
-    if (!url) return { success: false, reason: 'no-url' }
-    const toSend = events ?? logsRef.current.slice(0, DETECTION_LOG_BATCH_SIZE)
-    if (!toSend || toSend.length === 0) return { success: true }
-    try {
-      await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ events: toSend }),
-      })
-      if (!events) {
-        logsRef.current.splice(0, toSend.length)
-      }
-      return { success: true }
-    } catch (e) {
-      console.warn('Failed to upload detection logs:', e)
-      return { success: false, reason: String(e) }
-    }
-  }, [DETECTION_LOG_URL, DETECTION_LOG_BATCH_SIZE])
-
-  const sendLogsToUrl = React.useCallback(async (url: string, events?: any[]) => {
-    if (!url) return { success: false, reason: 'no-url' }
-    const toSend = events ?? logsRef.current.slice(0, DETECTION_LOG_BATCH_SIZE)
-    if (!toSend || toSend.length === 0) return { success: true }
-    try {
-      await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ events: toSend }),
-      })
-      // on success remove sent events from buffer
-      if (!events) {
-        logsRef.current.splice(0, toSend.length)
-      }
-      return { success: true }
-    } catch (e) {
-      console.warn('Failed to upload detection logs to URL:', url, e)
-      return { success: false, reason: String(e) }
-    }
-  }, [DETECTION_LOG_BATCH_SIZE])
-
-  const clearLogs = React.useCallback(() => {
-    logsRef.current = []
-  }, [])
+    triggerDistance: OBSTACLE_TRIGGER_DISTANCE_M,
+    distanceHysteresis: OBSTACLE_DISTANCE_HYSTERESIS_M,
+    minClosingSpeed: OBSTACLE_MIN_CLOSING_SPEED,
+    cautionTimeToContact: OBSTACLE_TTC_CAUTION_S,
+    timeToContact: OBSTACLE_TTC_S,
+    imminentTimeToContact: OBSTACLE_TTC_IMMINENT_S,
+    ttcHysteresis: OBSTACLE_TTC_HYSTERESIS,
+    minTtcConfidence: OBSTACLE_TTC_MIN_CONFIDENCE,
+  }), [
+    OBSTACLE_ESTIMATOR,
+    OBSTACLE_FRAMES,
+    OBSTACLE_THRESHOLD,
+    OBSTACLE_HYSTERESIS,
+    OBSTACLE_MIN_SLOPE,
+    OBSTACLE_SUDDEN_DELTA,
+    SMOOTHING_WINDOW,
+    OBSTACLE_ALLOW_SIZE_ONLY,
+    OBSTACLE_TRIGGER_DISTANCE_M,
+    OBSTACLE_DISTANCE_HYSTERESIS_M,
+    OBSTACLE_MIN_CLOSING_SPEED,
+    OBSTACLE_TTC_CAUTION_S,
+    OBSTACLE_TTC_S,
+    OBSTACLE_TTC_IMMINENT_S,
+    OBSTACLE_TTC_HYSTERESIS,
+    OBSTACLE_TTC_MIN_CONFIDENCE,
+  ])
 
-  const getRecentLogs = React.useCallback((n = 20) => {
-    return logsRef.current.slice(-n)
-  }, [])
+  const telemetry = useTelemetry({ model })
+  const recordTelemetry = telemetry.record
 
-  const [obstacleDetected, setObstacleDetected] = React.useState(false)
-  const [lastHeight, setLastHeight] = React.useState<number | null>(null)
-  const [lastConfidence, setLastConfidence] = React.useState<number | null>(null)
-  const [lastSmoothed, setLastSmoothed] = React.useState<number | null>(null)
-  const [lastSlope, setLastSlope] = React.useState<number | null>(null)
-  const [lastCenterX, setLastCenterX] = React.useState<number | null>(null)
-  const heightsRef = React.useRef<number[]>([])
-  const confidencesRef = React.useRef<number[]>([])
-  const obstacleRef = React.useRef<boolean>(false)
+  const trackerOptions: TrackerOptions = React.useMemo(() => ({
+    iouThreshold: OBSTACLE_TRACK_IOU,
+    maxMisses: OBSTACLE_TRACK_MAX_MISSES,
+    detection: options,
+    camera,
+  }), [OBSTACLE_TRACK_IOU, OBSTACLE_TRACK_MAX_MISSES, options, camera])
 
-  const handleDetection = React.useCallback(
-    (payload: { height: number; confidence?: number; centerX?: number }) => {
-      const height = payload?.height
-      const confidenceArg = payload?.confidence
-      const centerXArg = payload?.centerX
-      const confidence = typeof confidenceArg === 'number' && isFinite(confidenceArg) ? confidenceArg : null
-      const centerX = typeof centerXArg === 'number' && isFinite(centerXArg) ? centerXArg : null
+  const motionOptions: MotionOptions | null = React.useMemo(() => (OBSTACLE_MOTION_COMPENSATION ? {
+    ...DEFAULT_MOTION_OPTIONS,
+    steadyRotation: OBSTACLE_MAX_ROTATION_DEG_S / 4,
+    maxRotation: OBSTACLE_MAX_ROTATION_DEG_S,
+  } : null), [OBSTACLE_MOTION_COMPENSATION, OBSTACLE_MAX_ROTATION_DEG_S])
 
-      if (typeof height !== 'number' || !isFinite(height)) return
+  const hazardOptions: HazardOptions = React.useMemo(() => ({
+    hazardDistance: OBSTACLE_HAZARD_DISTANCE_M,
+    confirmFrames: OBSTACLE_HAZARD_FRAMES,
+    clearFrames: OBSTACLE_HAZARD_FRAMES,
+  }), [OBSTACLE_HAZARD_DISTANCE_M, OBSTACLE_HAZARD_FRAMES])
 
-      heightsRef.current.push(height)
-      if (heightsRef.current.length > OBSTACLE_FRAMES) heightsRef.current.shift()
-      setLastHeight(height)
+  const [obstacles, setObstacles] = React.useState<Track[]>([])
+  const trackerRef = React.useRef<TrackerState>(createTrackerState())
+  const hazardRef = React.useRef<HazardState>(INITIAL_HAZARD_STATE)
+  const [hazard, setHazard] = React.useState<GroundHazard | null>(null)
 
-      if (confidence != null) {
-        confidencesRef.current.push(confidence)
-      } else {
-        confidencesRef.current.push(0)
+  const handleDetections = React.useCallback(
+    (payload: {
+      height: number
+      confidence?: number
+      centerX?: number
+      box?: Box
+      classId?: number | null
+      label?: string | null
+      urgent?: boolean
+    }[]) => {
+      const detections: TrackerDetection[] = []
+      for (const d of payload ?? []) {
+        if (typeof d?.height !== 'number' || !isFinite(d.height)) continue
+        detections.push({
+          height: d.height,
+          confidence: typeof d.confidence === 'number' && isFinite(d.confidence) ? d.confidence : 0,
+          centerX: typeof d.centerX === 'number' && isFinite(d.centerX) ? d.centerX : undefined,
+          box: d.box,
+          classId: typeof d.classId === 'number' && isFinite(d.classId) ? d.classId : null,
+          label: typeof d.label === 'string' ? d.label : null,
+          urgent: d.urgent === true,
+        })
       }
-      if (confidencesRef.current.length > OBSTACLE_FRAMES) confidencesRef.current.shift()
-      setLastConfidence(confidence)
-      setLastCenterX(centerX)
 
-      const res = analyzeDetection(heightsRef.current.slice(), confidencesRef.current.slice(), obstacleRef.current, options)
+      const now = Date.now()
+      const motion = motionOptions ? currentMotion(motionOptions, now) : NO_MOTION
+      const update = updateTracks(trackerRef.current, detections, now, trackerOptions, motion)
+      trackerRef.current = update.state
+      const tracks = update.state.tracks
 
       try {
-        if (res.smoothed >= options.threshold) {
-          console.log('[ObstacleDebug] smoothed=', res.smoothed, 'slope=', res.slope, 'avgConf=', res.avgConfidence)
+        for (const track of tracks) {
+          if (track.misses !== 0) continue
+          if (track.distance != null ? track.distance <= options.triggerDistance : track.smoothed >= options.threshold) {
+            console.log(`[ObstacleDebug] track=${track.id} ${track.label ?? 'unknown'} level=${track.alertLevel} distance=`, track.distance, 'ttc=', track.timeToContact, 'ttcConf=', track.ttcConfidence, 'smoothed=', track.smoothed, 'slope=', track.slope, 'avgConf=', track.avgConfidence)
+          }
         }
-      } catch (e) {}
+      } catch {}
 
-      // update smoothed and slope tracking for debug/UI
-      setLastSmoothed(res.smoothed)
-      setLastSlope(res.slope)
+      setObstacles(tracks)
 
-      try {
-        const entry = {
-          ts: Date.now(),
-          height,
-          confidence: confidence ?? null,
-          centerX: centerX ?? null,
-          smoothed: res.smoothed,
-          slope: res.slope,
-          detected: res.newDetected,
-        }
-        if (loggingEnabled) {
-          enqueueLog(entry)
-          // Send immediately if configured
-          if (DETECTION_LOG_SEND_IMMEDIATE && DETECTION_LOG_URL) {
-            ;(async () => {
-              await sendLogs([entry])
-            })()
-          } else if (DETECTION_LOG_URL && logsRef.current.length >= DETECTION_LOG_BATCH_SIZE) {
-            ;(async () => {
-              await sendLogs()
-            })()
-          }
-        }
-      } catch (e) {
-      }
+      recordTelemetry(tracks.filter(t => t.misses === 0).map(t => ({
+        ts: now,
+        trackId: t.id,
+        height: t.height,
+        confidence: t.confidence,
+        centerX: t.centerX,
+        classId: t.classId,
+        label: t.label,
+        smoothed: t.smoothed,
+        slope: t.slope,
+        distance: t.distance,
+        closingSpeed: t.closingSpeed,
+        timeToContact: t.timeToContact != null && isFinite(t.timeToContact) ? t.timeToContact : null,
+        alertLevel: t.alertLevel,
+        detected: t.detected,
+      })))
 
-      if (res.newDetected !== obstacleRef.current) {
-        obstacleRef.current = res.newDetected
-        setObstacleDetected(res.newDetected)
-        console.log('Obstacle state changed:', { newDetected: res.newDetected, smoothed: res.smoothed, slope: res.slope })
+      for (const id of update.born) console.log(`Track ${id} born`)
+      for (const id of update.died) console.log(`Track ${id} lost`)
+      for (const id of update.changed) {
+        const track = tracks.find(t => t.id === id)
+        if (track) {
+          console.log('Obstacle state changed:', { track: id, label: track.label, newDetected: track.detected, level: track.alertLevel, distance: track.distance, ttc: track.timeToContact, smoothed: track.smoothed, slope: track.slope })
+        }
       }
     },
-    [OBSTACLE_FRAMES, options]
+    [trackerOptions, motionOptions, options.threshold, options.triggerDistance, recordTelemetry]
   )
 
+  // Drop-offs and walls from the floor analysis, held across a few frames like tracks are.
+  const handleGroundAnalysis = React.useCallback((analysis: GroundAnalysis) => {
+    const previous = hazardRef.current.hazard
+    hazardRef.current = updateHazardState(hazardRef.current, analysis, hazardOptions)
+    const next = hazardRef.current.hazard
+    if (next?.kind !== previous?.kind || next?.level !== previous?.level) {
+      console.log('Ground hazard changed:', next)
+    }
+    if (next !== previous) setHazard(next)
+  }, [hazardOptions])
+
+  // Without analyses there is nothing to clear a raised hazard, so drop it when the feature is turned off.
+  React.useEffect(() => {
+    if (OBSTACLE_GROUND_HAZARDS) return
+    hazardRef.current = INITIAL_HAZARD_STATE
+    setHazard(null)
+  }, [OBSTACLE_GROUND_HAZARDS])
+
   const reset = React.useCallback(() => {
-    heightsRef.current = []
-    confidencesRef.current = []
-    obstacleRef.current = false
-    setObstacleDetected(false)
-    setLastHeight(null)
-    setLastConfidence(null)
+    trackerRef.current = createTrackerState()
+    setObstacles([])
+    hazardRef.current = INITIAL_HAZARD_STATE
+    setHazard(null)
   }, [])
 
+  const primaryObstacle = React.useMemo(() => primaryTrack(obstacles), [obstacles])
+  const obstacleLevel = primaryObstacle?.alertLevel ?? 'none'
+  // Ground hazards raise the same alert as obstacles; whichever is more urgent wins.
+  const alertLevel: AlertLevel = hazard && alertRank(hazard.level) > alertRank(obstacleLevel) ? hazard.level : obstacleLevel
+  // Only meaningful while something is in the way.
+  const clearSide = React.useMemo(
+    () => (primaryObstacle ? clearPathSide(obstacles.filter(t => t.misses === 0).map(t => t.box)) : null),
+    [primaryObstacle, obstacles]
+  )
+
+  React.useEffect(() => {
+    // Below the threshold there is no primary obstacle, so show the strongest visible track instead.
+    let lead = primaryObstacle
+    if (lead == null) {
+      for (const track of obstacles) {
+        if (track.misses === 0 && (lead == null || track.smoothed > lead.smoothed)) lead = track
+      }
+    }
+    publishLiveObstacleStatus({
+      detected: primaryObstacle != null,
+      alertLevel: primaryObstacle?.alertLevel ?? 'none',
+      hazard: hazard?.kind ?? null,
+      label: lead?.label ?? null,
+      smoothed: lead?.smoothed ?? null,
+      slope: lead?.slope ?? null,
+      distance: lead?.distance ?? null,
+      timeToContact: lead?.timeToContact ?? null,
+      trackCount: obstacles.length,
+    })
+  }, [primaryObstacle, obstacles, hazard])
+
   return {
-    handleDetection,
-    obstacleDetected,
-    lastHeight,
-    lastConfidence,
-    lastCenterX,
-    avgConfidence: confidencesRef.current.length ? average(confidencesRef.current) : null,
-    loggingEnabled,
-    setLoggingEnabled,
-    sendLogs,
-    sendLogsToUrl,
-    clearLogs,
-    getRecentLogs,
-    logsCount: () => logsRef.current.length,
+    handleDetections,
+    handleGroundAnalysis,
+    obstacles,
+    primaryObstacle,
+    hazard,
+    alertLevel,
+    clearSide,
+    loggingEnabled: telemetry.enabled,
+    setLoggingEnabled: telemetry.setEnabled,
+    sendLogs: telemetry.flush,
+    clearLogs: telemetry.clear,
+    getRecentLogs: telemetry.recent,
+    logsCount: telemetry.size,
     reset,
     OBSTACLE_FRAMES,
     OBSTACLE_THRESHOLD,
@@ -254,7 +269,10 @@ export function useObstacleDetector() {
     OBSTACLE_MIN_SLOPE,
     SMOOTHING_WINDOW,
     OBSTACLE_ALLOW_SIZE_ONLY,
-    lastSmoothed,
-    lastSlope,
+    OBSTACLE_TRACK_IOU,
+    OBSTACLE_TRACK_MAX_MISSES,
+    lastSmoothed: primaryObstacle?.smoothed ?? null,
+    lastSlope: primaryObstacle?.slope ?? null,
+    lastDistance: primaryObstacle?.distance ?? null,
   }
 }
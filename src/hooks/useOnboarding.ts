@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as React from 'react'
+
+export type OnboardingSnapshot = {
+  hydrated: boolean
+  // When setup was finished or skipped; null until then.
+  completedAt: number | null
+}
+
+export const ONBOARDING_STORAGE_KEY = 'ailens.onboarding.v1'
+
+let snapshot: OnboardingSnapshot = { hydrated: false, completedAt: null }
+const listeners = new Set<() => void>()
+
+function commit(next: OnboardingSnapshot) {
+  snapshot = next
+  listeners.forEach(listener => listener())
+}
+
+export const onboardingStore = {
+  getSnapshot: () => snapshot,
+  subscribe(listener: () => void) {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+  complete() {
+    const completedAt = Date.now()
+    commit({ hydrated: true, completedAt })
+    AsyncStorage
+      .setItem(ONBOARDING_STORAGE_KEY, JSON.stringify({ completedAt }))
+      .catch(e => console.warn('Failed to save onboarding state:', e))
+  },
+  async hydrate() {
+    try {
+      const raw = await AsyncStorage.getItem(ONBOARDING_STORAGE_KEY)
+      const saved = raw ? JSON.parse(raw) : {}
+      commit({ hydrated: true, completedAt: typeof saved?.completedAt === 'number' ? saved.completedAt : null })
+    } catch (e) {
+      console.warn('Failed to load onboarding state:', e)
+      commit({ ...snapshot, hydrated: true })
+    }
+  },
+}
+
+export function useOnboarding(): OnboardingSnapshot {
+  return React.useSyncExternalStore(onboardingStore.subscribe, onboardingStore.getSnapshot)
+}
@@ -0,0 +1,23 @@
+import * as React from 'react'
+
+import { EMPTY_PIPELINE_METRICS, PipelineMetrics } from './pacingCore'
+
+// Published about once a second by the frame processor, for the settings screen.
+let metrics = EMPTY_PIPELINE_METRICS
+const listeners = new Set<() => void>()
+
+export function publishPipelineMetrics(next: PipelineMetrics) {
+  metrics = next
+  listeners.forEach(listener => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function usePipelineMetrics(): PipelineMetrics {
+  return React.useSyncExternalStore(subscribe, () => metrics)
+}
@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as FileSystem from 'expo-file-system'
+import * as React from 'react'
+import { Platform, Share } from 'react-native'
+
+import { createPrivacyStore, PrivacySnapshot, RECORDING_FIELDS, TELEMETRY_FIELDS } from '../utils/privacy'
+import { TELEMETRY_STORAGE_KEY } from '../utils/telemetry'
+
+export const privacyStore = createPrivacyStore({ storage: AsyncStorage })
+
+export const EXPORTS_DIRECTORY = `${FileSystem.documentDirectory}exports/`
+
+// Data at rest is removed even when no uploader is mounted to hear about it.
+privacyStore.onDeleteAll(async () => {
+  await AsyncStorage.removeItem(TELEMETRY_STORAGE_KEY)
+  await FileSystem.deleteAsync(EXPORTS_DIRECTORY, { idempotent: true })
+  console.log('Deleted collected detection events')
+})
+
+privacyStore.onExport(async () => {
+  const raw = await AsyncStorage.getItem(TELEMETRY_STORAGE_KEY)
+  const events: unknown[] = raw ? JSON.parse(raw) : []
+  return [{ type: 'telemetry', pendingEvents: events.length }, ...events]
+})
+
+export function usePrivacySettings(): PrivacySnapshot {
+  return React.useSyncExternalStore(privacyStore.subscribe, privacyStore.getSnapshot)
+}
+
+// Writes everything still held on the device (queued events and recorded sessions) to an NDJSON file and opens the
+// share sheet.
+export async function exportCollectedData(): Promise<string> {
+  const lines = await privacyStore.exportAll()
+
+  const { consent, consentedAt, timestampResolutionMs, centerXBuckets } = privacyStore.getSnapshot()
+  const header = {
+    type: 'export',
+    exportedAt: Date.now(),
+    settings: { consent, consentedAt, timestampResolutionMs, centerXBuckets },
+    fields: Object.keys(TELEMETRY_FIELDS),
+    recordingFields: Object.keys(RECORDING_FIELDS),
+  }
+  const text = [header, ...lines].map(line => JSON.stringify(line)).join('\n') + '\n'
+
+  await FileSystem.makeDirectoryAsync(EXPORTS_DIRECTORY, { intermediates: true })
+  const file = `${EXPORTS_DIRECTORY}detection-data-${header.exportedAt}.ndjson`
+  await FileSystem.writeAsStringAsync(file, text)
+  console.log(`Exported ${lines.length} lines of detection data to ${file}`)
+
+  // Android's share sheet cannot take a file:// URL, so the data goes as text there.
+  await Share.share(Platform.OS === 'ios' ? { url: file } : { title: 'AILens detection data', message: text })
+  return file
+}
@@ -0,0 +1,34 @@
+import * as React from 'react'
+
+import { CameraModel } from '../utils/distance'
+import { SceneObject, describeScene, groupScene } from '../utils/sceneDescription'
+
+export type SceneRequest = {
+  text: string
+  requestedAt: number
+}
+
+// A scene older than this comes from a camera that has stopped delivering frames.
+const MAX_SCENE_AGE_MS = 2000
+
+// Replaced by the frame processor on every processed frame; read only when the user asks.
+let latest: { objects: SceneObject[]; capturedAt: number } | null = null
+
+export function publishSceneObjects(objects: SceneObject[], capturedAt: number) {
+  latest = { objects, capturedAt }
+}
+
+export function useSceneDescription(camera: CameraModel | null) {
+  const [request, setRequest] = React.useState<SceneRequest | null>(null)
+
+  const describe = React.useCallback(() => {
+    const now = Date.now()
+    const text = latest && now - latest.capturedAt <= MAX_SCENE_AGE_MS
+      ? describeScene(groupScene(latest.objects, camera))
+      : 'The camera is not ready yet'
+    console.log(`Scene description: "${text}"`)
+    setRequest({ text, requestedAt: now })
+  }, [camera])
+
+  return { request, describe }
+}
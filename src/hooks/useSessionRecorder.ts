@@ -0,0 +1,125 @@
+import * as FileSystem from 'expo-file-system'
+import * as React from 'react'
+import { AppState } from 'react-native'
+
+import { ModelOutputs } from './filterCore'
+import { onMotionSample } from './useDeviceMotion'
+import { privacyStore } from './usePrivacy'
+import { coarsenTimestamp } from '../utils/privacy'
+import {
+  compactFrame,
+  compactMotion,
+  createSessionHeader,
+  serializeSessionLine,
+} from '../utils/sessionRecording'
+
+interface SessionRecorderProps {
+  enabled: boolean
+  model: string | null
+}
+
+// Frames buffered before a part file is written.
+const FRAMES_PER_PART = 150
+
+export const SESSIONS_DIRECTORY = `${FileSystem.documentDirectory}sessions/`
+
+privacyStore.onDeleteAll(async () => {
+  await FileSystem.deleteAsync(SESSIONS_DIRECTORY, { idempotent: true })
+  console.log('Deleted recorded sessions')
+})
+
+// Each recording is exported as a marker line followed by its own lines. Recordings are numbered rather than named,
+// since their directory names are exact start times.
+privacyStore.onExport(async () => {
+  if (!(await FileSystem.getInfoAsync(SESSIONS_DIRECTORY)).exists) return []
+  const dirs = (await FileSystem.readDirectoryAsync(SESSIONS_DIRECTORY)).sort()
+  const out: unknown[] = []
+  for (let i = 0; i < dirs.length; i++) {
+    const text = await readRecordedSession(`${SESSIONS_DIRECTORY}${dirs[i]}/`)
+    const lines = text.split('\n').filter(line => line.trim())
+    out.push({ type: 'session', index: i + 1, bytes: text.length, lines: lines.length })
+    for (const line of lines) out.push(JSON.parse(line))
+  }
+  return out
+})
+
+export function useSessionRecorder({ enabled, model }: SessionRecorderProps) {
+  const sessionRef = React.useRef<{ dir: string; startedAt: number; part: number; lines: string[] } | null>(null)
+
+  const flush = React.useCallback(async () => {
+    const session = sessionRef.current
+    if (!session || session.lines.length === 0) return
+    const lines = session.lines
+    session.lines = []
+    session.part++
+    const file = `${session.dir}part-${String(session.part).padStart(4, '0')}.ndjson`
+    try {
+      await FileSystem.writeAsStringAsync(file, lines.join(''))
+    } catch (e) {
+      console.warn('Failed to write session recording:', file, e)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const startedAt = Date.now()
+    const dir = `${SESSIONS_DIRECTORY}${startedAt}/`
+    sessionRef.current = {
+      dir,
+      startedAt,
+      part: 0,
+      // Frame times are relative to the exact start; only the start itself says when the user was out walking.
+      lines: [serializeSessionLine(createSessionHeader(coarsenTimestamp(startedAt, privacyStore.getSnapshot()), model))],
+    }
+    FileSystem.makeDirectoryAsync(dir, { intermediates: true }).catch((e) => {
+      console.warn('Failed to create session directory:', dir, e)
+    })
+    console.log(`Recording session to ${dir}`)
+
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') flush()
+    })
+    // Stop writing into a session whose earlier parts were just deleted.
+    const unsubscribeDelete = privacyStore.onDeleteAll(() => {
+      if (sessionRef.current?.startedAt === startedAt) sessionRef.current = null
+    })
+    // IMU samples go in between the frames so replays can fuse them the same way.
+    const unsubscribeMotion = onMotionSample(sample => {
+      const session = sessionRef.current
+      if (session?.startedAt === startedAt) session.lines.push(serializeSessionLine(compactMotion(sample.t - startedAt, sample)))
+    })
+
+    return () => {
+      sub.remove()
+      unsubscribeDelete()
+      unsubscribeMotion()
+      flush().finally(() => {
+        if (sessionRef.current?.startedAt === startedAt) sessionRef.current = null
+      })
+    }
+  }, [enabled, model, flush])
+
+  const record = React.useCallback((outputs: ModelOutputs & { frameCount: number }) => {
+    const session = sessionRef.current
+    if (!session) return
+    const frame = compactFrame(
+      Date.now() - session.startedAt,
+      outputs.frameCount,
+      outputs.boxes,
+      outputs.classIds,
+      outputs.confidenceScores
+    )
+    session.lines.push(serializeSessionLine(frame))
+    if (session.lines.length >= FRAMES_PER_PART) flush()
+  }, [flush])
+
+  return enabled ? record : null
+}
+
+// Concatenates the part files of a recorded session back into one NDJSON string.
+export async function readRecordedSession(dir: string): Promise<string> {
+  const files = (await FileSystem.readDirectoryAsync(dir)).filter(f => f.endsWith('.ndjson')).sort()
+  const parts = await Promise.all(files.map(f => FileSystem.readAsStringAsync(`${dir}${f}`)))
+  return parts.join('')
+}
@@ -0,0 +1,22 @@
+import * as React from 'react'
+
+// SpeechAnnouncer publishes here so audio renderers can duck under its announcements.
+let speaking = false
+const listeners = new Set<() => void>()
+
+export function publishSpeaking(next: boolean) {
+  if (next === speaking) return
+  speaking = next
+  listeners.forEach(listener => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function useSpeechActivity(): boolean {
+  return React.useSyncExternalStore(subscribe, () => speaking)
+}
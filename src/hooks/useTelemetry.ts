@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import Constants from 'expo-constants'
+import * as React from 'react'
+import { AppState, Platform } from 'react-native'
+
+import { coarsenEvent } from '../utils/privacy'
+import { createSessionId, createTelemetryUploader, TelemetryEvent } from '../utils/telemetry'
+import { useObstacleDetectionConfig } from './useObstacleDetectionConfig'
+import { privacyStore, usePrivacySettings } from './usePrivacy'
+
+// One id per app launch so uploads from the same walk can be grouped server-side.
+export const TELEMETRY_SESSION_ID = createSessionId()
+
+interface TelemetryProps {
+  model: string | null
+}
+
+export function useTelemetry({ model }: TelemetryProps) {
+  const {
+    DETECTION_LOG_URL,
+    DETECTION_LOG_BATCH_SIZE,
+    DETECTION_LOG_SEND_IMMEDIATE,
+    DETECTION_LOG_MAX,
+  } = useObstacleDetectionConfig()
+  const privacy = usePrivacySettings()
+  // Nothing is collected until the user has opted in, nor while there is nowhere to send it.
+  const enabled = privacy.consent === 'granted' && !!DETECTION_LOG_URL
+  const setEnabled = React.useCallback((value: boolean) => privacyStore.setConsent(value), [])
+
+  const uploader = React.useMemo(() => createTelemetryUploader({
+    url: DETECTION_LOG_URL,
+    metadata: {
+      sessionId: TELEMETRY_SESSION_ID,
+      appVersion: Constants.expoConfig?.version ?? null,
+      model,
+      platform: `${Platform.OS} ${Platform.Version}`,
+    },
+    storage: AsyncStorage,
+    batchSize: DETECTION_LOG_BATCH_SIZE,
+    maxQueue: DETECTION_LOG_MAX,
+  }), [DETECTION_LOG_URL, DETECTION_LOG_BATCH_SIZE, DETECTION_LOG_MAX, model])
+
+  React.useEffect(() => {
+    if (!privacy.hydrated) return
+    if (enabled) {
+      // Events left over from a previous run are sent as soon as we have a URL.
+      uploader.load().then(() => {
+        if (uploader.size() > 0) uploader.flush()
+      })
+    } else if (privacy.consent === 'denied') {
+      // Withdrawing consent also discards whatever has not been sent yet.
+      uploader.load().then(() => uploader.clear())
+    }
+  }, [uploader, enabled, privacy.hydrated, privacy.consent])
+
+  React.useEffect(() => {
+    const unsubscribe = privacyStore.onDeleteAll(() => uploader.clear())
+    return () => {
+      unsubscribe()
+      uploader.dispose()
+    }
+  }, [uploader])
+
+  React.useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'background' && state !== 'inactive') return
+      // Events are written in batches; the app may not come back to write the rest.
+      uploader.save()
+      if (privacyStore.getSnapshot().consent === 'granted') uploader.flush()
+    })
+    return () => subscription.remove()
+  }, [uploader])
+
+  const record = React.useCallback((events: TelemetryEvent[]) => {
+    if (!enabled || events.length === 0) return
+    uploader.enqueue(events.map(event => coarsenEvent(event, privacy)))
+    if (!DETECTION_LOG_URL || uploader.pendingRetry()) return
+    if (DETECTION_LOG_SEND_IMMEDIATE || uploader.size() >= DETECTION_LOG_BATCH_SIZE) {
+      uploader.flush()
+    }
+  }, [enabled, privacy, uploader, DETECTION_LOG_URL, DETECTION_LOG_SEND_IMMEDIATE, DETECTION_LOG_BATCH_SIZE])
+
+  return {
+    enabled,
+    setEnabled,
+    record,
+    flush: uploader.flush,
+    clear: uploader.clear,
+    recent: uploader.recent,
+    size: uploader.size,
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  AnnouncementPriority,
+  AnnouncementQueueState,
+  createAnnouncementQueue,
+  enqueueAnnouncement,
+  finishAnnouncement,
+  nextAnnouncement,
+} from '../announcementQueue'
+
+const options = { repeatMs: 4000, maxAgeMs: 2000 }
+
+const say = (key: string, priority: AnnouncementPriority = 'warning') => ({ key, text: key, priority })
+
+function enqueueAll(state: AnnouncementQueueState, keys: [string, AnnouncementPriority][], now = 0) {
+  return keys.reduce((s, [key, priority]) => enqueueAnnouncement(s, say(key, priority), now, options).state, state)
+}
+
+// Speaks one announcement to the end and returns the state afterwards.
+function speak(state: AnnouncementQueueState, now: number) {
+  const next = nextAnnouncement(state, now, options)
+  return { announcement: next.announcement, state: next.announcement ? finishAnnouncement(next.state, next.announcement.id) : next.state }
+}
+
+describe('announcement queue', () => {
+  it('speaks higher priorities first and keeps arrival order within a priority', () => {
+    let state = enqueueAll(createAnnouncementQueue(), [
+      ['door', 'info'],
+      ['chair', 'warning'],
+      ['car', 'urgent'],
+      ['table', 'warning'],
+      ['bench', 'info'],
+    ])
+    const spoken: string[] = []
+    for (;;) {
+      const next = speak(state, 100)
+      if (!next.announcement) break
+      spoken.push(next.announcement.key)
+      state = next.state
+    }
+    expect(spoken).toEqual(['car', 'chair', 'table', 'door', 'bench'])
+  })
+
+  it('does not repeat the same object within repeatMs unless it became more urgent', () => {
+    let state = speak(enqueueAll(createAnnouncementQueue(), [['chair:center', 'warning']]), 0).state
+
+    expect(enqueueAnnouncement(state, say('chair:center', 'warning'), 1000, options).queued).toBe(false)
+    expect(enqueueAnnouncement(state, say('chair:center', 'info'), 3999, options).queued).toBe(false)
+    expect(enqueueAnnouncement(state, say('chair:left', 'warning'), 1000, options).queued).toBe(true)
+    expect(enqueueAnnouncement(state, say('chair:center', 'urgent'), 1000, options).queued).toBe(true)
+
+    const later = enqueueAnnouncement(state, say('chair:center', 'warning'), 4000, options)
+    expect(later.queued).toBe(true)
+    state = later.state
+    expect(speak(state, 4000).announcement?.key).toBe('chair:center')
+  })
+
+  it('replaces a pending announcement for the same object with the newer text', () => {
+    let state = createAnnouncementQueue()
+    state = enqueueAnnouncement(state, { key: 'chair:center', text: 'Chair ahead, about 3 meters', priority: 'info' }, 0, options).state
+    state = enqueueAnnouncement(state, { key: 'chair:center', text: 'Chair ahead, about 2 meters', priority: 'warning' }, 100, options).state
+    expect(state.pending.map(p => p.text)).toEqual(['Chair ahead, about 2 meters'])
+  })
+
+  it('interrupts the current announcement only for a higher priority', () => {
+    const speaking = nextAnnouncement(enqueueAll(createAnnouncementQueue(), [['chair', 'warning']]), 0, options).state
+
+    expect(enqueueAnnouncement(speaking, say('door', 'info'), 100, options).interrupt).toBe(false)
+    expect(enqueueAnnouncement(speaking, say('table', 'warning'), 100, options).interrupt).toBe(false)
+    const urgent = enqueueAnnouncement(speaking, say('car', 'urgent'), 100, options)
+    expect(urgent.interrupt).toBe(true)
+    expect(urgent.state.pending[0].key).toBe('car')
+
+    // Nothing is being spoken once it finished, so a new urgent one just goes first.
+    const idle = finishAnnouncement(speaking, speaking.current!.id)
+    expect(enqueueAnnouncement(idle, say('car', 'urgent'), 100, options).interrupt).toBe(false)
+  })
+
+  it('drops announcements that waited longer than maxAgeMs', () => {
+    let state = enqueueAll(createAnnouncementQueue(), [['chair', 'urgent']], 0)
+    state = enqueueAll(state, [['door', 'info']], 1500)
+
+    const next = speak(state, 2500)
+    expect(next.announcement?.key).toBe('door')
+    expect(next.state.pending).toEqual([])
+    expect(speak(next.state, 2500).announcement).toBeNull()
+  })
+
+  it('ignores finishing an announcement that is no longer current', () => {
+    const state = nextAnnouncement(enqueueAll(createAnnouncementQueue(), [['chair', 'warning']]), 0, options).state
+    expect(finishAnnouncement(state, state.current!.id + 1)).toBe(state)
+  })
+})
@@ -0,0 +1,152 @@
+import { CONFIG_SCHEMA, ConfigStorage, createConfigStore, validateConfig } from '../configStore'
+
+function memoryStorage(initial: Record<string, string> = {}): ConfigStorage & { data: Record<string, string> } {
+  const data = { ...initial }
+  return {
+    data,
+    getItem: async key => data[key] ?? null,
+    setItem: async (key, value) => {
+      data[key] = value
+    },
+  }
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('validateConfig', () => {
+  it('uses schema defaults when nothing is set', () => {
+    const { config, issues } = validateConfig()
+    expect(config.OBSTACLE_FRAMES).toBe(CONFIG_SCHEMA.OBSTACLE_FRAMES.default)
+    expect(config.OBSTACLE_ALLOW_SIZE_ONLY).toBe(false)
+    expect(config.DETECTION_LOG_URL).toBeNull()
+    expect(issues).toEqual([])
+  })
+
+  it('parses env strings and clamps out of range values', () => {
+    const { config, issues } = validateConfig({
+      OBSTACLE_THRESHOLD: '1.7',
+      OBSTACLE_FRAMES: '8.6',
+      OBSTACLE_ALLOW_SIZE_ONLY: 'true',
+      DETECTION_LOG_URL: 'http://example.test/logs',
+    })
+    expect(config.OBSTACLE_THRESHOLD).toBe(1)
+    expect(config.OBSTACLE_FRAMES).toBe(9)
+    expect(config.OBSTACLE_ALLOW_SIZE_ONLY).toBe(true)
+    expect(config.DETECTION_LOG_URL).toBe('http://example.test/logs')
+    expect(issues).toEqual(expect.arrayContaining([expect.stringContaining('OBSTACLE_THRESHOLD=1.7 clamped')]))
+  })
+
+  it('ignores unparseable values', () => {
+    const { config, issues } = validateConfig({ OBSTACLE_HYSTERESIS: 'abc', OBSTACLE_FALLBACK_ENABLED: 'maybe' })
+    expect(config.OBSTACLE_HYSTERESIS).toBe(CONFIG_SCHEMA.OBSTACLE_HYSTERESIS.default)
+    expect(config.OBSTACLE_FALLBACK_ENABLED).toBe(false)
+    expect(issues).toHaveLength(2)
+  })
+
+  it('only accepts the listed values for a choice', () => {
+    expect(validateConfig({ OBSTACLE_ESTIMATOR: ' kalman ' }).config.OBSTACLE_ESTIMATOR).toBe('kalman')
+    const { config, issues } = validateConfig({ OBSTACLE_ESTIMATOR: 'particle' })
+    expect(config.OBSTACLE_ESTIMATOR).toBe('heuristic')
+    expect(issues).toEqual(['OBSTACLE_ESTIMATOR=particle is not a valid choice'])
+  })
+
+  it('keeps dependent values consistent', () => {
+    const { config } = validateConfig({
+      OBSTACLE_FRAMES: 4,
+      OBSTACLE_SMOOTHING_WINDOW: 10,
+      OBSTACLE_BUSY_SCENE_COUNT: 6,
+      OBSTACLE_VERY_BUSY_SCENE_COUNT: 2,
+      OBSTACLE_HAPTIC_MIN_INTERVAL_MS: 800,
+      OBSTACLE_HAPTIC_MAX_INTERVAL_MS: 300,
+    })
+    expect(config.OBSTACLE_SMOOTHING_WINDOW).toBe(4)
+    expect(config.OBSTACLE_VERY_BUSY_SCENE_COUNT).toBe(6)
+    expect(config.OBSTACLE_HAPTIC_MAX_INTERVAL_MS).toBe(800)
+  })
+})
+
+describe('createConfigStore', () => {
+  it('layers env, preset and overrides', () => {
+    const store = createConfigStore({ env: { OBSTACLE_FRAMES: '10', OBSTACLE_THRESHOLD: '0.5' }, preset: 'outdoor' })
+    expect(store.getSnapshot().preset).toBe('outdoor')
+    expect(store.getConfig().OBSTACLE_FRAMES).toBe(8)
+    expect(store.getConfig().OBSTACLE_THRESHOLD).toBe(0.35)
+
+    store.update({ OBSTACLE_FRAMES: 15 })
+    expect(store.getConfig().OBSTACLE_FRAMES).toBe(15)
+
+    store.resetToPreset()
+    expect(store.getConfig().OBSTACLE_FRAMES).toBe(8)
+  })
+
+  it('falls back to indoor for unknown presets', () => {
+    const store = createConfigStore({ preset: 'underwater' })
+    expect(store.getSnapshot().preset).toBe('indoor')
+  })
+
+  it('notifies subscribers and stops after unsubscribe', () => {
+    const store = createConfigStore({})
+    const listener = jest.fn()
+    const unsubscribe = store.subscribe(listener)
+    store.setPreset('crowded')
+    expect(listener).toHaveBeenCalledTimes(1)
+    unsubscribe()
+    store.update({ OBSTACLE_THRESHOLD: 0.5 })
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('persists changes and restores them on hydrate', async () => {
+    const storage = memoryStorage()
+    const store = createConfigStore({ storage, storageKey: 'config' })
+    store.setPreset('crowded')
+    store.update({ OBSTACLE_MIN_CONFIDENCE: 0.6 })
+    await Promise.resolve()
+    expect(JSON.parse(storage.data.config)).toEqual({ preset: 'crowded', overrides: { OBSTACLE_MIN_CONFIDENCE: 0.6 }, calibration: {} })
+
+    const restored = createConfigStore({ storage, storageKey: 'config' })
+    await restored.hydrate()
+    expect(restored.getSnapshot().preset).toBe('crowded')
+    expect(restored.getConfig().OBSTACLE_MIN_CONFIDENCE).toBe(0.6)
+    expect(restored.getConfig().OBSTACLE_CENTER_TOLERANCE).toBe(0.2)
+  })
+
+  it('keeps calibration under overrides and across preset changes', async () => {
+    const storage = memoryStorage()
+    const store = createConfigStore({ storage, storageKey: 'config' })
+    store.setCalibration({ CAMERA_TILT_DEG: 20, CAMERA_HEIGHT_M: 1.1 })
+    store.update({ CAMERA_HEIGHT_M: 1.4 })
+    expect(store.getConfig().CAMERA_TILT_DEG).toBe(20)
+    expect(store.getConfig().CAMERA_HEIGHT_M).toBe(1.4)
+
+    store.setPreset('outdoor')
+    expect(store.getConfig().CAMERA_HEIGHT_M).toBe(1.1)
+
+    await Promise.resolve()
+    const restored = createConfigStore({ storage, storageKey: 'config' })
+    await restored.hydrate()
+    expect(restored.getSnapshot().calibration).toEqual({ CAMERA_TILT_DEG: 20, CAMERA_HEIGHT_M: 1.1 })
+
+    store.setCalibration({})
+    expect(store.getConfig().CAMERA_TILT_DEG).toBe(CONFIG_SCHEMA.CAMERA_TILT_DEG.default)
+  })
+
+  it('clamps saved values and survives corrupt storage', async () => {
+    const clamped = createConfigStore({
+      storage: memoryStorage({ config: JSON.stringify({ preset: 'indoor', overrides: { OBSTACLE_FRAMES: 500, UNKNOWN: 1 } }) }),
+      storageKey: 'config',
+    })
+    await clamped.hydrate()
+    expect(clamped.getConfig().OBSTACLE_FRAMES).toBe(CONFIG_SCHEMA.OBSTACLE_FRAMES.max)
+    expect(clamped.getSnapshot().overrides).not.toHaveProperty('UNKNOWN')
+
+    const corrupt = createConfigStore({ storage: memoryStorage({ config: '{not json' }), storageKey: 'config' })
+    await corrupt.hydrate()
+    expect(corrupt.getSnapshot().preset).toBe('indoor')
+  })
+})
@@ -0,0 +1,47 @@
+import {
+  debugBoxLabel,
+  debugBoxStatus,
+  pushSample,
+  slopeRange,
+  sparklineLevels,
+  staleAfterMs,
+} from '../debugOverlay'
+
+describe('debug box status', () => {
+  it('colors boxes by the filter decision', () => {
+    expect(debugBoxStatus({ accepted: true, reason: null }, false)).toBe('accepted')
+    expect(debugBoxStatus({ accepted: false, reason: 'off-center' }, false)).toBe('off-center')
+    expect(debugBoxStatus({ accepted: false, reason: 'too-small' }, false)).toBe('too-small')
+    expect(debugBoxStatus({ accepted: false, reason: null }, false)).toBe('below-threshold')
+  })
+
+  it('marks boxes from an old frame as cooling down', () => {
+    expect(debugBoxStatus({ accepted: true, reason: null }, true)).toBe('cooldown')
+    expect(staleAfterMs(100)).toBe(200)
+  })
+
+  it('labels boxes with class, confidence and reason', () => {
+    expect(debugBoxLabel({ label: 'chair', classId: 56, confidence: 0.734 }, 'accepted')).toBe('chair 73%')
+    expect(debugBoxLabel({ label: null, classId: 3, confidence: 0.2 }, 'below-threshold')).toBe('#3 20% below-threshold')
+  })
+})
+
+describe('sparklines', () => {
+  it('keeps the most recent samples', () => {
+    let samples: number[] = []
+    for (let i = 0; i < 5; i++) samples = pushSample(samples, i, 3)
+    expect(samples).toEqual([2, 3, 4])
+    expect(pushSample([], NaN)).toEqual([0])
+  })
+
+  it('scales samples into the range', () => {
+    expect(sparklineLevels([0, 0.5, 1, 2], [0, 1])).toEqual([0, 0.5, 1, 1])
+    expect(sparklineLevels([1, 2], [1, 1])).toEqual([0, 0])
+  })
+
+  it('centers slopes on zero', () => {
+    expect(slopeRange([0.001])).toEqual([-0.01, 0.01])
+    expect(slopeRange([0.02, -0.05])).toEqual([-0.05, 0.05])
+    expect(sparklineLevels([0], slopeRange([0.02]))).toEqual([0.5])
+  })
+})
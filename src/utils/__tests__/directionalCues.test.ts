@@ -0,0 +1,81 @@
+import { describeObstacle } from '../announcementQueue'
+import {
+  bytesToBase64,
+  clearPathSide,
+  panFromCenterX,
+  panGains,
+  quantizePan,
+  synthesizeBeep,
+} from '../directionalCues'
+
+describe('panning', () => {
+  it('follows the horizontal position', () => {
+    expect(panFromCenterX(0)).toBe(-1)
+    expect(panFromCenterX(0.5)).toBe(0)
+    expect(panFromCenterX(1)).toBe(1)
+    expect(panFromCenterX(null)).toBe(0)
+  })
+
+  it('snaps to cacheable steps', () => {
+    expect(quantizePan(0.3)).toBeCloseTo(0.25)
+    expect(quantizePan(-0.9)).toBe(-1)
+  })
+
+  it('keeps power constant across the field', () => {
+    for (const pan of [-1, -0.5, 0, 0.5, 1]) {
+      const { left, right } = panGains(pan)
+      expect(left ** 2 + right ** 2).toBeCloseTo(1)
+    }
+    expect(panGains(-1).right).toBeCloseTo(0)
+    expect(panGains(1).left).toBeCloseTo(0)
+  })
+})
+
+describe('synthesizeBeep', () => {
+  it('writes a stereo 16-bit WAV panned to one side', () => {
+    const wav = synthesizeBeep({ frequency: 440, durationMs: 50, pan: -1, sampleRate: 8000 })
+    const view = new DataView(wav.buffer)
+    expect(String.fromCharCode(...wav.slice(0, 4))).toBe('RIFF')
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(40, true)).toBe(400 * 4)
+    expect(wav.length).toBe(44 + 1600)
+
+    let left = 0
+    let right = 0
+    for (let i = 0; i < 400; i++) {
+      left += Math.abs(view.getInt16(44 + i * 4, true))
+      right += Math.abs(view.getInt16(46 + i * 4, true))
+    }
+    expect(left).toBeGreaterThan(0)
+    expect(right).toBe(0)
+  })
+
+  it('encodes to the same base64 as Node', () => {
+    const wav = synthesizeBeep({ frequency: 660, durationMs: 10, pan: 0.5, sampleRate: 8000 })
+    for (const bytes of [wav, wav.slice(0, 44), wav.slice(0, 43), wav.slice(0, 1)]) {
+      expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'))
+    }
+  })
+})
+
+describe('clearPathSide', () => {
+  it('points to the open side of the frame', () => {
+    expect(clearPathSide([[0.2, 0.4, 0.9, 0.95]])).toBe('left')
+    expect(clearPathSide([[0.2, 0.05, 0.9, 0.6]])).toBe('right')
+  })
+
+  it('merges overlapping boxes before judging a side', () => {
+    expect(clearPathSide([[0.2, 0.5, 0.9, 0.8], [0.3, 0.6, 0.8, 0.9], [0.1, 0.1, 0.3, 0.2]])).toBe('left')
+  })
+
+  it('gives no hint when both sides are blocked or both are open', () => {
+    expect(clearPathSide([[0.2, 0.05, 0.9, 0.95]])).toBeNull()
+    expect(clearPathSide([[0.3, 0.45, 0.7, 0.55]])).toBeNull()
+    expect(clearPathSide([])).toBeNull()
+  })
+
+  it('is spoken after the obstacle', () => {
+    const text = describeObstacle({ label: 'chair', centerX: 0.6, height: 0.5, distance: 1.2, level: 'warning', clearSide: 'left' }).text
+    expect(text).toBe('Chair ahead, about 1 meter, clear path to the left')
+  })
+})
@@ -0,0 +1,120 @@
+import { analyzeDetection, DetectionOptions } from '../../hooks/detectionCore'
+import {
+  CameraModel,
+  cameraFromFormat,
+  DEFAULT_CAMERA,
+  estimateDistance,
+  estimateFromGround,
+  estimateFromSize,
+} from '../distance'
+
+// Level camera with a 90° field of view: focal length is exactly 0.5.
+const level: CameraModel = { verticalFovDeg: 90, tiltDeg: 0, heightM: 1.5 }
+
+const options: DetectionOptions = {
+  estimator: 'heuristic',
+  frames: 12,
+  threshold: 0.4,
+  hysteresis: 0.12,
+  minSlope: 0.008,
+  suddenDelta: 0.15,
+  smoothingWindow: 3,
+  allowSizeOnly: false,
+  triggerDistance: 1.5,
+  distanceHysteresis: 0.4,
+  minClosingSpeed: 0.2,
+  cautionTimeToContact: 4,
+  timeToContact: 2.5,
+  imminentTimeToContact: 1.2,
+  ttcHysteresis: 0.25,
+  minTtcConfidence: 0.5,
+}
+
+describe('distance estimation', () => {
+  it('uses the pinhole model for known classes', () => {
+    // A 1.7 m person filling half the frame at f = 0.5 is 1.7 m away.
+    const estimate = estimateFromSize([0.25, 0.4, 0.75, 0.6], { meters: 1.7, spread: 0.1 }, level)
+    expect(estimate?.meters).toBeCloseTo(1.7)
+    expect(estimate?.sigma).toBeGreaterThan(0.17)
+  })
+
+  it('intersects the bottom edge with the ground plane', () => {
+    // 45° below the axis of a level camera 1.5 m up.
+    expect(estimateFromGround([0.2, 0.4, 1, 0.6], level)?.meters).toBeCloseTo(1.5)
+    // At or above the horizon there is no ground point.
+    expect(estimateFromGround([0.2, 0.4, 0.5, 0.6], level)).toBeNull()
+  })
+
+  it('fuses both estimates with a smaller uncertainty than either', () => {
+    const box: [number, number, number, number] = [0.3, 0.4, 0.75, 0.6]
+    const size = estimateFromSize(box, { meters: 1.7, spread: 0.12 }, DEFAULT_CAMERA)!
+    const ground = estimateFromGround(box, DEFAULT_CAMERA)!
+    const fused = estimateDistance(box, 'person', DEFAULT_CAMERA)!
+    expect(fused.method).toBe('fused')
+    expect(fused.meters).toBeGreaterThan(Math.min(size.meters, ground.meters))
+    expect(fused.meters).toBeLessThan(Math.max(size.meters, ground.meters))
+    expect(fused.sigma).toBeLessThan(Math.min(size.sigma, ground.sigma))
+  })
+
+  it('ranges a low table even though its box is short', () => {
+    // A 0.75 m table 1.5 m ahead of the default camera; box height 0.33 never passes the 0.4 height threshold.
+    const estimate = estimateDistance([0.64, 0.3, 0.97, 0.7], 'dining table', DEFAULT_CAMERA)!
+    expect(estimate.meters).toBeGreaterThan(1.3)
+    expect(estimate.meters).toBeLessThan(1.8)
+  })
+
+  it('only trusts the ground plane when the top is cut off', () => {
+    const estimate = estimateDistance([0, 0.3, 0.8, 0.7], 'person', DEFAULT_CAMERA)!
+    expect(estimate.method).toBe('ground')
+  })
+
+  it('bounds objects that reach below the frame by its bottom edge', () => {
+    const edge = estimateFromGround([0, 0, 1, 1], DEFAULT_CAMERA)!
+    const estimate = estimateDistance([0.2, 0.3, 1, 0.7], 'chair', DEFAULT_CAMERA)!
+    expect(estimate.meters).toBeCloseTo(edge.meters)
+  })
+
+  it('reads the field of view from the camera format', () => {
+    expect(cameraFromFormat({ fieldOfView: 70 }, 5, 1.2)).toEqual({ verticalFovDeg: 70, tiltDeg: 5, heightM: 1.2 })
+    expect(cameraFromFormat(null, 5, 1.2).verticalFovDeg).toBe(DEFAULT_CAMERA.verticalFovDeg)
+    expect(cameraFromFormat({ fieldOfView: 0 }, 5, 1.2, 60).verticalFovDeg).toBe(60)
+  })
+})
+
+describe('distance triggers', () => {
+  const times = (n: number) => Array.from({ length: n }, (_, i) => i * 100)
+  const flat = (n: number, v: number) => Array.from({ length: n }, () => v)
+  const metric = (distances: number[]) => ({ times: times(distances.length), distances, distanceTimes: times(distances.length) })
+
+  it('reports a still obstacle inside half the trigger distance', () => {
+    const res = analyzeDetection(flat(6, 0.3), flat(6, 0.8), false, options, metric(flat(6, 0.7)))
+    expect(res.newDetected).toBe(true)
+    expect(res.alertLevel).toBe('warning')
+    expect(res.closingSpeed).toBeCloseTo(0)
+    expect(res.timeToContact?.seconds).toBe(Infinity)
+  })
+
+  it('waits for an approach within the trigger distance unless size alone is allowed', () => {
+    const series = metric(flat(6, 1.2))
+    expect(analyzeDetection(flat(6, 0.3), flat(6, 0.8), false, options, series).newDetected).toBe(false)
+    expect(analyzeDetection(flat(6, 0.3), flat(6, 0.8), false, { ...options, allowSizeOnly: true }, series).newDetected).toBe(true)
+  })
+
+  it('reports a fast approach by time to contact before the trigger distance', () => {
+    // Closing at 1.5 m/s, now 3.45 m away: 2.3 s to contact.
+    const distances = [4.2, 4.05, 3.9, 3.75, 3.6, 3.45]
+    const res = analyzeDetection(flat(6, 0.2), flat(6, 0.8), false, options, metric(distances))
+    expect(res.closingSpeed).toBeCloseTo(1.5)
+    expect(res.timeToContact?.source).toBe('distance')
+    expect(res.timeToContact?.confidence).toBeGreaterThan(0.99)
+    expect(res.timeToContact?.seconds).toBeCloseTo(2.3)
+    expect(res.alertLevel).toBe('warning')
+  })
+
+  it('clears with hysteresis once the obstacle is far enough', () => {
+    const near = analyzeDetection(flat(6, 0.3), flat(6, 0.8), true, options, metric(flat(6, 1.7)))
+    expect(near.newDetected).toBe(true)
+    const far = analyzeDetection(flat(6, 0.3), flat(6, 0.8), true, options, metric(flat(6, 2)))
+    expect(far.newDetected).toBe(false)
+  })
+})
@@ -0,0 +1,181 @@
+import {
+  HAPTIC_PRIORITY,
+  HapticStep,
+  PATH_CLEAR_PATTERN,
+  STEP_PATTERN,
+  approachingFastPattern,
+  createHapticEngine,
+  obstaclePattern,
+  patternDuration,
+  personPattern,
+  scaleStrength,
+} from '../hapticPatterns'
+
+// Timers fire in order as the clock is advanced.
+function fakeClock() {
+  let time = 0
+  let nextId = 0
+  const timers = new Map<number, { at: number; callback: () => void }>()
+  return {
+    now: () => time,
+    setTimer: (callback: () => void, ms: number) => {
+      timers.set(++nextId, { at: time + ms, callback })
+      return nextId
+    },
+    clearTimer: (id: unknown) => {
+      timers.delete(id as number)
+    },
+    advance(ms: number) {
+      const end = time + ms
+      for (;;) {
+        const due = [...timers.entries()].filter(([, t]) => t.at <= end).sort((a, b) => a[1].at - b[1].at)[0]
+        if (!due) break
+        timers.delete(due[0])
+        time = due[1].at
+        due[1].callback()
+      }
+      time = end
+    },
+  }
+}
+
+function harness(options: { intensity?: number; quiet?: boolean } = {}) {
+  const clock = fakeClock()
+  const felt: { at: number; step: Exclude<HapticStep, { type: 'pause' }> }[] = []
+  const engine = createHapticEngine({ ...clock, ...options, output: step => felt.push({ at: clock.now(), step }) })
+  return { clock, felt, engine }
+}
+
+const beat = obstaclePattern('caution', 'center')
+
+describe('patterns', () => {
+  it('feel different for each situation', () => {
+    const patterns = [personPattern('center'), STEP_PATTERN, approachingFastPattern('center'), PATH_CLEAR_PATTERN, beat]
+    const signatures = patterns.map(p => JSON.stringify(p.steps))
+    expect(new Set(signatures).size).toBe(patterns.length)
+  })
+
+  it('repeat once ahead, twice on the left and three times on the right', () => {
+    const impacts = (steps: HapticStep[]) => steps.filter(s => s.type === 'impact').length
+    expect(impacts(personPattern('center').steps)).toBe(2)
+    expect(impacts(personPattern('left').steps)).toBe(4)
+    expect(impacts(personPattern('right').steps)).toBe(6)
+    expect(patternDuration(obstaclePattern('warning', 'right'))).toBe(180)
+  })
+})
+
+describe('createHapticEngine', () => {
+  it('beats at the alert tempo and plays pauses in between', () => {
+    const { clock, felt, engine } = harness()
+    engine.setAlert('obstacle', { pattern: personPattern('center'), tempoMs: 500, priority: HAPTIC_PRIORITY.caution })
+    clock.advance(1100)
+    expect(felt.map(f => f.at)).toEqual([0, 70, 500, 570, 1000, 1070])
+    expect(felt[0].step).toEqual({ type: 'impact', strength: 'heavy' })
+    expect(felt[1].step).toEqual({ type: 'impact', strength: 'soft' })
+  })
+
+  it('changes tempo from the last beat without dropping or doubling one', () => {
+    const { clock, felt, engine } = harness()
+    const alert = { pattern: beat, priority: HAPTIC_PRIORITY.caution }
+    engine.setAlert('obstacle', { ...alert, tempoMs: 1000 })
+    clock.advance(300)
+    engine.setAlert('obstacle', { ...alert, tempoMs: 200 })
+    clock.advance(100)
+    expect(felt.map(f => f.at)).toEqual([0, 300])
+
+    engine.setAlert('obstacle', { ...alert, tempoMs: 800 })
+    clock.advance(1000)
+    expect(felt.map(f => f.at)).toEqual([0, 300, 1100])
+
+    // Updating with the same tempo keeps the rhythm.
+    engine.setAlert('obstacle', { ...alert, tempoMs: 800 })
+    clock.advance(800)
+    expect(felt.map(f => f.at)).toEqual([0, 300, 1100, 1900])
+  })
+
+  it('leaves a gap after each pattern when the tempo is shorter than the pattern', () => {
+    const { clock, felt, engine } = harness()
+    engine.setAlert('obstacle', { pattern: obstaclePattern('imminent', 'right'), tempoMs: 100, priority: HAPTIC_PRIORITY.imminent })
+    clock.advance(800)
+    // 180 ms of taps and a 200 ms gap, instead of the next triple starting on the last tap.
+    expect(felt.map(f => f.at)).toEqual([0, 90, 180, 380, 470, 560, 760])
+  })
+
+  it('keeps the fastest directional pattern countable at the imminent tempo', () => {
+    const { clock, felt, engine } = harness()
+    const pattern = approachingFastPattern('right')
+    engine.setAlert('obstacle', { pattern, tempoMs: 200, priority: HAPTIC_PRIORITY.imminent })
+    clock.advance(1000)
+    expect(patternDuration(pattern)).toBe(420)
+    expect(felt.map(f => f.at)).toEqual([0, 40, 80, 170, 210, 250, 340, 380, 420, 620, 660, 700, 790, 830, 870, 960, 1000])
+  })
+
+  it('plays only the most urgent of overlapping alerts', () => {
+    const { clock, felt, engine } = harness()
+    engine.setAlert('hazard', { pattern: approachingFastPattern('center'), tempoMs: 300, priority: HAPTIC_PRIORITY.imminent })
+    engine.setAlert('obstacle', { pattern: beat, tempoMs: 1000, priority: HAPTIC_PRIORITY.caution })
+    clock.advance(700)
+    engine.setAlert('hazard', null)
+    clock.advance(1000)
+    const strengths = felt.map(f => (f.step.type === 'impact' ? f.step.strength : f.step.kind))
+    expect(strengths.slice(0, 9)).toEqual(Array(9).fill('rigid'))
+    // The remaining alert keeps the shared rhythm, one of its own beats after the last one felt.
+    expect(strengths.slice(9)).toEqual(['light'])
+    expect(felt[9].at).toBe(1600)
+  })
+
+  it('lets a one-shot interrupt a less urgent alert and drops one less urgent than the alert', () => {
+    const { clock, felt, engine } = harness()
+    engine.setAlert('obstacle', { pattern: personPattern('center'), tempoMs: 1000, priority: HAPTIC_PRIORITY.warning })
+    expect(engine.play(PATH_CLEAR_PATTERN, HAPTIC_PRIORITY.info)).toBe(false)
+    expect(engine.play(STEP_PATTERN, HAPTIC_PRIORITY.hazard)).toBe(true)
+    clock.advance(600)
+    // The heartbeat's echo is cut short by the step warning.
+    expect(felt.map(f => f.at)).toEqual([0, 0, 250, 500])
+    expect(felt[1].step).toEqual({ type: 'notification', kind: 'warning' })
+    clock.advance(500)
+    expect(felt.map(f => f.at)).toEqual([0, 0, 250, 500, 1000, 1070])
+  })
+
+  it('scales impacts with the global intensity', () => {
+    expect(scaleStrength('heavy', 1)).toBe('heavy')
+    expect(scaleStrength('heavy', 0.5)).toBe('medium')
+    expect(scaleStrength('light', 0.4)).toBe('soft')
+
+    const { clock, felt, engine } = harness({ intensity: 0.5 })
+    engine.play(STEP_PATTERN, HAPTIC_PRIORITY.hazard)
+    clock.advance(1000)
+    expect(felt.map(f => f.step)).toEqual([
+      { type: 'notification', kind: 'warning' },
+      { type: 'impact', strength: 'medium' },
+      { type: 'impact', strength: 'medium' },
+    ])
+
+    engine.setIntensity(0)
+    expect(engine.play(STEP_PATTERN, HAPTIC_PRIORITY.hazard)).toBe(false)
+  })
+
+  it('only lets imminent alerts through in quiet mode', () => {
+    const { clock, felt, engine } = harness({ quiet: true })
+    engine.setAlert('obstacle', { pattern: beat, tempoMs: 500, priority: HAPTIC_PRIORITY.warning })
+    clock.advance(1000)
+    expect(felt).toHaveLength(0)
+
+    engine.setAlert('obstacle', { pattern: beat, tempoMs: 500, priority: HAPTIC_PRIORITY.imminent })
+    clock.advance(600)
+    expect(felt.map(f => f.at)).toEqual([1000, 1500])
+
+    engine.setQuiet(false)
+    engine.setAlert('obstacle', { pattern: beat, tempoMs: 500, priority: HAPTIC_PRIORITY.caution })
+    clock.advance(500)
+    expect(felt.map(f => f.at)).toEqual([1000, 1500, 2000])
+  })
+
+  it('stops when disposed', () => {
+    const { clock, felt, engine } = harness()
+    engine.setAlert('obstacle', { pattern: beat, tempoMs: 200, priority: HAPTIC_PRIORITY.caution })
+    engine.dispose()
+    clock.advance(1000)
+    expect(felt).toHaveLength(1)
+  })
+})
@@ -0,0 +1,83 @@
+import { findModel, ModelManifest, ModelOutputLayout, manifestIssues } from '../modelManifest'
+import { adaptModelOutputs, parseAllDetections } from '../parseDetections'
+
+const indexed: ModelOutputLayout = { layout: 'indexed', boxes: 0, classIds: 1, scores: 2, boxFormat: 'yxyx', classIdOffset: 0 }
+
+describe('adaptModelOutputs', () => {
+  it('maps tensors by index for SSD-style outputs', () => {
+    const result = [
+      new Float32Array([0.1, 0.2, 0.6, 0.8, 0.3, 0.3, 0.4, 0.4]),
+      new Float32Array([0, 61]),
+      new Float32Array([0.9, 0.4]),
+      new Float32Array([2]),
+    ]
+    const out = adaptModelOutputs(result, indexed)
+    expect(Array.from(out.boxes)).toEqual(Array.from(new Float32Array([0.1, 0.2, 0.6, 0.8, 0.3, 0.3, 0.4, 0.4])))
+    expect(out.classIds).toEqual([0, 61])
+    expect(Array.from(out.confidenceScores)).toEqual(Array.from(new Float32Array([0.9, 0.4])))
+  })
+
+  it('follows a different tensor order, box format and class offset', () => {
+    const result = [
+      [0.8, 0.5],
+      [[[0.2, 0.1, 0.8, 0.6], [0.4, 0.4, 0.5, 0.5]]],
+      [1, 62],
+    ]
+    const out = adaptModelOutputs(result, { layout: 'indexed', boxes: 1, classIds: 2, scores: 0, boxFormat: 'xyxy', classIdOffset: 1 })
+    expect(out.boxes).toEqual([0.1, 0.2, 0.6, 0.8, 0.4, 0.4, 0.5, 0.5])
+    expect(out.classIds).toEqual([0, 61])
+    expect(out.confidenceScores).toEqual([0.8, 0.5])
+  })
+
+  it('trims to the shorter of boxes and scores', () => {
+    const out = adaptModelOutputs([[0, 0, 1, 1], [5, 6], [0.7, 0.6, 0.5]], indexed)
+    expect(out.confidenceScores).toEqual([0.7])
+    expect(out.classIds).toEqual([5])
+  })
+
+  it('returns empty outputs when tensors are missing', () => {
+    expect(adaptModelOutputs([], indexed)).toEqual({ boxes: [], classIds: [], confidenceScores: [] })
+    expect(adaptModelOutputs(null, { layout: 'auto' })).toEqual({ boxes: [], classIds: [], confidenceScores: [] })
+  })
+
+  it('guesses the layout in auto mode', () => {
+    const result = [[0.9, 0.4], [0.1, 0.2, 0.6, 0.8, 0.3, 0.3, 0.4, 0.4], [0, 61]]
+    const out = adaptModelOutputs(result, { layout: 'auto' })
+    expect(out.boxes).toEqual([0.1, 0.2, 0.6, 0.8, 0.3, 0.3, 0.4, 0.4])
+    expect(out.classIds).toEqual([0, 61])
+    expect(out.confidenceScores).toEqual([0.9, 0.4])
+  })
+})
+
+describe('parseAllDetections', () => {
+  it('sorts boxes by confidence', () => {
+    const out = parseAllDetections([[0, 0, 0.5, 0.5, 0, 0, 0.9, 1], [3, 1], [0.3, 0.8]])
+    expect(out.map(d => d.confidence)).toEqual([0.8, 0.3])
+    expect(out[0].height).toBeCloseTo(0.9)
+  })
+})
+
+describe('model manifests', () => {
+  const manifest: ModelManifest = {
+    id: 'test',
+    name: 'Test',
+    description: '',
+    source: { url: 'https://example.test/model.tflite' },
+    labels: { offset: 0, labels: [] },
+    input: { width: 320, height: 320, dataType: 'uint8', pixelFormat: 'rgb', normalization: null },
+    output: indexed,
+  }
+
+  it('falls back to the first registered model', () => {
+    const other = { ...manifest, id: 'other' }
+    expect(findModel([manifest, other], 'other')).toBe(other)
+    expect(findModel([manifest, other], 'missing')).toBe(manifest)
+    expect(findModel([manifest, other], null)).toBe(manifest)
+  })
+
+  it('reports inconsistent manifests', () => {
+    expect(manifestIssues(manifest)).toEqual([])
+    expect(manifestIssues({ ...manifest, input: { ...manifest.input, normalization: { mean: 0.5, std: 0.5 } } })).toHaveLength(1)
+    expect(manifestIssues({ ...manifest, output: { ...indexed, scores: 0 } })).toEqual(['test: output tensors must be distinct'])
+  })
+})
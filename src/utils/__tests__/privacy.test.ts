@@ -0,0 +1,144 @@
+import { bucketCenterX, coarsenEvent, coarsenTimestamp, createPrivacyStore, DEFAULT_PRIVACY_SETTINGS, PrivacySettings } from '../privacy'
+
+const granted: PrivacySettings = { ...DEFAULT_PRIVACY_SETTINGS, consent: 'granted', consentedAt: 1 }
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('bucketCenterX', () => {
+  it('reports the middle of the strip the value falls in', () => {
+    expect(bucketCenterX(0.1, 3)).toBeCloseTo(0.167)
+    expect(bucketCenterX(0.5, 3)).toBe(0.5)
+    expect(bucketCenterX(0.95, 3)).toBeCloseTo(0.833)
+    expect(bucketCenterX(1, 3)).toBeCloseTo(0.833)
+    expect(bucketCenterX(0.42, 5)).toBe(0.5)
+  })
+
+  it('keeps exact values when bucketing is off', () => {
+    expect(bucketCenterX(0.4213, 0)).toBe(0.4213)
+  })
+})
+
+describe('coarsenTimestamp', () => {
+  it('floors to the chosen resolution and keeps exact times when it is off', () => {
+    expect(coarsenTimestamp(1700000012345, granted)).toBe(1700000012000)
+    expect(coarsenTimestamp(1700000012345, { ...granted, timestampResolutionMs: 60000 })).toBe(1699999980000)
+    expect(coarsenTimestamp(1700000012345, { ...granted, timestampResolutionMs: 0 })).toBe(1700000012345)
+  })
+})
+
+describe('coarsenEvent', () => {
+  const event = {
+    ts: 1700000012345,
+    trackId: 3,
+    height: 0.45678,
+    confidence: 0.87654,
+    centerX: 0.2,
+    classId: 0,
+    label: 'person',
+    smoothed: 0.41234,
+    slope: 0.0123456,
+    detected: true,
+  }
+
+  it('rounds timestamps and numbers and buckets the position', () => {
+    expect(coarsenEvent(event, granted)).toEqual({
+      ts: 1700000012000,
+      trackId: 3,
+      height: 0.46,
+      confidence: 0.88,
+      centerX: 0.167,
+      classId: 0,
+      label: 'person',
+      smoothed: 0.41,
+      slope: 0.0123,
+      detected: true,
+    })
+  })
+
+  it('supports minute resolution and exact positions', () => {
+    const out = coarsenEvent(event, { ...granted, timestampResolutionMs: 60000, centerXBuckets: 0 })
+    expect(out.ts).toBe(1699999980000)
+    expect(out.centerX).toBe(0.2)
+  })
+
+  it('drops fields outside the schema', () => {
+    const out = coarsenEvent({ ...event, deviceName: 'phone', box: [0, 0, 1, 1] }, granted)
+    expect(out).not.toHaveProperty('deviceName')
+    expect(out).not.toHaveProperty('box')
+  })
+})
+
+describe('createPrivacyStore', () => {
+  function memoryStorage(initial: Record<string, string> = {}) {
+    const data = { ...initial }
+    return {
+      data,
+      getItem: async (key: string) => data[key] ?? null,
+      setItem: async (key: string, value: string) => {
+        data[key] = value
+      },
+    }
+  }
+
+  it('starts without consent and persists the choice', async () => {
+    const storage = memoryStorage()
+    const store = createPrivacyStore({ storage, storageKey: 'privacy' })
+    await store.hydrate()
+    expect(store.getSnapshot()).toMatchObject({ consent: 'unknown', hydrated: true })
+
+    store.setConsent(true)
+    store.update({ centerXBuckets: 5 })
+    await Promise.resolve()
+
+    const restored = createPrivacyStore({ storage, storageKey: 'privacy' })
+    expect(restored.getSnapshot().hydrated).toBe(false)
+    await restored.hydrate()
+    expect(restored.getSnapshot()).toMatchObject({ consent: 'granted', centerXBuckets: 5, hydrated: true })
+    expect(restored.getSnapshot().consentedAt).toEqual(expect.any(Number))
+  })
+
+  it('ignores saved values that are not offered', async () => {
+    const storage = memoryStorage({ privacy: JSON.stringify({ consent: 'yes', timestampResolutionMs: 7, centerXBuckets: 2 }) })
+    const store = createPrivacyStore({ storage, storageKey: 'privacy' })
+    await store.hydrate()
+    expect(store.getSnapshot()).toMatchObject({ ...DEFAULT_PRIVACY_SETTINGS, hydrated: true })
+  })
+
+  it('collects the export from every data holder in registration order', async () => {
+    const store = createPrivacyStore({})
+    store.onExport(async () => [{ type: 'telemetry', count: 1 }, { ts: 1 }])
+    const unsubscribe = store.onExport(async () => [{ type: 'session', index: 1 }])
+    expect(await store.exportAll()).toEqual([{ type: 'telemetry', count: 1 }, { ts: 1 }, { type: 'session', index: 1 }])
+
+    unsubscribe()
+    expect(await store.exportAll()).toHaveLength(2)
+    store.onExport(async () => {
+      throw new Error('unreadable')
+    })
+    await expect(store.exportAll()).rejects.toThrow('unreadable')
+  })
+
+  it('asks every data holder to delete, even if one fails', async () => {
+    const store = createPrivacyStore({})
+    const first = jest.fn(async () => {
+      throw new Error('disk full')
+    })
+    const second = jest.fn()
+    store.onDeleteAll(first)
+    const unsubscribe = store.onDeleteAll(second)
+
+    await store.deleteAll()
+    expect(first).toHaveBeenCalled()
+    expect(second).toHaveBeenCalledTimes(1)
+
+    unsubscribe()
+    await store.deleteAll()
+    expect(second).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,95 @@
+import { BoxDecision } from '../../hooks/filterCore'
+import { Box } from '../../hooks/trackerCore'
+import { DEFAULT_CAMERA } from '../distance'
+import {
+  describeScene,
+  groupScene,
+  phraseGroup,
+  pluralize,
+  quantity,
+  SceneObject,
+  sceneObjects,
+} from '../sceneDescription'
+
+// Box centered at x with the given height, bottom at 0.9.
+function box(x: number, height = 0.3): Box {
+  return [0.9 - height, x - 0.05, 0.9, x + 0.05]
+}
+
+function rejected(label: string, b: Box, reason: BoxDecision['reason']): BoxDecision {
+  return { index: 0, classId: null, label, confidence: 0.6, box: b, height: null, width: null, centerX: null, accepted: false, reason }
+}
+
+describe('scene objects', () => {
+  it('keeps boxes rejected for position or size but not for confidence', () => {
+    const objects = sceneObjects({
+      detections: [{ height: 0.5, confidence: 0.8, label: 'person', box: box(0.5, 0.5) }],
+      rejected: [
+        rejected('chair', box(0.1), 'off-center'),
+        rejected('cup', box(0.5, 0.1), 'too-small'),
+        rejected('tv', box(0.5), 'ignored-class'),
+      ],
+    })
+    expect(objects.map(o => o.label)).toEqual(['person', 'chair', 'cup'])
+  })
+})
+
+describe('phrasing', () => {
+  it('pluralizes labels', () => {
+    expect(pluralize('chair')).toBe('chairs')
+    expect(pluralize('person')).toBe('people')
+    expect(pluralize('bus')).toBe('buses')
+    expect(pluralize('wine glass')).toBe('wine glasses')
+    expect(pluralize('traffic light')).toBe('traffic lights')
+    expect(pluralize('teddy')).toBe('teddies')
+    expect(pluralize('scissors')).toBe('scissors')
+  })
+
+  it('counts in words', () => {
+    expect(quantity(1, 'chair')).toBe('a chair')
+    expect(quantity(1, 'umbrella')).toBe('an umbrella')
+    expect(quantity(2, 'chair')).toBe('two chairs')
+    expect(quantity(12, 'person')).toBe('12 people')
+  })
+
+  it('says where and how far', () => {
+    expect(phraseGroup({ label: 'person', position: 'center', count: 1, distance: 2.1, proximity: 'far' })).toBe('a person ahead about 2 meters')
+    expect(phraseGroup({ label: 'chair', position: 'left', count: 2, distance: null, proximity: 'near' })).toBe('two chairs on the left close')
+    expect(phraseGroup({ label: null, position: 'right', count: 1, distance: null, proximity: 'far' })).toBe('an object on the right')
+  })
+})
+
+describe('describeScene', () => {
+  it('groups by class and position, nearest first', () => {
+    const objects: SceneObject[] = [
+      { label: 'person', box: box(0.5, 0.3) },
+      { label: 'chair', box: box(0.1, 0.6) },
+      { label: 'chair', box: box(0.2, 0.5) },
+    ]
+    const groups = groupScene(objects, null)
+    expect(groups).toHaveLength(2)
+    expect(groups[0]).toMatchObject({ label: 'chair', position: 'left', count: 2, proximity: 'near' })
+    expect(describeScene(groups)).toBe('Two chairs on the left close, a person ahead')
+  })
+
+  it('uses metric distance with a camera model', () => {
+    const [group] = groupScene([{ label: 'person', box: [0.3, 0.45, 0.8, 0.55] }], DEFAULT_CAMERA)
+    expect(group.distance).not.toBeNull()
+    expect(describeScene([group])).toMatch(/^A person ahead (about \d+(\.5)? meters?|less than 1 meter)$/)
+  })
+
+  it('keeps the nearest member of a group', () => {
+    const [group] = groupScene([{ label: 'chair', box: box(0.5, 0.2) }, { label: 'chair', box: box(0.5, 0.8) }], null)
+    expect(group.proximity).toBe('close')
+  })
+
+  it('sums up what does not fit', () => {
+    const labels = ['chair', 'table', 'person', 'dog', 'cat', 'cat']
+    const objects = labels.map(label => ({ label, box: box(0.5) }))
+    expect(describeScene(groupScene(objects, null))).toMatch(/, and two more things$/)
+  })
+
+  it('says when nothing is there', () => {
+    expect(describeScene([])).toBe('Nothing detected around you')
+  })
+})
@@ -0,0 +1,147 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { DEFAULT_FILTER_OPTIONS } from '../../hooks/filterCore'
+import { DEFAULT_CAMERA } from '../distance'
+import { parseLabelMap } from '../labelMap'
+import { compactFrame, compactMotion, createSessionHeader, parseSession, serializeSessionLine } from '../sessionRecording'
+import { detectionIntervals, formatTimeline, replaySession, ReplayOptions } from '../sessionReplay'
+
+const labelMap = parseLabelMap(require('../../../assets/labelmap.json'))
+
+// Mirrors the indoor .env profile.
+const indoor: ReplayOptions = {
+  filter: { ...DEFAULT_FILTER_OPTIONS, minConfidence: 0.45, labelMap },
+  tracker: {
+    iouThreshold: 0.3,
+    maxMisses: 5,
+    detection: {
+      estimator: 'heuristic',
+      frames: 12,
+      threshold: 0.4,
+      hysteresis: 0.12,
+      minSlope: 0.008,
+      suddenDelta: 0.15,
+      smoothingWindow: 6,
+      allowSizeOnly: false,
+      triggerDistance: 1.5,
+      distanceHysteresis: 0.4,
+      minClosingSpeed: 0.2,
+      cautionTimeToContact: 4,
+      timeToContact: 2.5,
+      imminentTimeToContact: 1.2,
+      ttcHysteresis: 0.25,
+      minTtcConfidence: 0.5,
+    },
+    camera: null,
+  },
+}
+
+function loadSession(name: string) {
+  return parseSession(fs.readFileSync(path.join(__dirname, 'sessions', name), 'utf8'))
+}
+
+describe('session recording', () => {
+  it('round-trips frames through NDJSON', () => {
+    const boxes = [[0.1, 0.2, 0.5, 0.6], [0.3, 0.3, 0.4, 0.4]]
+    const frame = compactFrame(33.4, 7, boxes, [0, 61], [0.91234, 0.05])
+    expect(frame).toEqual({ t: 33, f: 7, b: [0.1, 0.2, 0.5, 0.6], c: [0], s: [0.912] })
+
+    const text = serializeSessionLine(createSessionHeader(1000, 'model.tflite')) + serializeSessionLine(frame)
+    const session = parseSession(text)
+    expect(session.header.startedAt).toBe(1000)
+    expect(session.frames).toEqual([frame])
+  })
+
+  it('accepts flat box tensors', () => {
+    const frame = compactFrame(0, 1, new Float32Array([0, 0, 0.5, 0.5]), new Float32Array([3]), new Float32Array([0.5]))
+    expect(frame.b).toEqual([0, 0, 0.5, 0.5])
+    expect(frame.c).toEqual([3])
+  })
+
+  it('round-trips IMU samples alongside frames', () => {
+    const sample = compactMotion(12.6, { t: 0, rotation: [10.123, 0, -5], acceleration: [0.12345, 1, 0] })
+    expect(sample).toEqual({ type: 'imu', t: 13, r: [10.12, 0, -5], a: [0.123, 1, 0] })
+
+    const text = serializeSessionLine(createSessionHeader(1000, 'model.tflite')) + serializeSessionLine(sample)
+    const session = parseSession(text)
+    expect(session.frames).toEqual([])
+    expect(session.motion).toEqual([{ t: 13, rotation: [10.12, 0, -5], acceleration: [0.123, 1, 0] }])
+  })
+
+  it('rejects sessions without a header', () => {
+    expect(() => parseSession('{"t":0,"f":1,"b":[],"c":[],"s":[]}\n')).toThrow('no header')
+  })
+})
+
+describe('session replay', () => {
+  it('detects a person walking down the corridor and ignores the side chair and cup', () => {
+    const timeline = replaySession(loadSession('person-approaching.ndjson'), indoor)
+    const intervals = detectionIntervals(timeline)
+
+    expect(intervals).toHaveLength(1)
+    expect(intervals[0].label).toBe('person')
+    expect(intervals[0].start).toBeGreaterThan(1500)
+    expect(formatTimeline(timeline)).toContain('DETECTED (person)')
+  })
+
+  it('replays every recorded frame, since the device already paced them', () => {
+    const session = loadSession('person-approaching.ndjson')
+    expect(replaySession(session, indoor)).toHaveLength(session.frames.length)
+  })
+
+  it('spaces frames out when a cooldown is asked for', () => {
+    const session = loadSession('person-approaching.ndjson')
+    const timeline = replaySession(session, { ...indoor, cooldownMs: 500 })
+    for (let i = 1; i < timeline.length; i++) {
+      expect(timeline[i].t - timeline[i - 1].t).toBeGreaterThanOrEqual(500)
+    }
+  })
+
+  it('detects later with a stricter threshold', () => {
+    // Time-to-contact alerts would fire first regardless of the size threshold.
+    const session = loadSession('person-approaching.ndjson')
+    const sizeOnly = { ...indoor.tracker.detection, cautionTimeToContact: 0, timeToContact: 0, imminentTimeToContact: 0 }
+    const base = detectionIntervals(replaySession(session, { ...indoor, tracker: { ...indoor.tracker, detection: sizeOnly } }))[0]
+    const strict = { ...indoor, tracker: { ...indoor.tracker, detection: { ...sizeOnly, threshold: 0.6 } } }
+    const late = detectionIntervals(replaySession(session, strict))[0]
+    expect(late.start).toBeGreaterThan(base.start)
+  })
+
+  it('alerts on time to contact before the size threshold is reached', () => {
+    const session = loadSession('person-approaching.ndjson')
+    const sizeOnly = { ...indoor.tracker.detection, cautionTimeToContact: 0, timeToContact: 0, imminentTimeToContact: 0 }
+    const bySize = detectionIntervals(replaySession(session, { ...indoor, tracker: { ...indoor.tracker, detection: sizeOnly } }))[0]
+    const byTtc = detectionIntervals(replaySession(session, indoor))[0]
+    expect(byTtc.start).toBeLessThan(bySize.start)
+  })
+
+  it('detects the person by distance when a camera model is given', () => {
+    // The recording stops with the person about 1.6 m away, so trigger a little further out.
+    const session = loadSession('person-approaching.ndjson')
+    const detection = { ...indoor.tracker.detection, triggerDistance: 2 }
+    const metric = { ...indoor, tracker: { ...indoor.tracker, detection, camera: DEFAULT_CAMERA } }
+    const timeline = replaySession(session, metric)
+    const intervals = detectionIntervals(timeline)
+
+    // At the full recorded frame rate an early time-to-contact alert may lapse once before the distance trigger holds.
+    expect(new Set(intervals.map(i => i.label))).toEqual(new Set(['person']))
+    expect(intervals[intervals.length - 1].end).toBe(timeline[timeline.length - 1].t)
+    expect(formatTimeline(timeline)).toMatch(/DETECTED \(person\).*distance=/)
+  })
+
+  it('ignores frames taken while the phone is swinging round', () => {
+    const session = loadSession('person-approaching.ndjson')
+    const end = session.frames[session.frames.length - 1].t
+    const turning = []
+    for (let t = 0; t <= end; t += 40) turning.push({ t, rotation: [0, 200, 0] as [number, number, number], acceleration: [0, 0, 0] as [number, number, number] })
+    expect(detectionIntervals(replaySession(session, indoor, turning))).toEqual([])
+  })
+
+  // REPLAY_SESSION=/path/to/session.ndjson npx jest sessionReplay prints the timeline of any recording.
+  const external = process.env.REPLAY_SESSION
+  ;(external ? it : it.skip)('prints the timeline of REPLAY_SESSION', () => {
+    const session = parseSession(fs.readFileSync(external as string, 'utf8'))
+    console.log(formatTimeline(replaySession(session, indoor)))
+  })
+})
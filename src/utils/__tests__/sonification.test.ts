@@ -0,0 +1,109 @@
+import {
+  DROP_OFF_CUE,
+  SPEECH_DUCK_GAIN,
+  duckedVolume,
+  pitchForProximity,
+  proximity,
+  sonificationVoice,
+  synthesizeCue,
+  synthesizeTone,
+  timbreForLabel,
+  voiceKey,
+} from '../sonification'
+
+const input = { alertLevel: 'warning' as const, label: 'chair', centerX: 0.5, distance: 2, height: 0.4 }
+
+function channels(wav: Uint8Array) {
+  const view = new DataView(wav.buffer)
+  const frames = (wav.length - 44) / 4
+  const left: number[] = []
+  const right: number[] = []
+  for (let i = 0; i < frames; i++) {
+    left.push(view.getInt16(44 + i * 4, true))
+    right.push(view.getInt16(46 + i * 4, true))
+  }
+  return { left, right }
+}
+
+describe('sonificationVoice', () => {
+  it('is silent without an alert', () => {
+    expect(sonificationVoice({ ...input, alertLevel: 'none' })).toBeNull()
+  })
+
+  it('rises in pitch as the obstacle gets closer', () => {
+    const far = sonificationVoice({ ...input, distance: 3.5 })!
+    const near = sonificationVoice({ ...input, distance: 0.8 })!
+    expect(near.frequency).toBeGreaterThan(far.frequency)
+    expect(pitchForProximity(0)).toBe(220)
+    expect(pitchForProximity(1)).toBe(880)
+  })
+
+  it('falls back to box height without a distance', () => {
+    expect(proximity(null, 0.4)).toBeCloseTo(0.5)
+    expect(proximity(null, null)).toBe(0)
+    expect(proximity(0.5, 0.1)).toBe(1)
+  })
+
+  it('pans with the obstacle', () => {
+    expect(sonificationVoice({ ...input, centerX: 0 })!.pan).toBe(-1)
+    expect(sonificationVoice({ ...input, centerX: 1 })!.pan).toBe(1)
+  })
+
+  it('gives people and vehicles their own timbre', () => {
+    expect(timbreForLabel('person')).toBe('hollow')
+    expect(timbreForLabel('car')).toBe('bright')
+    expect(timbreForLabel('chair')).toBe('pure')
+    expect(timbreForLabel(null)).toBe('pure')
+  })
+
+  it('caches one clip per audible difference', () => {
+    const a = sonificationVoice({ ...input, distance: 2 })!
+    const b = sonificationVoice({ ...input, distance: 2.02 })!
+    expect(voiceKey(a, true)).toBe(voiceKey(b, true))
+    expect(voiceKey(a, true)).not.toBe(voiceKey(a, false))
+  })
+})
+
+describe('synthesizeTone', () => {
+  const voice = { frequency: 440, pan: 1, timbre: 'hollow' as const }
+
+  it('loops seamlessly over whole cycles', () => {
+    const { right } = channels(synthesizeTone(voice, { durationMs: 100, looped: true, sampleRate: 8000 }))
+    expect(Math.abs(right[0])).toBeLessThan(50)
+    // The sample after the last one is the first again.
+    const step = right[1] - right[0]
+    expect(Math.abs(right[0] - right[right.length - 1] - step)).toBeLessThan(2000)
+    expect(Math.max(...right)).toBeGreaterThan(10000)
+  })
+
+  it('fades pulses in and out and follows the pan', () => {
+    const { left, right } = channels(synthesizeTone(voice, { durationMs: 50, looped: false, sampleRate: 8000 }))
+    expect(right).toHaveLength(400)
+    expect(right[0]).toBe(0)
+    expect(right[right.length - 1]).toBe(0)
+    expect(left.every(v => Math.abs(v) <= 1)).toBe(true)
+  })
+})
+
+describe('synthesizeCue', () => {
+  it('plays the notes in order with silence in between', () => {
+    const { left, right } = channels(synthesizeCue(DROP_OFF_CUE, { noteMs: 50, gapMs: 25, sampleRate: 8000 }))
+    expect(right).toHaveLength(3 * 400 + 2 * 200)
+    expect(right.slice(400, 600).every(v => v === 0)).toBe(true)
+    expect(right.slice(1000, 1200).every(v => v === 0)).toBe(true)
+    expect(left).toEqual(right)
+  })
+
+  it('falls in pitch, unlike any obstacle tone', () => {
+    const frequencies = DROP_OFF_CUE.map(voice => voice.frequency)
+    expect(frequencies).toEqual([...frequencies].sort((a, b) => b - a))
+    expect(new Set(frequencies).size).toBe(frequencies.length)
+  })
+})
+
+describe('duckedVolume', () => {
+  it('drops under speech', () => {
+    expect(duckedVolume(0.8, true)).toBeCloseTo(0.8 * SPEECH_DUCK_GAIN)
+    expect(duckedVolume(0.8, false)).toBe(0.8)
+  })
+})
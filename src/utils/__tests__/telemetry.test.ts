@@ -0,0 +1,220 @@
+import { createServer, IncomingMessage, Server } from 'http'
+import { AddressInfo } from 'net'
+import { gunzipSync } from 'zlib'
+
+import { backoffDelay, createTelemetryUploader, encodeBatch, TelemetryMetadata, TelemetryStorage } from '../telemetry'
+
+const metadata: TelemetryMetadata = { sessionId: 'session-1', appVersion: '1.0.0', model: 'model.tflite', platform: 'test' }
+
+type Received = { headers: IncomingMessage['headers']; lines: any[] }
+
+// Local collector that answers each request with the next queued status (200 once the list runs out).
+function startServer(statuses: number[] = []) {
+  const received: Received[] = []
+  const server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => {
+      const status = statuses.shift() ?? 200
+      if (status === 200) {
+        const raw = Buffer.concat(chunks)
+        const text = req.headers['content-encoding'] === 'gzip' ? gunzipSync(raw).toString() : raw.toString()
+        received.push({ headers: req.headers, lines: text.trim().split('\n').map(line => JSON.parse(line)) })
+      }
+      res.writeHead(status)
+      res.end()
+    })
+  })
+  return new Promise<{ url: string; received: Received[]; close: () => Promise<void> }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        url: `http://127.0.0.1:${port}/logs`,
+        received,
+        close: () => new Promise(done => server.close(() => done())),
+      })
+    })
+  })
+}
+
+function memoryStorage(): TelemetryStorage & { data: Record<string, string> } {
+  const data: Record<string, string> = {}
+  return {
+    data,
+    getItem: async key => data[key] ?? null,
+    setItem: async (key, value) => {
+      data[key] = value
+    },
+  }
+}
+
+// Timers are captured instead of run so retries happen only when the test says so.
+function manualTimers() {
+  const pending: { callback: () => void; ms: number }[] = []
+  return {
+    pending,
+    setTimer: (callback: () => void, ms: number) => {
+      const timer = { callback, ms }
+      pending.push(timer)
+      return timer
+    },
+    clearTimer: (handle: unknown) => {
+      const i = pending.indexOf(handle as any)
+      if (i >= 0) pending.splice(i, 1)
+    },
+  }
+}
+
+const events = (n: number, from = 0) => Array.from({ length: n }, (_, i) => ({ ts: from + i, trackId: 1 }))
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {})
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('backoffDelay', () => {
+  it('grows exponentially up to the cap with full jitter', () => {
+    expect(backoffDelay(0, 1000, 60000, () => 1)).toBe(1000)
+    expect(backoffDelay(3, 1000, 60000, () => 1)).toBe(8000)
+    expect(backoffDelay(10, 1000, 60000, () => 1)).toBe(60000)
+    expect(backoffDelay(3, 1000, 60000, () => 0.5)).toBe(4000)
+    expect(backoffDelay(3, 1000, 60000, () => 0)).toBe(0)
+  })
+})
+
+describe('encodeBatch', () => {
+  it('writes a metadata header followed by one event per line', () => {
+    const lines = encodeBatch(events(2), metadata, 42).trim().split('\n').map(line => JSON.parse(line))
+    expect(lines[0]).toEqual({ type: 'batch', ...metadata, sentAt: 42, count: 2 })
+    expect(lines.slice(1)).toEqual(events(2))
+  })
+})
+
+describe('createTelemetryUploader', () => {
+  it('posts gzipped NDJSON batches with session metadata', async () => {
+    const server = await startServer()
+    try {
+      const uploader = createTelemetryUploader({ url: server.url, metadata, batchSize: 3 })
+      uploader.enqueue(events(5))
+      const result = await uploader.flush()
+
+      expect(result).toEqual({ success: true, sent: 5 })
+      expect(uploader.size()).toBe(0)
+      expect(server.received).toHaveLength(2)
+      expect(server.received[0].headers['content-type']).toBe('application/x-ndjson')
+      expect(server.received[0].headers['content-encoding']).toBe('gzip')
+      expect(server.received[0].lines[0]).toMatchObject({ type: 'batch', sessionId: 'session-1', appVersion: '1.0.0', model: 'model.tflite', count: 3 })
+      expect(server.received.flatMap(r => r.lines.slice(1))).toEqual(events(5))
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('keeps events and retries with backoff after server errors', async () => {
+    const server = await startServer([503, 500])
+    const timers = manualTimers()
+    try {
+      const uploader = createTelemetryUploader({ url: server.url, metadata, random: () => 1, baseDelayMs: 100, ...timers })
+      uploader.enqueue(events(2))
+
+      expect(await uploader.flush()).toEqual({ success: false, reason: 'http-503', retryInMs: 100 })
+      expect(uploader.size()).toBe(2)
+      expect(uploader.pendingRetry()).toBe(true)
+
+      timers.pending.shift()!.callback()
+      expect(await uploader.flush()).toEqual({ success: false, reason: 'http-500', retryInMs: 200 })
+
+      timers.pending.shift()!.callback()
+      expect(await uploader.flush()).toEqual({ success: true, sent: 2 })
+      expect(server.received).toHaveLength(1)
+      expect(uploader.pendingRetry()).toBe(false)
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('retries when the server is unreachable', async () => {
+    const server = await startServer()
+    await server.close()
+    const timers = manualTimers()
+    const uploader = createTelemetryUploader({ url: server.url, metadata, random: () => 0.5, baseDelayMs: 1000, ...timers })
+    uploader.enqueue(events(1))
+
+    const result = await uploader.flush()
+    expect(result).toMatchObject({ success: false, retryInMs: 500 })
+    expect(uploader.size()).toBe(1)
+    expect(timers.pending).toHaveLength(1)
+  })
+
+  it('drops batches the server rejects outright', async () => {
+    const server = await startServer([400])
+    try {
+      const uploader = createTelemetryUploader({ url: server.url, metadata, batchSize: 2 })
+      uploader.enqueue(events(3))
+      expect(await uploader.flush()).toEqual({ success: true, sent: 1 })
+      expect(server.received[0].lines.slice(1)).toEqual(events(1, 2))
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('survives a restart through persistent storage', async () => {
+    const storage = memoryStorage()
+    const offline = createTelemetryUploader({ url: null, metadata, storage })
+    await offline.load()
+    offline.enqueue(events(3))
+    await offline.dispose()
+
+    const server = await startServer()
+    try {
+      const restarted = createTelemetryUploader({ url: server.url, metadata, storage, gzip: false })
+      restarted.enqueue(events(1, 3))
+      expect(await restarted.flush()).toEqual({ success: true, sent: 4 })
+      expect(server.received[0].headers['content-encoding']).toBeUndefined()
+      expect(server.received[0].lines.slice(1)).toEqual(events(4))
+      await restarted.dispose()
+      expect(JSON.parse(storage.data['ailens.telemetryQueue.v1'])).toEqual([])
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('batches writes to storage instead of rewriting the queue for every event', async () => {
+    const storage = memoryStorage()
+    const setItem = jest.spyOn(storage, 'setItem')
+    const timers = manualTimers()
+    const uploader = createTelemetryUploader({ url: null, metadata, storage, persistDelayMs: 2000, ...timers })
+    await uploader.load()
+    setItem.mockClear()
+
+    for (let i = 0; i < 100; i++) uploader.enqueue(events(1, i))
+    await uploader.save()
+    expect(setItem).toHaveBeenCalledTimes(1)
+    expect(timers.pending).toHaveLength(0)
+
+    for (let i = 100; i < 200; i++) uploader.enqueue(events(1, i))
+    expect(timers.pending).toHaveLength(1)
+    expect(timers.pending[0].ms).toBe(2000)
+    timers.pending.shift()!.callback()
+    await uploader.dispose()
+    expect(setItem).toHaveBeenCalledTimes(2)
+    expect(JSON.parse(storage.data['ailens.telemetryQueue.v1'])).toEqual(events(200))
+  })
+
+  it('caps the queue by dropping the oldest events', () => {
+    const uploader = createTelemetryUploader({ url: null, metadata, maxQueue: 3 })
+    uploader.enqueue(events(5))
+    expect(uploader.recent(10)).toEqual(events(3, 2))
+  })
+
+  it('does nothing without a URL', async () => {
+    const uploader = createTelemetryUploader({ url: null, metadata })
+    uploader.enqueue(events(1))
+    expect(await uploader.flush()).toEqual({ success: false, reason: 'no-url', retryInMs: null })
+    expect(uploader.size()).toBe(1)
+  })
+})
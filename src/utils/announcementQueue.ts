@@ -0,0 +1,185 @@
+import { AlertLevel } from '../hooks/detectionCore'
+import { GroundHazard } from '../hooks/groundCore'
+
+export type AnnouncementPriority = 'info' | 'warning' | 'urgent'
+
+export type HorizontalPosition = 'left' | 'center' | 'right'
+
+export type Proximity = 'far' | 'near' | 'close'
+
+export type Announcement = {
+  id: number
+  key: string
+  text: string
+  priority: AnnouncementPriority
+  createdAt: number
+}
+
+export type AnnouncementQueueOptions = {
+  repeatMs: number
+  maxAgeMs: number
+}
+
+export type AnnouncementQueueState = {
+  pending: Announcement[]
+  current: Announcement | null
+  lastSpoken: Record<string, { at: number; priority: AnnouncementPriority }>
+  nextId: number
+}
+
+export type ObstacleDescription = {
+  label?: string | null
+  centerX: number | null
+  height: number
+  // Meters; when known it replaces the box-height guess.
+  distance?: number | null
+  // When known, the alert level decides the priority instead of proximity.
+  level?: AlertLevel
+  // Appended as a hint of which way to step.
+  clearSide?: 'left' | 'right' | null
+  urgent?: boolean
+}
+
+const PRIORITY_RANK: Record<AnnouncementPriority, number> = {
+  info: 0,
+  warning: 1,
+  urgent: 2,
+}
+
+const LEVEL_PRIORITY: Record<AlertLevel, AnnouncementPriority> = {
+  none: 'info',
+  caution: 'info',
+  warning: 'warning',
+  imminent: 'urgent',
+}
+
+export function horizontalPosition(centerX: number | null): HorizontalPosition {
+  if (centerX == null || !isFinite(centerX)) return 'center'
+  if (centerX < 1 / 3) return 'left'
+  if (centerX > 2 / 3) return 'right'
+  return 'center'
+}
+
+export function proximityFromHeight(height: number): Proximity {
+  if (height >= 0.7) return 'close'
+  if (height >= 0.5) return 'near'
+  return 'far'
+}
+
+export function proximityFromDistance(meters: number): Proximity {
+  if (meters <= 1) return 'close'
+  if (meters <= 2) return 'near'
+  return 'far'
+}
+
+// Half-meter steps read naturally and do not pretend to more precision than the estimate has.
+export function spokenDistance(meters: number): string {
+  if (meters < 0.75) return 'less than 1 meter'
+  const rounded = Math.round(meters * 2) / 2
+  return `about ${rounded} ${rounded === 1 ? 'meter' : 'meters'}`
+}
+
+// Urgent classes (people, vehicles) are announced one step above their alert level.
+function priorityFromLevel(level: AlertLevel, urgent: boolean): AnnouncementPriority {
+  const priority = LEVEL_PRIORITY[level]
+  if (!urgent || priority === 'urgent') return priority
+  return priority === 'warning' ? 'urgent' : 'warning'
+}
+
+export function describeObstacle({ label, centerX, height, distance: meters, level, clearSide, urgent }: ObstacleDescription) {
+  const position = horizontalPosition(centerX)
+  const hasDistance = meters != null && isFinite(meters)
+  const proximity = hasDistance ? proximityFromDistance(meters) : proximityFromHeight(height)
+  const name = label ? label.charAt(0).toUpperCase() + label.slice(1) : 'Obstacle'
+  const where = position === 'center' ? 'ahead' : `on the ${position}`
+  const distance = hasDistance
+    ? spokenDistance(meters)
+    : proximity === 'close' ? 'very close' : proximity === 'near' ? 'close' : 'further away'
+  const priority: AnnouncementPriority = level
+    ? priorityFromLevel(level, urgent === true)
+    : urgent || proximity === 'close' ? 'urgent' : proximity === 'near' ? 'warning' : 'info'
+
+  return {
+    key: `${label ?? 'obstacle'}:${position}`,
+    text: `${name} ${where}, ${distance}${clearSide ? `, clear path to the ${clearSide}` : ''}`,
+    priority,
+  }
+}
+
+// A drop-off is announced a step above its level, like an urgent class.
+export function describeHazard({ kind, distance: meters, level }: Pick<GroundHazard, 'kind' | 'distance' | 'level'>) {
+  const name = kind === 'drop-off' ? 'Drop-off' : 'Wall'
+  const distance = meters != null && isFinite(meters) ? `, ${spokenDistance(meters)}` : ''
+  return {
+    key: `hazard:${kind}`,
+    text: `${name} ahead${distance}`,
+    priority: priorityFromLevel(level, kind === 'drop-off'),
+  }
+}
+
+export function createAnnouncementQueue(): AnnouncementQueueState {
+  return { pending: [], current: null, lastSpoken: {}, nextId: 1 }
+}
+
+export function enqueueAnnouncement(
+  state: AnnouncementQueueState,
+  announcement: { key: string; text: string; priority: AnnouncementPriority },
+  now: number,
+  options: AnnouncementQueueOptions
+): { state: AnnouncementQueueState; queued: boolean; interrupt: boolean } {
+  const rank = PRIORITY_RANK[announcement.priority]
+
+  // Same object announced recently: only repeat it early if it became more urgent.
+  const last = state.lastSpoken[announcement.key]
+  if (last && now - last.at < options.repeatMs && rank <= PRIORITY_RANK[last.priority]) {
+    return { state, queued: false, interrupt: false }
+  }
+
+  if (state.current && state.current.key === announcement.key && rank <= PRIORITY_RANK[state.current.priority]) {
+    return { state, queued: false, interrupt: false }
+  }
+
+  const entry: Announcement = { ...announcement, id: state.nextId, createdAt: now }
+  const pending = state.pending.filter(p => p.key !== announcement.key)
+  let insertAt = pending.findIndex(p => PRIORITY_RANK[p.priority] < rank)
+  if (insertAt === -1) insertAt = pending.length
+  pending.splice(insertAt, 0, entry)
+
+  const interrupt = state.current != null && rank > PRIORITY_RANK[state.current.priority]
+
+  return {
+    state: { ...state, pending, nextId: state.nextId + 1 },
+    queued: true,
+    interrupt,
+  }
+}
+
+export function nextAnnouncement(
+  state: AnnouncementQueueState,
+  now: number,
+  options: AnnouncementQueueOptions
+): { state: AnnouncementQueueState; announcement: Announcement | null } {
+  const pending = state.pending.filter(p => now - p.createdAt <= options.maxAgeMs)
+  const announcement = pending.shift() ?? null
+  if (!announcement) {
+    return { state: { ...state, pending }, announcement: null }
+  }
+
+  return {
+    state: {
+      ...state,
+      pending,
+      current: announcement,
+      lastSpoken: {
+        ...state.lastSpoken,
+        [announcement.key]: { at: now, priority: announcement.priority },
+      },
+    },
+    announcement,
+  }
+}
+
+export function finishAnnouncement(state: AnnouncementQueueState, id: number): AnnouncementQueueState {
+  if (!state.current || state.current.id !== id) return state
+  return { ...state, current: null }
+}
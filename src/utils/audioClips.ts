@@ -0,0 +1,23 @@
+import * as FileSystem from 'expo-file-system'
+
+import { bytesToBase64 } from './directionalCues'
+
+const CLIPS_DIRECTORY = `${FileSystem.cacheDirectory}clips/`
+
+// Generated clips live in the cache directory, written once per key and reused for the session.
+const clipFiles = new Map<string, Promise<string>>()
+
+export function cachedClip(key: string, synthesize: () => Uint8Array): Promise<string> {
+  let file = clipFiles.get(key)
+  if (!file) {
+    file = (async () => {
+      await FileSystem.makeDirectoryAsync(CLIPS_DIRECTORY, { intermediates: true })
+      const uri = `${CLIPS_DIRECTORY}${key}.wav`
+      await FileSystem.writeAsStringAsync(uri, bytesToBase64(synthesize()), { encoding: FileSystem.EncodingType.Base64 })
+      return uri
+    })()
+    file.catch(() => clipFiles.delete(key))
+    clipFiles.set(key, file)
+  }
+  return file
+}
@@ -0,0 +1,79 @@
+export type ClassPolicy = {
+  // Never treat this class as an obstacle (table-top items, things mounted overhead).
+  ignore?: boolean
+  // Minimum normalized box height before the class counts as an obstacle.
+  minHeight?: number
+  // Always announced and tracked as urgent, regardless of approach slope.
+  urgent?: boolean
+}
+
+export type ResolvedClassPolicy = {
+  ignore: boolean
+  minHeight: number | null
+  urgent: boolean
+}
+
+const URGENT: ClassPolicy = { urgent: true }
+const IGNORED: ClassPolicy = { ignore: true }
+
+export const DEFAULT_CLASS_POLICIES: Record<string, ClassPolicy> = {
+  person: { urgent: true, minHeight: 0.25 },
+  bicycle: URGENT,
+  car: URGENT,
+  motorcycle: URGENT,
+  bus: URGENT,
+  truck: URGENT,
+  train: URGENT,
+  dog: { minHeight: 0.15 },
+  'fire hydrant': { minHeight: 0.15 },
+  'parking meter': { minHeight: 0.25 },
+  bench: { minHeight: 0.2 },
+  chair: { minHeight: 0.25 },
+  couch: { minHeight: 0.2 },
+  'dining table': { minHeight: 0.2 },
+  'potted plant': { minHeight: 0.2 },
+  suitcase: { minHeight: 0.15 },
+  'traffic light': IGNORED,
+  airplane: IGNORED,
+  bird: IGNORED,
+  kite: IGNORED,
+  tie: IGNORED,
+  'wine glass': IGNORED,
+  cup: IGNORED,
+  fork: IGNORED,
+  knife: IGNORED,
+  spoon: IGNORED,
+  bowl: IGNORED,
+  banana: IGNORED,
+  apple: IGNORED,
+  sandwich: IGNORED,
+  orange: IGNORED,
+  broccoli: IGNORED,
+  carrot: IGNORED,
+  'hot dog': IGNORED,
+  pizza: IGNORED,
+  donut: IGNORED,
+  cake: IGNORED,
+  mouse: IGNORED,
+  remote: IGNORED,
+  keyboard: IGNORED,
+  'cell phone': IGNORED,
+  book: IGNORED,
+  clock: IGNORED,
+  scissors: IGNORED,
+  toothbrush: IGNORED,
+  'hair drier': IGNORED,
+}
+
+export function resolveClassPolicy(
+  label: string | null | undefined,
+  policies: Record<string, ClassPolicy> = DEFAULT_CLASS_POLICIES
+): ResolvedClassPolicy {
+  'worklet'
+  const policy = label ? policies[label] : undefined
+  return {
+    ignore: policy?.ignore ?? false,
+    minHeight: policy?.minHeight ?? null,
+    urgent: policy?.urgent ?? false,
+  }
+}
@@ -0,0 +1,385 @@
+import { ESTIMATOR_KINDS, EstimatorKind } from '../hooks/detectionCore'
+
+export interface ObstacleDetectionConfig {
+  OBSTACLE_ESTIMATOR: EstimatorKind
+  OBSTACLE_THRESHOLD: number
+  OBSTACLE_MIN_CONFIDENCE: number
+  OBSTACLE_HYSTERESIS: number
+  OBSTACLE_FRAMES: number
+  OBSTACLE_SMOOTHING_WINDOW: number
+  OBSTACLE_MIN_SLOPE: number
+  OBSTACLE_SUDDEN_DELTA: number
+  OBSTACLE_ALLOW_SIZE_ONLY: boolean
+  OBSTACLE_TRIGGER_DISTANCE_M: number
+  OBSTACLE_DISTANCE_HYSTERESIS_M: number
+  OBSTACLE_TTC_CAUTION_S: number
+  OBSTACLE_TTC_S: number
+  OBSTACLE_TTC_IMMINENT_S: number
+  OBSTACLE_TTC_HYSTERESIS: number
+  OBSTACLE_TTC_MIN_CONFIDENCE: number
+  OBSTACLE_MIN_CLOSING_SPEED: number
+  OBSTACLE_GROUND_HAZARDS: boolean
+  OBSTACLE_HAZARD_DISTANCE_M: number
+  OBSTACLE_HAZARD_FRAMES: number
+  OBSTACLE_MOTION_COMPENSATION: boolean
+  OBSTACLE_MAX_ROTATION_DEG_S: number
+  CAMERA_VERTICAL_FOV_DEG: number
+  CAMERA_TILT_DEG: number
+  CAMERA_HEIGHT_M: number
+  OBSTACLE_CENTER_TOLERANCE: number
+  OBSTACLE_MIN_BOX_HEIGHT: number
+  OBSTACLE_MIN_BOX_WIDTH: number
+  OBSTACLE_BASE_CONFIDENCE_FACTOR: number
+  OBSTACLE_BUSY_SCENE_COUNT: number
+  OBSTACLE_BUSY_CONFIDENCE_FACTOR: number
+  OBSTACLE_VERY_BUSY_SCENE_COUNT: number
+  OBSTACLE_VERY_BUSY_CONFIDENCE_FACTOR: number
+  OBSTACLE_FALLBACK_ENABLED: boolean
+  OBSTACLE_FALLBACK_HEIGHT: number
+  OBSTACLE_FALLBACK_MIN_CONFIDENCE: number
+  OBSTACLE_TRACK_IOU: number
+  OBSTACLE_TRACK_MAX_MISSES: number
+  OBSTACLE_SPEECH_ENABLED: boolean
+  OBSTACLE_SPEECH_CONFIDENCE: number
+  OBSTACLE_SPEECH_RATE: number
+  OBSTACLE_HAPTIC_REPEAT_MS: number
+  OBSTACLE_HAPTIC_MIN_INTERVAL_MS: number
+  OBSTACLE_HAPTIC_MAX_INTERVAL_MS: number
+  OBSTACLE_DIRECTIONAL_HAPTICS: boolean
+  OBSTACLE_HAPTIC_INTENSITY: number
+  OBSTACLE_HAPTIC_QUIET: boolean
+  OBSTACLE_AUDIO_CUES_ENABLED: boolean
+  OBSTACLE_AUDIO_CUES_VOLUME: number
+  OBSTACLE_CLEAR_PATH_HINT: boolean
+  OBSTACLE_SONIFICATION_ENABLED: boolean
+  OBSTACLE_SONIFICATION_PULSED: boolean
+  OBSTACLE_SONIFICATION_VOLUME: number
+  DETECTION_MODEL: string | null
+  DETECTION_COOLDOWN_MS: number
+  DETECTION_TARGET_FPS: number
+  DETECTION_MIN_FPS: number
+  DETECTION_RECORD_SESSIONS: boolean
+  DETECTION_AUTO_START: boolean
+  DETECTION_AUTO_PAUSE: boolean
+  DETECTION_DEBUG_OVERLAY: boolean
+  DETECTION_LOG_URL: string | null
+  DETECTION_LOG_BATCH_SIZE: number
+  DETECTION_LOG_SEND_IMMEDIATE: boolean
+  DETECTION_LOG_MAX: number
+}
+
+export type ConfigKey = keyof ObstacleDetectionConfig
+export type NumberConfigKey = { [K in ConfigKey]: ObstacleDetectionConfig[K] extends number ? K : never }[ConfigKey]
+
+export type NumberField = { type: 'number'; default: number; min: number; max: number; integer?: boolean }
+export type BooleanField = { type: 'boolean'; default: boolean }
+export type StringField = { type: 'string'; default: string | null }
+export type ChoiceField<T extends string = string> = { type: 'choice'; default: T; values: readonly T[] }
+
+// Free strings may be null; a union of string literals is a choice between them.
+type FieldFor<T> = [T] extends [number]
+  ? NumberField
+  : [T] extends [boolean]
+    ? BooleanField
+    : [string] extends [T]
+      ? StringField
+      : ChoiceField<Extract<T, string>>
+
+export type ConfigSchema = { [K in ConfigKey]: FieldFor<ObstacleDetectionConfig[K]> }
+
+// Defaults are the indoor profile.
+export const CONFIG_SCHEMA: ConfigSchema = {
+  OBSTACLE_ESTIMATOR: { type: 'choice', default: 'heuristic', values: ESTIMATOR_KINDS },
+  OBSTACLE_THRESHOLD: { type: 'number', default: 0.4, min: 0, max: 1 },
+  OBSTACLE_MIN_CONFIDENCE: { type: 'number', default: 0.45, min: 0, max: 1 },
+  OBSTACLE_HYSTERESIS: { type: 'number', default: 0.12, min: 0, max: 1 },
+  OBSTACLE_FRAMES: { type: 'number', default: 12, min: 2, max: 30, integer: true },
+  OBSTACLE_SMOOTHING_WINDOW: { type: 'number', default: 6, min: 1, max: 30, integer: true },
+  OBSTACLE_MIN_SLOPE: { type: 'number', default: 0.008, min: 0, max: 1 },
+  OBSTACLE_SUDDEN_DELTA: { type: 'number', default: 0.15, min: 0, max: 1 },
+  OBSTACLE_ALLOW_SIZE_ONLY: { type: 'boolean', default: false },
+  OBSTACLE_TRIGGER_DISTANCE_M: { type: 'number', default: 1.5, min: 0.3, max: 10 },
+  OBSTACLE_DISTANCE_HYSTERESIS_M: { type: 'number', default: 0.4, min: 0, max: 5 },
+  // Time to contact for the caution, warning and imminent alert levels.
+  OBSTACLE_TTC_CAUTION_S: { type: 'number', default: 4, min: 0, max: 10 },
+  OBSTACLE_TTC_S: { type: 'number', default: 2.5, min: 0, max: 10 },
+  OBSTACLE_TTC_IMMINENT_S: { type: 'number', default: 1.2, min: 0, max: 10 },
+  OBSTACLE_TTC_HYSTERESIS: { type: 'number', default: 0.25, min: 0, max: 2 },
+  OBSTACLE_TTC_MIN_CONFIDENCE: { type: 'number', default: 0.5, min: 0, max: 1 },
+  OBSTACLE_MIN_CLOSING_SPEED: { type: 'number', default: 0.2, min: 0, max: 5 },
+  OBSTACLE_GROUND_HAZARDS: { type: 'boolean', default: true },
+  OBSTACLE_HAZARD_DISTANCE_M: { type: 'number', default: 2.5, min: 0.5, max: 6 },
+  OBSTACLE_HAZARD_FRAMES: { type: 'number', default: 3, min: 1, max: 30, integer: true },
+  // Frames taken while the phone turns faster than this (deg/s) are skipped; slower turns count for less.
+  OBSTACLE_MOTION_COMPENSATION: { type: 'boolean', default: true },
+  OBSTACLE_MAX_ROTATION_DEG_S: { type: 'number', default: 120, min: 30, max: 360, integer: true },
+  // Used when the camera format does not report a field of view.
+  CAMERA_VERTICAL_FOV_DEG: { type: 'number', default: 65, min: 20, max: 120 },
+  CAMERA_TILT_DEG: { type: 'number', default: 10, min: -10, max: 60 },
+  CAMERA_HEIGHT_M: { type: 'number', default: 1.3, min: 0.3, max: 2.5 },
+  OBSTACLE_CENTER_TOLERANCE: { type: 'number', default: 0.3, min: 0, max: 0.5 },
+  OBSTACLE_MIN_BOX_HEIGHT: { type: 'number', default: 0.35, min: 0, max: 1 },
+  OBSTACLE_MIN_BOX_WIDTH: { type: 'number', default: 0.15, min: 0, max: 1 },
+  OBSTACLE_BASE_CONFIDENCE_FACTOR: { type: 'number', default: 0.5, min: 0, max: 1 },
+  OBSTACLE_BUSY_SCENE_COUNT: { type: 'number', default: 3, min: 0, max: 100, integer: true },
+  OBSTACLE_BUSY_CONFIDENCE_FACTOR: { type: 'number', default: 0.7, min: 0, max: 1 },
+  OBSTACLE_VERY_BUSY_SCENE_COUNT: { type: 'number', default: 5, min: 0, max: 100, integer: true },
+  OBSTACLE_VERY_BUSY_CONFIDENCE_FACTOR: { type: 'number', default: 0.8, min: 0, max: 1 },
+  // Off by default: a made-up obstacle hides broken model output, which the health monitor reports instead.
+  OBSTACLE_FALLBACK_ENABLED: { type: 'boolean', default: false },
+  OBSTACLE_FALLBACK_HEIGHT: { type: 'number', default: 0.6, min: 0, max: 1 },
+  OBSTACLE_FALLBACK_MIN_CONFIDENCE: { type: 'number', default: 0.5, min: 0, max: 1 },
+  OBSTACLE_TRACK_IOU: { type: 'number', default: 0.3, min: 0.01, max: 1 },
+  OBSTACLE_TRACK_MAX_MISSES: { type: 'number', default: 5, min: 0, max: 60, integer: true },
+  OBSTACLE_SPEECH_ENABLED: { type: 'boolean', default: true },
+  OBSTACLE_SPEECH_CONFIDENCE: { type: 'number', default: 0.8, min: 0, max: 1 },
+  OBSTACLE_SPEECH_RATE: { type: 'number', default: 1, min: 0.5, max: 2 },
+  OBSTACLE_HAPTIC_REPEAT_MS: { type: 'number', default: 2000, min: 0, max: 60000, integer: true },
+  OBSTACLE_HAPTIC_MIN_INTERVAL_MS: { type: 'number', default: 200, min: 50, max: 5000, integer: true },
+  OBSTACLE_HAPTIC_MAX_INTERVAL_MS: { type: 'number', default: 1000, min: 50, max: 5000, integer: true },
+  OBSTACLE_DIRECTIONAL_HAPTICS: { type: 'boolean', default: true },
+  OBSTACLE_HAPTIC_INTENSITY: { type: 'number', default: 1, min: 0, max: 1 },
+  OBSTACLE_HAPTIC_QUIET: { type: 'boolean', default: false },
+  OBSTACLE_AUDIO_CUES_ENABLED: { type: 'boolean', default: true },
+  OBSTACLE_AUDIO_CUES_VOLUME: { type: 'number', default: 0.6, min: 0, max: 1 },
+  OBSTACLE_CLEAR_PATH_HINT: { type: 'boolean', default: false },
+  OBSTACLE_SONIFICATION_ENABLED: { type: 'boolean', default: false },
+  OBSTACLE_SONIFICATION_PULSED: { type: 'boolean', default: false },
+  OBSTACLE_SONIFICATION_VOLUME: { type: 'number', default: 0.5, min: 0, max: 1 },
+  DETECTION_MODEL: { type: 'string', default: null },
+  DETECTION_COOLDOWN_MS: { type: 'number', default: 150, min: 0, max: 5000, integer: true },
+  DETECTION_TARGET_FPS: { type: 'number', default: 10, min: 1, max: 30, integer: true },
+  DETECTION_MIN_FPS: { type: 'number', default: 3, min: 1, max: 30, integer: true },
+  DETECTION_RECORD_SESSIONS: { type: 'boolean', default: false },
+  // Start navigating as soon as the camera and model are ready, and pause while face down or covered.
+  DETECTION_AUTO_START: { type: 'boolean', default: true },
+  DETECTION_AUTO_PAUSE: { type: 'boolean', default: true },
+  // For tuning with sighted testers; draws every box the model returns over the camera.
+  DETECTION_DEBUG_OVERLAY: { type: 'boolean', default: false },
+  DETECTION_LOG_URL: { type: 'string', default: null },
+  DETECTION_LOG_BATCH_SIZE: { type: 'number', default: 20, min: 1, max: 1000, integer: true },
+  DETECTION_LOG_SEND_IMMEDIATE: { type: 'boolean', default: false },
+  DETECTION_LOG_MAX: { type: 'number', default: 1000, min: 1, max: 100000, integer: true },
+}
+
+export const CONFIG_KEYS = Object.keys(CONFIG_SCHEMA) as ConfigKey[]
+
+export type ConfigPreset = 'indoor' | 'outdoor' | 'crowded'
+
+export const CONFIG_PRESETS: Record<ConfigPreset, Partial<ObstacleDetectionConfig>> = {
+  indoor: {},
+  outdoor: {
+    OBSTACLE_THRESHOLD: 0.35,
+    OBSTACLE_MIN_CONFIDENCE: 0.4,
+    OBSTACLE_HYSTERESIS: 0.08,
+    OBSTACLE_FRAMES: 8,
+    OBSTACLE_SMOOTHING_WINDOW: 4,
+    OBSTACLE_MIN_SLOPE: 0.005,
+    OBSTACLE_SUDDEN_DELTA: 0.1,
+    OBSTACLE_ALLOW_SIZE_ONLY: true,
+    OBSTACLE_TRIGGER_DISTANCE_M: 2.5,
+    OBSTACLE_TTC_CAUTION_S: 5,
+    OBSTACLE_TTC_S: 3,
+    OBSTACLE_TTC_IMMINENT_S: 1.5,
+    DETECTION_COOLDOWN_MS: 100,
+  },
+  crowded: {
+    OBSTACLE_THRESHOLD: 0.45,
+    OBSTACLE_MIN_CONFIDENCE: 0.55,
+    OBSTACLE_CENTER_TOLERANCE: 0.2,
+    OBSTACLE_MIN_SLOPE: 0.01,
+    OBSTACLE_TRIGGER_DISTANCE_M: 1,
+    OBSTACLE_BUSY_SCENE_COUNT: 4,
+    OBSTACLE_VERY_BUSY_SCENE_COUNT: 7,
+    OBSTACLE_HAPTIC_REPEAT_MS: 3000,
+  },
+}
+
+export const CONFIG_PRESET_NAMES = Object.keys(CONFIG_PRESETS) as ConfigPreset[]
+
+export function isConfigPreset(value: unknown): value is ConfigPreset {
+  return typeof value === 'string' && (CONFIG_PRESET_NAMES as string[]).includes(value)
+}
+
+// Raw values as they come from process.env or storage; anything unparseable falls back.
+export type RawConfig = { [K in ConfigKey]?: unknown }
+
+export function validateConfig(...layers: RawConfig[]): { config: ObstacleDetectionConfig; issues: string[] } {
+  const issues: string[] = []
+  const config = {} as Record<ConfigKey, unknown>
+
+  for (const key of CONFIG_KEYS) {
+    const field = CONFIG_SCHEMA[key]
+    let value: unknown = field.default
+    for (const layer of layers) {
+      const raw = layer[key]
+      if (raw === undefined) continue
+      const parsed = parseField(field, raw)
+      if (parsed.ok) {
+        if (parsed.clamped) issues.push(`${key}=${String(raw)} clamped to ${String(parsed.value)}`)
+        value = parsed.value
+      } else {
+        issues.push(`${key}=${String(raw)} is not a valid ${field.type}`)
+      }
+    }
+    config[key] = value
+  }
+
+  const result = config as unknown as ObstacleDetectionConfig
+  if (result.OBSTACLE_SMOOTHING_WINDOW > result.OBSTACLE_FRAMES) {
+    issues.push(`OBSTACLE_SMOOTHING_WINDOW=${result.OBSTACLE_SMOOTHING_WINDOW} clamped to OBSTACLE_FRAMES=${result.OBSTACLE_FRAMES}`)
+    result.OBSTACLE_SMOOTHING_WINDOW = result.OBSTACLE_FRAMES
+  }
+  if (result.OBSTACLE_VERY_BUSY_SCENE_COUNT < result.OBSTACLE_BUSY_SCENE_COUNT) {
+    issues.push(`OBSTACLE_VERY_BUSY_SCENE_COUNT raised to OBSTACLE_BUSY_SCENE_COUNT=${result.OBSTACLE_BUSY_SCENE_COUNT}`)
+    result.OBSTACLE_VERY_BUSY_SCENE_COUNT = result.OBSTACLE_BUSY_SCENE_COUNT
+  }
+  if (result.OBSTACLE_HAPTIC_MAX_INTERVAL_MS < result.OBSTACLE_HAPTIC_MIN_INTERVAL_MS) {
+    issues.push(`OBSTACLE_HAPTIC_MAX_INTERVAL_MS raised to OBSTACLE_HAPTIC_MIN_INTERVAL_MS=${result.OBSTACLE_HAPTIC_MIN_INTERVAL_MS}`)
+    result.OBSTACLE_HAPTIC_MAX_INTERVAL_MS = result.OBSTACLE_HAPTIC_MIN_INTERVAL_MS
+  }
+  if (result.DETECTION_MIN_FPS > result.DETECTION_TARGET_FPS) {
+    issues.push(`DETECTION_MIN_FPS clamped to DETECTION_TARGET_FPS=${result.DETECTION_TARGET_FPS}`)
+    result.DETECTION_MIN_FPS = result.DETECTION_TARGET_FPS
+  }
+  if (result.OBSTACLE_TTC_S < result.OBSTACLE_TTC_IMMINENT_S) {
+    issues.push(`OBSTACLE_TTC_S raised to OBSTACLE_TTC_IMMINENT_S=${result.OBSTACLE_TTC_IMMINENT_S}`)
+    result.OBSTACLE_TTC_S = result.OBSTACLE_TTC_IMMINENT_S
+  }
+  if (result.OBSTACLE_TTC_CAUTION_S < result.OBSTACLE_TTC_S) {
+    issues.push(`OBSTACLE_TTC_CAUTION_S raised to OBSTACLE_TTC_S=${result.OBSTACLE_TTC_S}`)
+    result.OBSTACLE_TTC_CAUTION_S = result.OBSTACLE_TTC_S
+  }
+
+  return { config: result, issues }
+}
+
+function parseField(
+  field: NumberField | BooleanField | StringField | ChoiceField,
+  raw: unknown
+): { ok: true; value: unknown; clamped: boolean } | { ok: false } {
+  if (field.type === 'boolean') {
+    if (typeof raw === 'boolean') return { ok: true, value: raw, clamped: false }
+    if (raw === 'true' || raw === '1') return { ok: true, value: true, clamped: false }
+    if (raw === 'false' || raw === '0') return { ok: true, value: false, clamped: false }
+    return { ok: false }
+  }
+
+  if (field.type === 'string') {
+    if (raw === null) return { ok: true, value: null, clamped: false }
+    if (typeof raw !== 'string') return { ok: false }
+    return { ok: true, value: raw.trim() === '' ? null : raw.trim(), clamped: false }
+  }
+
+  if (field.type === 'choice') {
+    const value = typeof raw === 'string' ? raw.trim() : raw
+    return typeof value === 'string' && field.values.includes(value) ? { ok: true, value, clamped: false } : { ok: false }
+  }
+
+  const n = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN
+  if (!Number.isFinite(n)) return { ok: false }
+  let value = field.integer ? Math.round(n) : n
+  value = Math.max(field.min, Math.min(field.max, value))
+  return { ok: true, value, clamped: value !== (field.integer ? Math.round(n) : n) }
+}
+
+export type ConfigStorage = {
+  getItem: (key: string) => Promise<string | null>
+  setItem: (key: string, value: string) => Promise<void>
+}
+
+export type ConfigSnapshot = {
+  preset: ConfigPreset
+  overrides: Partial<ObstacleDetectionConfig>
+  // Values measured for this user and phone during setup; kept across preset changes.
+  calibration: Partial<ObstacleDetectionConfig>
+  config: ObstacleDetectionConfig
+  issues: string[]
+}
+
+export type ConfigStore = ReturnType<typeof createConfigStore>
+
+export const CONFIG_STORAGE_KEY = 'ailens.detectionConfig.v1'
+
+// Values are layered: schema defaults, then .env, then the active preset, then calibration, then the user's saved
+// overrides.
+export function createConfigStore({
+  env = {},
+  preset: initialPreset,
+  storage = null,
+  storageKey = CONFIG_STORAGE_KEY,
+}: {
+  env?: RawConfig
+  preset?: string | null
+  storage?: ConfigStorage | null
+  storageKey?: string
+}) {
+  const listeners = new Set<() => void>()
+
+  function build(
+    preset: ConfigPreset,
+    overrides: Partial<ObstacleDetectionConfig>,
+    calibration: Partial<ObstacleDetectionConfig> = snapshot.calibration
+  ): ConfigSnapshot {
+    const { config, issues } = validateConfig(env, CONFIG_PRESETS[preset], calibration, overrides)
+    return { preset, overrides, calibration, config, issues }
+  }
+
+  function known(saved: unknown): Partial<ObstacleDetectionConfig> {
+    const values: Partial<ObstacleDetectionConfig> = {}
+    if (saved == null || typeof saved !== 'object') return values
+    for (const key of CONFIG_KEYS) {
+      if (key in saved) (values as Record<string, unknown>)[key] = (saved as Record<string, unknown>)[key]
+    }
+    return values
+  }
+
+  let snapshot = build(isConfigPreset(initialPreset) ? initialPreset : 'indoor', {}, {})
+
+  function commit(next: ConfigSnapshot, persist = true) {
+    snapshot = next
+    if (next.issues.length > 0) console.warn('Obstacle detection config issues:', next.issues)
+    listeners.forEach(listener => listener())
+    if (persist && storage) {
+      storage
+        .setItem(storageKey, JSON.stringify({ preset: next.preset, overrides: next.overrides, calibration: next.calibration }))
+        .catch(e => console.warn('Failed to save detection config:', e))
+    }
+  }
+
+  return {
+    getSnapshot: () => snapshot,
+    getConfig: () => snapshot.config,
+    subscribe(listener: () => void) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    update(values: Partial<ObstacleDetectionConfig>) {
+      commit(build(snapshot.preset, { ...snapshot.overrides, ...values }))
+    },
+    setPreset(preset: ConfigPreset) {
+      commit(build(preset, {}))
+    },
+    resetToPreset() {
+      commit(build(snapshot.preset, {}))
+    },
+    // Replaces the calibration layer; an empty object clears it.
+    setCalibration(values: Partial<ObstacleDetectionConfig>) {
+      commit(build(snapshot.preset, snapshot.overrides, values))
+    },
+    async hydrate() {
+      if (!storage) return
+      try {
+        const raw = await storage.getItem(storageKey)
+        if (!raw) return
+        const saved = JSON.parse(raw)
+        const preset = isConfigPreset(saved?.preset) ? saved.preset : snapshot.preset
+        commit(build(preset, known(saved?.overrides), known(saved?.calibration)), false)
+      } catch (e) {
+        console.warn('Failed to load saved detection config:', e)
+      }
+    },
+  }
+}
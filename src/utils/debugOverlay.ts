@@ -0,0 +1,58 @@
+import { BoxDecision, RejectionReason } from '../hooks/filterCore'
+
+export type DebugBoxStatus = 'accepted' | RejectionReason | 'cooldown'
+
+export const DEBUG_BOX_COLORS: Record<DebugBoxStatus, string> = {
+  accepted: '#34c759',
+  'below-threshold': '#8e8e93',
+  'off-center': '#ffcc00',
+  'too-small': '#ff9500',
+  'ignored-class': '#af52de',
+  'malformed-box': '#ff3b30',
+  cooldown: '#5ac8fa',
+}
+
+export const DEBUG_BOX_STATUSES = Object.keys(DEBUG_BOX_COLORS) as DebugBoxStatus[]
+
+// Samples kept for the height and slope sparklines.
+export const SPARKLINE_SAMPLES = 40
+
+// Boxes are redrawn only when a frame is processed; after this many intervals without one they are stale.
+const STALE_INTERVALS = 2
+// Slopes are tiny, so the sparkline scale never shrinks below this.
+const MIN_SLOPE_RANGE = 0.01
+
+export function staleAfterMs(intervalMs: number): number {
+  return Math.max(intervalMs, 1) * STALE_INTERVALS
+}
+
+// Boxes from a frame the pacer has since moved past are shown as cooling down, whatever the filter said.
+export function debugBoxStatus(decision: Pick<BoxDecision, 'accepted' | 'reason'>, stale: boolean): DebugBoxStatus {
+  if (stale) return 'cooldown'
+  if (decision.accepted) return 'accepted'
+  return decision.reason ?? 'below-threshold'
+}
+
+export function debugBoxLabel(decision: Pick<BoxDecision, 'label' | 'classId' | 'confidence'>, status: DebugBoxStatus): string {
+  const name = decision.label ?? (decision.classId != null ? `#${decision.classId}` : '?')
+  return `${name} ${Math.round(decision.confidence * 100)}%${status === 'accepted' ? '' : ` ${status}`}`
+}
+
+export function pushSample(samples: number[], value: number, max = SPARKLINE_SAMPLES): number[] {
+  const next = [...samples, Number.isFinite(value) ? value : 0]
+  return next.length > max ? next.slice(next.length - max) : next
+}
+
+// Symmetric around zero, so rising and falling slopes read the same way.
+export function slopeRange(samples: number[]): [number, number] {
+  let largest = MIN_SLOPE_RANGE
+  for (const s of samples) largest = Math.max(largest, Math.abs(s))
+  return [-largest, largest]
+}
+
+// Scales samples to 0..1 bar heights within the range, clamped at the ends.
+export function sparklineLevels(samples: number[], [min, max]: [number, number]): number[] {
+  const span = max - min
+  if (!(span > 0)) return samples.map(() => 0)
+  return samples.map(s => Math.max(0, Math.min(1, (s - min) / span)))
+}
@@ -0,0 +1,135 @@
+import { AlertLevel } from '../hooks/detectionCore'
+import { Box } from '../hooks/trackerCore'
+
+export type ClearSide = 'left' | 'right'
+
+// Higher pitch as the alert level rises.
+export const BEEP_FREQUENCIES: Record<Exclude<AlertLevel, 'none'>, number> = {
+  caution: 440,
+  warning: 660,
+  imminent: 880,
+}
+
+// Pan is cached per step, so only a handful of beep clips are ever generated.
+export const PAN_STEPS = 9
+
+// A side counts as clear when boxes cover at most this much of it, and the other side is clearly worse.
+const MAX_CLEAR_COVERAGE = 0.3
+const MIN_COVERAGE_DIFFERENCE = 0.25
+
+const FADE_MS = 5
+
+// -1 is full left, 1 full right.
+export function panFromCenterX(centerX: number | null): number {
+  if (centerX == null || !isFinite(centerX)) return 0
+  return Math.max(-1, Math.min(1, centerX * 2 - 1))
+}
+
+export function quantizePan(pan: number, steps: number = PAN_STEPS): number {
+  const step = 2 / (steps - 1)
+  return Math.max(-1, Math.min(1, Math.round(pan / step) * step))
+}
+
+// Equal-power panning keeps the beep equally loud as it moves across.
+export function panGains(pan: number): { left: number; right: number } {
+  const angle = ((Math.max(-1, Math.min(1, pan)) + 1) * Math.PI) / 4
+  return { left: Math.cos(angle), right: Math.sin(angle) }
+}
+
+// 16-bit stereo PCM WAV of mono samples (-1..1) placed in the stereo field by pan.
+export function encodeStereoWav(samples: Float32Array, pan: number, sampleRate: number): Uint8Array {
+  const frames = samples.length
+  const dataSize = frames * 4
+  const bytes = new Uint8Array(44 + dataSize)
+  const view = new DataView(bytes.buffer)
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) bytes[offset + i] = value.charCodeAt(i)
+  }
+
+  text(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  text(8, 'WAVE')
+  text(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 2, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 4, true)
+  view.setUint16(32, 4, true)
+  view.setUint16(34, 16, true)
+  text(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  const { left, right } = panGains(pan)
+  for (let i = 0; i < frames; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i])) * 32767
+    view.setInt16(44 + i * 4, Math.round(sample * left), true)
+    view.setInt16(46 + i * 4, Math.round(sample * right), true)
+  }
+  return bytes
+}
+
+// A sine beep with short fades so it does not click.
+export function synthesizeBeep({
+  frequency,
+  durationMs,
+  pan,
+  volume = 0.8,
+  sampleRate = 22050,
+}: {
+  frequency: number
+  durationMs: number
+  pan: number
+  volume?: number
+  sampleRate?: number
+}): Uint8Array {
+  const frames = Math.round((sampleRate * durationMs) / 1000)
+  const fadeFrames = Math.max(1, Math.round((sampleRate * FADE_MS) / 1000))
+  const samples = new Float32Array(frames)
+  for (let i = 0; i < frames; i++) {
+    const envelope = Math.min(1, i / fadeFrames, (frames - 1 - i) / fadeFrames)
+    samples[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * volume * envelope
+  }
+  return encodeStereoWav(samples, pan, sampleRate)
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let out = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i]
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0
+    out += BASE64[a >> 2] + BASE64[((a & 3) << 4) | (b >> 4)]
+    out += i + 1 < bytes.length ? BASE64[((b & 15) << 2) | (c >> 6)] : '='
+    out += i + 2 < bytes.length ? BASE64[c & 63] : '='
+  }
+  return out
+}
+
+// Fraction of [from, to] covered by the union of the boxes' horizontal extents.
+function coverage(boxes: Box[], from: number, to: number): number {
+  const spans = boxes
+    .map(b => [Math.max(from, b[1]), Math.min(to, b[3])])
+    .filter(([a, b]) => b > a)
+    .sort((a, b) => a[0] - b[0])
+  let covered = 0
+  let end = from
+  for (const [a, b] of spans) {
+    if (b <= end) continue
+    covered += b - Math.max(a, end)
+    end = b
+  }
+  return covered / (to - from)
+}
+
+// The half of the frame with room to step into, judged from the boxes of everything in view.
+export function clearPathSide(boxes: Box[]): ClearSide | null {
+  if (boxes.length === 0) return null
+  const left = coverage(boxes, 0, 0.5)
+  const right = coverage(boxes, 0.5, 1)
+  if (left <= MAX_CLEAR_COVERAGE && right - left >= MIN_COVERAGE_DIFFERENCE) return 'left'
+  if (right <= MAX_CLEAR_COVERAGE && left - right >= MIN_COVERAGE_DIFFERENCE) return 'right'
+  return null
+}
@@ -0,0 +1,154 @@
+// Boxes are [ymin, xmin, ymax, xmax] in normalized model coordinates, y pointing down.
+type Box = [number, number, number, number]
+
+export type CameraModel = {
+  // Field of view along the model's y axis (the user's up/down when the phone is held upright).
+  verticalFovDeg: number
+  // How far the camera points below the horizon.
+  tiltDeg: number
+  // Height of the camera lens above the ground.
+  heightM: number
+}
+
+export type ClassHeight = {
+  // Typical real-world height of the object.
+  meters: number
+  // Relative spread of that height across real objects (0.2 = ±20%).
+  spread: number
+}
+
+export type DistanceEstimate = {
+  meters: number
+  // One standard deviation, in meters.
+  sigma: number
+  method: 'size' | 'ground' | 'fused'
+}
+
+export const CLASS_HEIGHTS: Record<string, ClassHeight> = {
+  person: { meters: 1.7, spread: 0.12 },
+  bicycle: { meters: 1.0, spread: 0.15 },
+  car: { meters: 1.5, spread: 0.15 },
+  motorcycle: { meters: 1.1, spread: 0.15 },
+  bus: { meters: 3.2, spread: 0.1 },
+  truck: { meters: 3.0, spread: 0.25 },
+  train: { meters: 4.0, spread: 0.15 },
+  dog: { meters: 0.5, spread: 0.4 },
+  'fire hydrant': { meters: 0.75, spread: 0.2 },
+  'stop sign': { meters: 2.1, spread: 0.2 },
+  'parking meter': { meters: 1.3, spread: 0.15 },
+  bench: { meters: 0.85, spread: 0.2 },
+  chair: { meters: 0.9, spread: 0.15 },
+  couch: { meters: 0.85, spread: 0.2 },
+  bed: { meters: 0.6, spread: 0.3 },
+  'dining table': { meters: 0.75, spread: 0.1 },
+  toilet: { meters: 0.75, spread: 0.1 },
+  'potted plant': { meters: 0.6, spread: 0.5 },
+  suitcase: { meters: 0.65, spread: 0.3 },
+  refrigerator: { meters: 1.75, spread: 0.1 },
+  tv: { meters: 0.6, spread: 0.4 },
+  backpack: { meters: 0.5, spread: 0.2 },
+  umbrella: { meters: 1.0, spread: 0.3 },
+}
+
+// Used when the class is unknown or not in the table: wide enough that the ground-plane estimate dominates.
+export const UNKNOWN_CLASS_HEIGHT: ClassHeight = { meters: 1.0, spread: 0.6 }
+
+// Box edge noise in normalized units, and how uncertain the assumed tilt is.
+const BOX_EDGE_NOISE = 0.01
+const TILT_SIGMA_DEG = 5
+// Below this angle the ground point is too close to the horizon to give a usable range.
+const MIN_DEPRESSION_DEG = 2
+// Edges this close to the frame border are treated as cut off.
+const EDGE_MARGIN = 0.02
+
+const DEG = Math.PI / 180
+
+export const DEFAULT_CAMERA: CameraModel = { verticalFovDeg: 65, tiltDeg: 10, heightM: 1.3 }
+
+// Vision Camera reports the video field of view along the sensor's long side, which is vertical in portrait.
+export function cameraFromFormat(
+  format: { fieldOfView?: number } | null | undefined,
+  tiltDeg: number,
+  heightM: number,
+  fallbackFovDeg: number = DEFAULT_CAMERA.verticalFovDeg
+): CameraModel {
+  const fov = format?.fieldOfView
+  return {
+    verticalFovDeg: fov != null && fov > 1 && fov < 179 ? fov : fallbackFovDeg,
+    tiltDeg,
+    heightM,
+  }
+}
+
+// Focal length in normalized image units.
+function focal(camera: CameraModel): number {
+  return 0.5 / Math.tan((camera.verticalFovDeg * DEG) / 2)
+}
+
+// Pinhole model: an object of known height H filling h of the frame is H * f / h away.
+export function estimateFromSize(box: Box, classHeight: ClassHeight, camera: CameraModel): DistanceEstimate | null {
+  const h = box[2] - box[0]
+  if (!(h > 0)) return null
+  const meters = (classHeight.meters * focal(camera)) / h
+  const relative = Math.sqrt(classHeight.spread ** 2 + (2 * BOX_EDGE_NOISE / h) ** 2)
+  return { meters, sigma: meters * relative, method: 'size' }
+}
+
+// Ground plane: the ray through the bottom edge hits the floor at camera height / tan(depression).
+export function estimateFromGround(box: Box, camera: CameraModel): DistanceEstimate | null {
+  const f = focal(camera)
+  const depression = (deg: number) => deg * DEG + Math.atan((box[2] - 0.5) / f)
+  const angle = depression(camera.tiltDeg)
+  if (angle < MIN_DEPRESSION_DEG * DEG) return null
+
+  const meters = camera.heightM / Math.tan(angle)
+  // Spread from the tilt assumption dominates; evaluate it numerically on both sides.
+  const nearAngle = depression(camera.tiltDeg + TILT_SIGMA_DEG)
+  const farAngle = Math.max(MIN_DEPRESSION_DEG * DEG, depression(camera.tiltDeg - TILT_SIGMA_DEG))
+  const sigma = Math.abs(camera.heightM / Math.tan(farAngle) - camera.heightM / Math.tan(nearAngle)) / 2
+  return { meters, sigma, method: 'ground' }
+}
+
+// Distance along the floor to the point seen at image row y (0 top, 1 bottom); null at or above the horizon.
+export function groundDistanceAtRow(y: number, camera: CameraModel): number | null {
+  'worklet'
+  const f = 0.5 / Math.tan((camera.verticalFovDeg * DEG) / 2)
+  const angle = camera.tiltDeg * DEG + Math.atan((y - 0.5) / f)
+  if (angle < MIN_DEPRESSION_DEG * DEG) return null
+  return camera.heightM / Math.tan(angle)
+}
+
+// Combines the size and ground-plane estimates by inverse variance, skipping whichever the box geometry breaks.
+export function estimateDistance(
+  box: Box,
+  label: string | null | undefined,
+  camera: CameraModel,
+  classHeights: Record<string, ClassHeight> = CLASS_HEIGHTS
+): DistanceEstimate | null {
+  const classHeight = (label && classHeights[label]) || UNKNOWN_CLASS_HEIGHT
+  const topCut = box[0] <= EDGE_MARGIN
+  const bottomCut = box[2] >= 1 - EDGE_MARGIN
+
+  // A box cut off at either edge is shorter than the object, so size overestimates range.
+  const size = topCut || bottomCut ? null : estimateFromSize(box, classHeight, camera)
+  const ground = bottomCut ? null : estimateFromGround(box, camera)
+
+  if (size && ground) {
+    const wSize = 1 / size.sigma ** 2
+    const wGround = 1 / ground.sigma ** 2
+    return {
+      meters: (size.meters * wSize + ground.meters * wGround) / (wSize + wGround),
+      sigma: Math.sqrt(1 / (wSize + wGround)),
+      method: 'fused',
+    }
+  }
+  if (size || ground) return size ?? ground
+
+  // Bottom cut off: the object reaches below the frame, so it is at most as far as the frame's bottom edge sees.
+  if (bottomCut) {
+    const edge = estimateFromGround([box[0], box[1], 1, box[3]], camera)
+    if (edge) return { meters: edge.meters, sigma: edge.meters / 2, method: 'ground' }
+  }
+  const fallback = estimateFromSize(box, classHeight, camera)
+  return fallback && { ...fallback, sigma: fallback.meters }
+}
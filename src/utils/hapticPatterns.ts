@@ -0,0 +1,260 @@
+import { AlertLevel } from '../hooks/detectionCore'
+import { HorizontalPosition } from './announcementQueue'
+
+export type ImpactStrength = 'soft' | 'light' | 'medium' | 'rigid' | 'heavy'
+
+export type HapticStep =
+  | { type: 'impact'; strength: ImpactStrength }
+  | { type: 'notification'; kind: 'success' | 'warning' | 'error' }
+  | { type: 'pause'; ms: number }
+
+export type HapticPattern = {
+  name: string
+  steps: HapticStep[]
+}
+
+// What the device is asked to do; pauses are handled by the engine.
+export type HapticOutput = (step: Exclude<HapticStep, { type: 'pause' }>) => void
+
+export type HapticEngineOptions = {
+  output: HapticOutput
+  // 0 silences everything, 1 plays patterns as written; in between, impacts get softer.
+  intensity?: number
+  // Only alerts at or above QUIET_MIN_PRIORITY are felt.
+  quiet?: boolean
+  now?: () => number
+  setTimer?: (callback: () => void, ms: number) => unknown
+  clearTimer?: (handle: unknown) => void
+}
+
+// Priorities shared by continuous alerts and one-shot patterns.
+export const HAPTIC_PRIORITY = {
+  info: 1,
+  caution: 1,
+  warning: 2,
+  imminent: 3,
+  hazard: 3,
+  fault: 3,
+} as const
+
+export const QUIET_MIN_PRIORITY = HAPTIC_PRIORITY.imminent
+
+const STRENGTHS: ImpactStrength[] = ['soft', 'light', 'medium', 'rigid', 'heavy']
+
+// Pause after the last tap of a directional group, so groups stay countable.
+const UNIT_GAP_MS = 90
+
+// Least silence between two beats, well above the gap inside a beat so one beat never runs into the next.
+const BEAT_GAP_MS = 200
+
+const impact = (strength: ImpactStrength): HapticStep => ({ type: 'impact', strength })
+const pause = (ms: number): HapticStep => ({ type: 'pause', ms })
+
+// One group per side: once ahead, twice on the left, three times on the right.
+const DIRECTION_COUNT: Record<HorizontalPosition, number> = { left: 2, center: 1, right: 3 }
+
+function repeatUnit(name: string, unit: HapticStep[], position: HorizontalPosition): HapticPattern {
+  const steps: HapticStep[] = []
+  for (let i = 0; i < DIRECTION_COUNT[position]; i++) {
+    if (i > 0) steps.push(pause(UNIT_GAP_MS))
+    steps.push(...unit)
+  }
+  return { name: `${name}-${position}`, steps }
+}
+
+// Obstacle taps get firmer as the alert level rises.
+const LEVEL_STRENGTH: Record<Exclude<AlertLevel, 'none'>, ImpactStrength> = {
+  caution: 'light',
+  warning: 'medium',
+  imminent: 'heavy',
+}
+
+export function obstaclePattern(level: Exclude<AlertLevel, 'none'>, position: HorizontalPosition): HapticPattern {
+  return repeatUnit('obstacle', [impact(LEVEL_STRENGTH[level])], position)
+}
+
+// A heartbeat: strong beat with a soft echo, so a person never feels like furniture.
+export function personPattern(position: HorizontalPosition): HapticPattern {
+  return repeatUnit('person', [impact('heavy'), pause(70), impact('soft')], position)
+}
+
+// A rapid rigid triple per group, felt as urgency rather than counted.
+export function approachingFastPattern(position: HorizontalPosition): HapticPattern {
+  return repeatUnit('approaching-fast', [impact('rigid'), pause(40), impact('rigid'), pause(40), impact('rigid')], position)
+}
+
+// Step or drop ahead: a system warning followed by two slow heavy knocks.
+export const STEP_PATTERN: HapticPattern = {
+  name: 'step',
+  steps: [{ type: 'notification', kind: 'warning' }, pause(250), impact('heavy'), pause(250), impact('heavy')],
+}
+
+// The way ahead opened up again.
+export const PATH_CLEAR_PATTERN: HapticPattern = {
+  name: 'path-clear',
+  steps: [impact('soft'), pause(60), { type: 'notification', kind: 'success' }],
+}
+
+// Detection failed or became unreliable: a system error followed by three quick heavy knocks, unlike any obstacle.
+export const FAULT_PATTERN: HapticPattern = {
+  name: 'fault',
+  steps: [{ type: 'notification', kind: 'error' }, pause(300), impact('heavy'), pause(120), impact('heavy'), pause(120), impact('heavy')],
+}
+
+export function patternDuration(pattern: HapticPattern): number {
+  return pattern.steps.reduce((ms, step) => ms + (step.type === 'pause' ? step.ms : 0), 0)
+}
+
+export function scaleStrength(strength: ImpactStrength, intensity: number): ImpactStrength {
+  return STRENGTHS[Math.round(STRENGTHS.indexOf(strength) * Math.max(0, Math.min(1, intensity)))]
+}
+
+type Alert = { pattern: HapticPattern; tempoMs: number; priority: number; since: number }
+
+type Playing = { pattern: HapticPattern; priority: number; step: number; alert: boolean }
+
+// Plays one pattern at a time. Continuous alerts beat at their tempo, slowed down where needed to leave a gap after
+// each pattern; tempo changes move the next beat relative to the last one, so speeding up or slowing down never
+// drops or doubles a beat.
+export function createHapticEngine({
+  output,
+  intensity: initialIntensity = 1,
+  quiet: initialQuiet = false,
+  now = () => Date.now(),
+  setTimer = (callback, ms) => setTimeout(callback, ms),
+  clearTimer = handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}: HapticEngineOptions) {
+  const alerts = new Map<string, Alert>()
+  const oneShots: { pattern: HapticPattern; priority: number }[] = []
+  let intensity = initialIntensity
+  let quiet = initialQuiet
+  let playing: Playing | null = null
+  let lastBeatAt: number | null = null
+  let timer: unknown = null
+  let seq = 0
+  let disposed = false
+
+  function audible(priority: number) {
+    return intensity > 0 && (!quiet || priority >= QUIET_MIN_PRIORITY)
+  }
+
+  function leadingAlert(): Alert | null {
+    let best: Alert | null = null
+    for (const alert of alerts.values()) {
+      if (!audible(alert.priority)) continue
+      if (!best || alert.priority > best.priority || (alert.priority === best.priority && alert.since > best.since)) {
+        best = alert
+      }
+    }
+    return best
+  }
+
+  function schedule(ms: number, next: () => void) {
+    if (timer != null) clearTimer(timer)
+    timer = setTimer(() => {
+      timer = null
+      next()
+    }, Math.max(0, ms))
+  }
+
+  function perform(step: Exclude<HapticStep, { type: 'pause' }>) {
+    if (step.type === 'impact') {
+      output({ type: 'impact', strength: scaleStrength(step.strength, intensity) })
+    } else {
+      output(step)
+    }
+  }
+
+  // Plays steps until the next pause, then waits for it.
+  function continuePlaying() {
+    while (playing && playing.step < playing.pattern.steps.length) {
+      const step = playing.pattern.steps[playing.step++]
+      if (step.type === 'pause') {
+        schedule(step.ms, continuePlaying)
+        return
+      }
+      perform(step)
+    }
+    playing = null
+    run()
+  }
+
+  function run() {
+    if (disposed || playing) return
+    if (timer != null) {
+      clearTimer(timer)
+      timer = null
+    }
+
+    oneShots.sort((a, b) => b.priority - a.priority)
+    const next = oneShots.shift()
+    if (next) {
+      playing = { ...next, step: 0, alert: false }
+      continuePlaying()
+      return
+    }
+
+    const alert = leadingAlert()
+    if (!alert) {
+      lastBeatAt = null
+      return
+    }
+    const t = now()
+    // A fast tempo cannot be shorter than the pattern itself, or a right-side triple would blur into the next one.
+    const interval = Math.max(alert.tempoMs, patternDuration(alert.pattern) + BEAT_GAP_MS)
+    const due = lastBeatAt == null ? t : lastBeatAt + interval
+    if (due > t) {
+      schedule(due - t, run)
+      return
+    }
+    lastBeatAt = t
+    playing = { pattern: alert.pattern, priority: alert.priority, step: 0, alert: true }
+    continuePlaying()
+  }
+
+  return {
+    // Starts, updates or (with null) stops the continuous alert on a channel.
+    setAlert(channel: string, alert: { pattern: HapticPattern; tempoMs: number; priority: number } | null) {
+      if (alert) {
+        const existing = alerts.get(channel)
+        alerts.set(channel, { ...alert, since: existing && existing.priority === alert.priority ? existing.since : ++seq })
+      } else {
+        alerts.delete(channel)
+      }
+      if (playing?.alert && !audible(playing.priority)) playing = null
+      run()
+    },
+    // Plays a pattern once, interrupting anything of lower priority. Returns false when it is not felt.
+    play(pattern: HapticPattern, priority: number): boolean {
+      if (disposed || !audible(priority)) return false
+      const lead = leadingAlert()
+      if (lead && lead.priority > priority) return false
+      // The same pattern queued twice would only be felt as one long buzz.
+      if (!oneShots.some(shot => shot.pattern.name === pattern.name)) oneShots.push({ pattern, priority })
+      if (playing && playing.priority < priority) playing = null
+      run()
+      return true
+    },
+    setIntensity(value: number) {
+      intensity = Math.max(0, Math.min(1, value))
+      if (intensity === 0) playing = null
+      run()
+    },
+    setQuiet(value: boolean) {
+      quiet = value
+      if (playing && !audible(playing.priority)) playing = null
+      run()
+    },
+    isPlaying: () => playing != null,
+    dispose() {
+      disposed = true
+      alerts.clear()
+      oneShots.length = 0
+      playing = null
+      if (timer != null) clearTimer(timer)
+      timer = null
+    },
+  }
+}
+
+export type HapticEngine = ReturnType<typeof createHapticEngine>
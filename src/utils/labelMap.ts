@@ -0,0 +1,38 @@
+export type LabelMap = {
+  // Added to a model class id to get its index in `labels` (SSD models skip the background class).
+  offset: number
+  labels: (string | null)[]
+}
+
+export const EMPTY_LABEL_MAP: LabelMap = { offset: 0, labels: [] }
+
+export function parseLabelMap(raw: any): LabelMap {
+  try {
+    if (Array.isArray(raw)) {
+      return { offset: 0, labels: raw.map(normalizeLabel) }
+    }
+    if (raw && Array.isArray(raw.labels)) {
+      const offset = Number(raw.offset ?? 0)
+      return {
+        offset: Number.isFinite(offset) ? Math.round(offset) : 0,
+        labels: raw.labels.map(normalizeLabel),
+      }
+    }
+  } catch (e) {
+    console.warn('Invalid label map:', e)
+  }
+  return EMPTY_LABEL_MAP
+}
+
+export function labelForClassId(labelMap: LabelMap, classId: number | null | undefined): string | null {
+  'worklet'
+  if (classId == null || !Number.isFinite(classId)) return null
+  const idx = Math.round(classId) + labelMap.offset
+  return labelMap.labels[idx] ?? null
+}
+
+function normalizeLabel(label: any): string | null {
+  if (typeof label !== 'string') return null
+  const trimmed = label.trim()
+  return trimmed === '' || trimmed === '???' ? null : trimmed
+}
@@ -0,0 +1,52 @@
+export type ModelInput = {
+  width: number
+  height: number
+  dataType: 'uint8' | 'float32'
+  pixelFormat: 'rgb' | 'bgr'
+  // float32 only: the resize plugin yields 0..1, the model gets (value - mean) / std.
+  normalization: { mean: number; std: number } | null
+}
+
+export type ModelOutputLayout =
+  // Guess the tensors from their shapes; works for most SSD-style exports.
+  | { layout: 'auto' }
+  | {
+      layout: 'indexed'
+      boxes: number
+      classIds: number
+      scores: number
+      boxFormat: 'yxyx' | 'xyxy'
+      // Subtracted from raw class ids so they index the label map the same way for every model.
+      classIdOffset: number
+    }
+
+export type ModelManifest = {
+  id: string
+  name: string
+  description: string
+  // An imported .tflite asset or a remote URL, as accepted by react-native-fast-tflite.
+  source: number | { url: string }
+  // Raw label map JSON, see parseLabelMap.
+  labels: unknown
+  input: ModelInput
+  output: ModelOutputLayout
+}
+
+export function findModel(registry: ModelManifest[], id: string | null | undefined): ModelManifest {
+  return registry.find(m => m.id === id) ?? registry[0]
+}
+
+// Problems that would make the model misbehave silently at runtime.
+export function manifestIssues(manifest: ModelManifest): string[] {
+  const issues: string[] = []
+  const { input, output } = manifest
+  if (!(input.width > 0 && input.height > 0)) issues.push(`${manifest.id}: input size must be positive`)
+  if (input.dataType === 'uint8' && input.normalization) issues.push(`${manifest.id}: uint8 inputs cannot be normalized`)
+  if (input.normalization && !(input.normalization.std > 0)) issues.push(`${manifest.id}: normalization std must be positive`)
+  if (output.layout === 'indexed') {
+    const indices = [output.boxes, output.classIds, output.scores]
+    if (new Set(indices).size !== indices.length) issues.push(`${manifest.id}: output tensors must be distinct`)
+    if (indices.some(i => !Number.isInteger(i) || i < 0)) issues.push(`${manifest.id}: output indices must be non-negative integers`)
+  }
+  return issues
+}
@@ -0,0 +1,28 @@
+import COCO_LABELS from '../../assets/labelmap.json'
+import SSD_MOBILENET from '../../assets/model.tflite'
+import { ModelManifest } from './modelManifest'
+
+// Class ids from both models are 0-based COCO ids, which labelmap.json maps with offset 1.
+
+export const MODEL_REGISTRY: ModelManifest[] = [
+  {
+    id: 'ssd-mobilenet',
+    name: 'SSD MobileNet',
+    description: 'Bundled quantized COCO detector, fastest',
+    source: SSD_MOBILENET,
+    labels: COCO_LABELS,
+    input: { width: 320, height: 320, dataType: 'uint8', pixelFormat: 'rgb', normalization: null },
+    output: { layout: 'indexed', boxes: 0, classIds: 1, scores: 2, boxFormat: 'yxyx', classIdOffset: 0 },
+  },
+  {
+    id: 'efficientdet-lite0',
+    name: 'EfficientDet-Lite0',
+    description: 'More accurate COCO detector, downloaded on first use',
+    source: { url: 'https://storage.googleapis.com/mediapipe-models/object_detector/efficientdet_lite0/int8/latest/efficientdet_lite0.tflite' },
+    labels: COCO_LABELS,
+    input: { width: 320, height: 320, dataType: 'uint8', pixelFormat: 'rgb', normalization: null },
+    // Outputs as listed in the model's metadata: location [1, 25, 4] as ymin/xmin/ymax/xmax, category [1, 25],
+    // score [1, 25] and number of detections [1]. Categories are 0-based COCO ids like the SSD model's.
+    output: { layout: 'indexed', boxes: 0, classIds: 1, scores: 2, boxFormat: 'yxyx', classIdOffset: 0 },
+  },
+]
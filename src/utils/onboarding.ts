@@ -0,0 +1,79 @@
+import {
+  FAULT_PATTERN,
+  HAPTIC_PRIORITY,
+  HapticPattern,
+  PATH_CLEAR_PATTERN,
+  STEP_PATTERN,
+  approachingFastPattern,
+  obstaclePattern,
+  personPattern,
+} from './hapticPatterns'
+
+export type PatternSample = {
+  name: string
+  pattern: HapticPattern
+  priority: number
+  // Spoken as the pattern plays.
+  description: string
+}
+
+// Every vibration the app uses, in the order the setup screen offers them.
+export const PATTERN_GUIDE: PatternSample[] = [
+  {
+    name: 'Obstacle ahead',
+    pattern: obstaclePattern('warning', 'center'),
+    priority: HAPTIC_PRIORITY.warning,
+    description: 'One tap means an obstacle straight ahead. Taps repeat faster and firmer as it gets closer.',
+  },
+  {
+    name: 'Obstacle on the left',
+    pattern: obstaclePattern('warning', 'left'),
+    priority: HAPTIC_PRIORITY.warning,
+    description: 'Two taps mean the obstacle is on your left.',
+  },
+  {
+    name: 'Obstacle on the right',
+    pattern: obstaclePattern('warning', 'right'),
+    priority: HAPTIC_PRIORITY.warning,
+    description: 'Three taps mean the obstacle is on your right.',
+  },
+  {
+    name: 'Person',
+    pattern: personPattern('center'),
+    priority: HAPTIC_PRIORITY.warning,
+    description: 'A heartbeat, strong then soft, means a person.',
+  },
+  {
+    name: 'Very close',
+    pattern: approachingFastPattern('center'),
+    priority: HAPTIC_PRIORITY.imminent,
+    description: 'Rapid triple knocks mean you are about to reach it. Stop.',
+  },
+  {
+    name: 'Step or drop-off',
+    pattern: STEP_PATTERN,
+    priority: HAPTIC_PRIORITY.hazard,
+    description: 'A buzz and two slow heavy knocks mean a step or drop-off ahead.',
+  },
+  {
+    name: 'Path clear',
+    pattern: PATH_CLEAR_PATTERN,
+    priority: HAPTIC_PRIORITY.info,
+    description: 'A soft tap and a short buzz mean the way ahead is clear again.',
+  },
+  {
+    name: 'Detection problem',
+    pattern: FAULT_PATTERN,
+    priority: HAPTIC_PRIORITY.fault,
+    description: 'A long buzz and three quick knocks mean obstacle detection is not working. Do not rely on the app until it says it is working again.',
+  },
+]
+
+export const SOUND_GUIDE =
+  'With sound on, beeps come from the side the obstacle is on and speed up as it gets closer. ' +
+  'Speech names the obstacle, where it is and how far. ' +
+  'Double tap the camera view to hear what is around you, and long press it to start or stop navigating.'
+
+export const CAMERA_EXPLANATION =
+  'AILens needs the camera to see obstacles in front of you. ' +
+  'Images are analysed on this phone and never stored or sent anywhere.'
@@ -1,12 +1,112 @@
+import { ModelOutputs } from '../hooks/filterCore'
+import { EMPTY_LABEL_MAP, LabelMap, labelForClassId } from './labelMap'
+import { ModelOutputLayout } from './modelManifest'
+
 export type ParsedDetection = {
   height: number | null
   confidence: number | null
   centerX: number | null
+  classId: number | null
+  label: string | null
+  box: [number, number, number, number] | null
+}
+
+// One output tensor: a typed array from the model, or nested plain arrays from tests and recorded sessions.
+export type OutputTensor = ArrayLike<number> | ArrayLike<bigint> | NestedNumbers
+
+type NestedNumbers = readonly (number | NestedNumbers)[]
+
+type DecodedOutputs = {
+  boxes: number[][]
+  scores: number[] | null
+  classIds: number[] | null
+}
+
+const EMPTY_DETECTION: ParsedDetection = { height: null, confidence: null, centerX: null, classId: null, label: null, box: null }
+
+// Best-scoring detection only; see parseAllDetections for every box.
+export function parseDetections(result: any, labelMap: LabelMap = EMPTY_LABEL_MAP): ParsedDetection {
+  return parseAllDetections(result, labelMap)[0] ?? EMPTY_DETECTION
+}
+
+// Every decodable box, highest confidence first.
+export function parseAllDetections(result: any, labelMap: LabelMap = EMPTY_LABEL_MAP): ParsedDetection[] {
+  const decoded = decodeOutputs(result)
+  if (!decoded) return []
+
+  const out: ParsedDetection[] = []
+  for (let i = 0; i < decoded.boxes.length; i++) {
+    const box = decoded.boxes[i]
+    if (!box || box.length < 4) continue
+
+    const ymin = box[0]
+    const xmin = box[1]
+    const ymax = box[2]
+    const xmax = box[3]
+    const height = Math.max(0, Math.min(1, ymax - ymin))
+    const centerX = Math.max(0, Math.min(1, (xmin + xmax) / 2))
+    const confidence = decoded.scores ? decoded.scores[i] ?? null : null
+    const classId = decoded.classIds ? Number(decoded.classIds[i]) : null
+    const label = labelForClassId(labelMap, classId)
+
+    out.push({ height, confidence, centerX, classId, label, box: [ymin, xmin, ymax, xmax] })
+  }
+
+  // Stable sort keeps model order when there are no scores.
+  return out.sort((a, b) => (b.confidence ?? -Infinity) - (a.confidence ?? -Infinity))
 }
 
-export function parseDetections(result: any): ParsedDetection {
+// Adapter layer: turns a model's raw output tensors into the boxes/classIds/scores the filter expects.
+// Boxes come out flat as [ymin, xmin, ymax, xmax] per detection.
+// Runs on the camera thread as well as in JS.
+export function adaptModelOutputs(result: readonly OutputTensor[] | null, output: ModelOutputLayout): ModelOutputs {
+  'worklet'
+  if (output.layout === 'auto') {
+    const decoded = decodeOutputs(result)
+    if (!decoded) return { boxes: [], classIds: [], confidenceScores: [] }
+    return {
+      boxes: decoded.boxes.flat(),
+      classIds: decoded.classIds ?? [],
+      confidenceScores: decoded.scores ?? [],
+    }
+  }
+
+  const rawBoxes = flatten(result?.[output.boxes])
+  const rawClassIds = flatten(result?.[output.classIds])
+  const scores = flatten(result?.[output.scores])
+  const count = Math.min(scores.length, Math.floor(rawBoxes.length / 4))
+
+  const boxes: number[] = []
+  const classIds: number[] = []
+  for (let i = 0; i < count; i++) {
+    const [a, b, c, d] = [rawBoxes[i * 4], rawBoxes[i * 4 + 1], rawBoxes[i * 4 + 2], rawBoxes[i * 4 + 3]]
+    if (output.boxFormat === 'xyxy') boxes.push(b, a, d, c)
+    else boxes.push(a, b, c, d)
+    classIds.push(i < rawClassIds.length ? rawClassIds[i] - output.classIdOffset : NaN)
+  }
+  return { boxes, classIds, confidenceScores: scores.slice(0, count) }
+}
+
+function flatten(tensor: OutputTensor | undefined): number[] {
+  'worklet'
+  if (tensor == null) return []
+  const out: number[] = []
+  const walk = (value: unknown) => {
+    if (typeof value === 'number') out.push(value)
+    else if (typeof value === 'bigint') out.push(Number(value))
+    else if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+      const items = value as ArrayLike<unknown>
+      for (let i = 0; i < items.length; i++) walk(items[i])
+    }
+  }
+  walk(tensor)
+  return out
+}
+
+function decodeOutputs(result: any): DecodedOutputs | null {
+  'worklet'
   try {
-    if (!result || !Array.isArray(result)) return { height: null, confidence: null, centerX: null }
+    if (!result || !Array.isArray(result)) return null
 
     let boxesArr: number[][] | null = null
     let scoresArr: number[] | null = null
@@ -62,50 +162,30 @@ export function parseDetections(result: any): ParsedDetection {
               break
             }
           }
-        } catch (e) {}
+        } catch {}
       }
     }
 
-    if (!boxesArr || boxesArr.length === 0) return { height: null, confidence: null, centerX: null }
+    if (!boxesArr || boxesArr.length === 0) return null
 
-    // Choose scores array that matches number of boxes if possible
-    if (scoresArr && scoresArr.length !== boxesArr.length) {
-      for (let i = 0; i < result.length; i++) {
-        const s = extractScores(result[i])
-        if (s && s.length === boxesArr.length) {
-          scoresArr = s
-          break
-        }
-      }
+    // Choose scores array that matches number of boxes if possible.
+    // Class ids have the same length but hold whole numbers only.
+    let classIdsArr: number[] | null = null
+    const perBox: number[][] = []
+    for (let i = 0; i < result.length; i++) {
+      const s = extractScores(result[i])
+      if (s && s.length === boxesArr.length) perBox.push(s)
     }
-
-    let idx = 0
-    if (scoresArr) {
-      let best = -Infinity
-      let bestIdx = 0
-      for (let i = 0; i < Math.min(scoresArr.length, boxesArr.length); i++) {
-        const s = scoresArr[i] ?? 0
-        if (s > best) {
-          best = s
-          bestIdx = i
-        }
-      }
-      idx = bestIdx
+    classIdsArr = perBox.find(c => c.every(v => Number.isInteger(Number(v)))) ?? null
+    const matchingScores = perBox.find(c => c !== classIdsArr)
+    if (matchingScores) {
+      scoresArr = matchingScores
+    } else if (scoresArr === classIdsArr) {
+      scoresArr = null
     }
 
-    const box = boxesArr[idx]
-    if (!box || box.length < 4) return { height: null, confidence: null, centerX: null }
-
-    const ymin = box[0]
-    const xmin = box[1]
-    const ymax = box[2]
-    const xmax = box[3]
-    const height = Math.max(0, Math.min(1, ymax - ymin))
-    const centerX = Math.max(0, Math.min(1, (xmin + xmax) / 2))
-    const confidence = scoresArr ? scoresArr[idx] ?? null : null
-
-    return { height, confidence, centerX }
-  } catch (e) {
-    return { height: null, confidence: null, centerX: null }
+    return { boxes: boxesArr, scores: scoresArr, classIds: classIdsArr }
+  } catch {
+    return null
   }
 }
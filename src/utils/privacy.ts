@@ -0,0 +1,205 @@
+import { ConfigStorage } from './configStore'
+import { TelemetryEvent } from './telemetry'
+
+export type ConsentState = 'unknown' | 'granted' | 'denied'
+
+export type PrivacySettings = {
+  consent: ConsentState
+  consentedAt: number | null
+  // Timestamps are floored to this many milliseconds; 0 keeps them exact.
+  timestampResolutionMs: number
+  // centerX is reported as the middle of one of this many strips; 0 keeps it exact.
+  centerXBuckets: number
+}
+
+export type TelemetryField = {
+  description: string
+  coarsening?: string
+}
+
+// Everything a telemetry event may contain. Fields not listed here are dropped before upload.
+export const TELEMETRY_FIELDS: Record<string, TelemetryField> = {
+  ts: { description: 'When the frame was analysed', coarsening: 'Rounded to the chosen time resolution' },
+  trackId: { description: 'Number of the obstacle within this app session' },
+  classId: { description: 'Object class number from the model' },
+  label: { description: 'Object class name, such as "person" or "chair"' },
+  height: { description: 'Obstacle height as a fraction of the camera frame', coarsening: 'Rounded to 2 decimals' },
+  confidence: { description: 'Model confidence for the obstacle', coarsening: 'Rounded to 2 decimals' },
+  centerX: { description: 'Horizontal position of the obstacle in the frame', coarsening: 'Grouped into left/center/right strips' },
+  smoothed: { description: 'Averaged obstacle height used for the alert', coarsening: 'Rounded to 2 decimals' },
+  slope: { description: 'How quickly the obstacle is growing', coarsening: 'Rounded to 4 decimals' },
+  distance: { description: 'Estimated distance to the obstacle in meters', coarsening: 'Rounded to 1 decimal' },
+  closingSpeed: { description: 'How fast you and the obstacle are getting closer', coarsening: 'Rounded to 1 decimal' },
+  timeToContact: { description: 'Seconds until you would reach the obstacle', coarsening: 'Rounded to 1 decimal' },
+  alertLevel: { description: 'How strongly you were warned: none, caution, warning or imminent' },
+  detected: { description: 'Whether the obstacle was reported to you' },
+}
+
+// Everything a session recording holds. Recordings are only made when session recording is turned on as well.
+export const RECORDING_FIELDS: Record<string, TelemetryField> = {
+  startedAt: { description: 'When the recording started', coarsening: 'Rounded to the chosen time resolution' },
+  model: { description: 'Which detection model was used' },
+  frames: { description: 'Time since the start of each analysed frame' },
+  boxes: { description: 'Position and size of every object the model found in the frame', coarsening: 'Rounded to 4 decimals' },
+  classIds: { description: 'Object class number of every object found' },
+  scores: { description: 'Model confidence of every object found', coarsening: 'Rounded to 3 decimals, very unlikely objects left out' },
+  motion: { description: 'Phone rotation and movement, 25 times a second', coarsening: 'Rounded to 2 and 3 decimals' },
+}
+
+export const NOT_COLLECTED = ['Camera images or video', 'Location', 'Device identifiers', 'Names or account details']
+
+export const TIMESTAMP_RESOLUTIONS = [0, 1000, 60000]
+export const CENTER_X_BUCKETS = [0, 5, 3]
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  consent: 'unknown',
+  consentedAt: null,
+  timestampResolutionMs: 1000,
+  centerXBuckets: 3,
+}
+
+const ROUNDING: Record<string, number> = {
+  height: 2,
+  confidence: 2,
+  smoothed: 2,
+  slope: 4,
+  distance: 1,
+  closingSpeed: 1,
+  timeToContact: 1,
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+export function bucketCenterX(centerX: number, buckets: number): number {
+  if (buckets <= 0) return centerX
+  const bucket = Math.max(0, Math.min(buckets - 1, Math.floor(centerX * buckets)))
+  return round((bucket + 0.5) / buckets, 3)
+}
+
+export function coarsenTimestamp(ts: number, settings: PrivacySettings): number {
+  const resolution = settings.timestampResolutionMs
+  return resolution > 0 ? Math.floor(ts / resolution) * resolution : ts
+}
+
+export function coarsenEvent(event: TelemetryEvent, settings: PrivacySettings): TelemetryEvent {
+  const out: TelemetryEvent = {}
+  for (const key of Object.keys(TELEMETRY_FIELDS)) {
+    const value = event[key]
+    if (value === undefined) continue
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      out[key] = value
+    } else if (key === 'ts') {
+      out[key] = coarsenTimestamp(value, settings)
+    } else if (key === 'centerX') {
+      out[key] = bucketCenterX(value, settings.centerXBuckets)
+    } else if (key in ROUNDING) {
+      out[key] = round(value, ROUNDING[key])
+    } else {
+      out[key] = value
+    }
+  }
+  return out
+}
+
+export type PrivacySnapshot = PrivacySettings & { hydrated: boolean }
+
+export const PRIVACY_STORAGE_KEY = 'ailens.privacy.v1'
+
+export function createPrivacyStore({
+  storage = null,
+  storageKey = PRIVACY_STORAGE_KEY,
+}: {
+  storage?: ConfigStorage | null
+  storageKey?: string
+}) {
+  const listeners = new Set<() => void>()
+  const deleteListeners = new Set<() => void | Promise<void>>()
+  const exportSources = new Set<() => Promise<unknown[]>>()
+  let snapshot: PrivacySnapshot = { ...DEFAULT_PRIVACY_SETTINGS, hydrated: storage == null }
+
+  function commit(next: PrivacySnapshot, persist = true) {
+    snapshot = next
+    listeners.forEach(listener => listener())
+    if (persist && storage) {
+      const settings: PrivacySettings = {
+        consent: next.consent,
+        consentedAt: next.consentedAt,
+        timestampResolutionMs: next.timestampResolutionMs,
+        centerXBuckets: next.centerXBuckets,
+      }
+      storage
+        .setItem(storageKey, JSON.stringify(settings))
+        .catch(e => console.warn('Failed to save privacy settings:', e))
+    }
+  }
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe(listener: () => void) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    // Holders of collected data (telemetry queue, recordings) register here to be wiped on request.
+    onDeleteAll(listener: () => void | Promise<void>) {
+      deleteListeners.add(listener)
+      return () => {
+        deleteListeners.delete(listener)
+      }
+    },
+    // The same holders hand over what they keep, as export lines, so export and delete cover the same data.
+    onExport(source: () => Promise<unknown[]>) {
+      exportSources.add(source)
+      return () => {
+        exportSources.delete(source)
+      }
+    },
+    // Unlike deleting, a holder that cannot be read fails the export rather than leaving its data out.
+    async exportAll(): Promise<unknown[]> {
+      const parts = await Promise.all([...exportSources].map(source => source()))
+      return parts.flat()
+    },
+    async deleteAll() {
+      await Promise.all([...deleteListeners].map(async listener => {
+        try {
+          await listener()
+        } catch (e) {
+          console.warn('Failed to delete collected data:', e)
+        }
+      }))
+    },
+    setConsent(granted: boolean) {
+      commit({ ...snapshot, consent: granted ? 'granted' : 'denied', consentedAt: granted ? Date.now() : null })
+    },
+    update(values: Partial<Pick<PrivacySettings, 'timestampResolutionMs' | 'centerXBuckets'>>) {
+      commit({ ...snapshot, ...values })
+    },
+    async hydrate() {
+      if (!storage) return
+      try {
+        const raw = await storage.getItem(storageKey)
+        const saved = raw ? JSON.parse(raw) : {}
+        commit({
+          consent: saved?.consent === 'granted' || saved?.consent === 'denied' ? saved.consent : 'unknown',
+          consentedAt: typeof saved?.consentedAt === 'number' ? saved.consentedAt : null,
+          timestampResolutionMs: TIMESTAMP_RESOLUTIONS.includes(saved?.timestampResolutionMs)
+            ? saved.timestampResolutionMs
+            : DEFAULT_PRIVACY_SETTINGS.timestampResolutionMs,
+          centerXBuckets: CENTER_X_BUCKETS.includes(saved?.centerXBuckets)
+            ? saved.centerXBuckets
+            : DEFAULT_PRIVACY_SETTINGS.centerXBuckets,
+          hydrated: true,
+        }, false)
+      } catch (e) {
+        console.warn('Failed to load privacy settings:', e)
+        commit({ ...snapshot, hydrated: true }, false)
+      }
+    },
+  }
+}
+
+export type PrivacyStore = ReturnType<typeof createPrivacyStore>
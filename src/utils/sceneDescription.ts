@@ -0,0 +1,121 @@
+import { CompactFilterResult } from '../hooks/filterCore'
+import { Box } from '../hooks/trackerCore'
+import {
+  HorizontalPosition,
+  Proximity,
+  horizontalPosition,
+  proximityFromDistance,
+  proximityFromHeight,
+  spokenDistance,
+} from './announcementQueue'
+import { CameraModel, estimateDistance } from './distance'
+
+export type SceneObject = {
+  label: string | null
+  box: Box
+}
+
+export type SceneGroup = {
+  label: string | null
+  position: HorizontalPosition
+  count: number
+  // Nearest member, in meters when a camera model is known.
+  distance: number | null
+  proximity: Proximity
+}
+
+// More groups than this are summed up as "and N more things".
+export const MAX_SCENE_GROUPS = 4
+
+const PROXIMITY_RANK: Record<Proximity, number> = { close: 0, near: 1, far: 2 }
+const POSITION_RANK: Record<HorizontalPosition, number> = { center: 0, left: 1, right: 2 }
+
+const NUMBER_WORDS = ['no', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten']
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  person: 'people',
+  mouse: 'mice',
+  knife: 'knives',
+  sheep: 'sheep',
+  skis: 'skis',
+  scissors: 'scissors',
+}
+
+// The whole scene, not just the walking path: boxes rejected only for position or size are still around the user.
+export function sceneObjects(result: Pick<CompactFilterResult, 'detections' | 'rejected'>): SceneObject[] {
+  const objects: SceneObject[] = []
+  for (const d of result.detections) {
+    if (d.box) objects.push({ label: d.label ?? null, box: d.box })
+  }
+  for (const d of result.rejected) {
+    if (d.box && (d.reason === 'off-center' || d.reason === 'too-small')) objects.push({ label: d.label, box: d.box })
+  }
+  return objects
+}
+
+// Same class in the same third of the view counts as one group, described by its nearest member.
+export function groupScene(objects: SceneObject[], camera: CameraModel | null): SceneGroup[] {
+  const groups = new Map<string, SceneGroup>()
+  for (const { label, box } of objects) {
+    const [ymin, xmin, ymax, xmax] = box
+    const position = horizontalPosition((xmin + xmax) / 2)
+    const distance = camera ? estimateDistance(box, label, camera)?.meters ?? null : null
+    const proximity = distance != null ? proximityFromDistance(distance) : proximityFromHeight(ymax - ymin)
+
+    const key = `${label ?? ''}:${position}`
+    const group = groups.get(key)
+    if (!group) {
+      groups.set(key, { label, position, count: 1, distance, proximity })
+      continue
+    }
+    group.count++
+    if (distance != null && (group.distance == null || distance < group.distance)) group.distance = distance
+    if (PROXIMITY_RANK[proximity] < PROXIMITY_RANK[group.proximity]) group.proximity = proximity
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    PROXIMITY_RANK[a.proximity] - PROXIMITY_RANK[b.proximity] ||
+    (a.distance ?? Infinity) - (b.distance ?? Infinity) ||
+    POSITION_RANK[a.position] - POSITION_RANK[b.position]
+  )
+}
+
+export function countWord(count: number): string {
+  return count < NUMBER_WORDS.length ? NUMBER_WORDS[count] : String(count)
+}
+
+// Only the last word of labels like "traffic light" changes.
+export function pluralize(noun: string): string {
+  const words = noun.split(' ')
+  const last = words[words.length - 1]
+  let plural = IRREGULAR_PLURALS[last]
+  if (!plural) {
+    if (/(s|x|z|ch|sh)$/.test(last)) plural = `${last}es`
+    else if (/[^aeiou]y$/.test(last)) plural = `${last.slice(0, -1)}ies`
+    else plural = `${last}s`
+  }
+  return [...words.slice(0, -1), plural].join(' ')
+}
+
+export function quantity(count: number, noun: string): string {
+  if (count === 1) return `${/^[aeiou]/.test(noun) ? 'an' : 'a'} ${noun}`
+  return `${countWord(count)} ${pluralize(noun)}`
+}
+
+export function phraseGroup({ label, position, count, distance, proximity }: SceneGroup): string {
+  const where = position === 'center' ? 'ahead' : `on the ${position}`
+  const howFar = distance != null
+    ? ` ${spokenDistance(distance)}`
+    : proximity === 'close' ? ' very close' : proximity === 'near' ? ' close' : ''
+  return `${quantity(count, label ?? 'object')} ${where}${howFar}`
+}
+
+// "Two chairs on the left, a person ahead about 2 meters", nearest first.
+export function describeScene(groups: SceneGroup[]): string {
+  if (groups.length === 0) return 'Nothing detected around you'
+  const phrases = groups.slice(0, MAX_SCENE_GROUPS).map(phraseGroup)
+  const rest = groups.slice(MAX_SCENE_GROUPS).reduce((sum, g) => sum + g.count, 0)
+  if (rest > 0) phrases.push(`and ${countWord(rest)} more ${rest === 1 ? 'thing' : 'things'}`)
+  const text = phrases.join(', ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
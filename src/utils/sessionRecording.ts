@@ -0,0 +1,141 @@
+import { MotionSample } from '../hooks/motionCore'
+
+// Recorded sessions are NDJSON: one header line followed by one line per processed frame, interleaved with IMU lines.
+// Boxes are stored flat ([ymin, xmin, ymax, xmax] per detection) and rounded to keep files small.
+
+export const SESSION_FORMAT_VERSION = 1
+
+export type SessionHeader = {
+  type: 'header'
+  version: number
+  startedAt: number
+  model: string | null
+  // Detections scoring below this were not recorded.
+  minScore: number
+}
+
+export type RecordedFrame = {
+  // Milliseconds since the session started.
+  t: number
+  f: number
+  b: number[]
+  c: number[]
+  s: number[]
+}
+
+export type RecordedMotion = {
+  type: 'imu'
+  // Milliseconds since the session started.
+  t: number
+  // Rotation rate (deg/s) and acceleration without gravity (m/s²).
+  r: [number, number, number]
+  a: [number, number, number]
+}
+
+export type RecordedSession = {
+  header: SessionHeader
+  frames: RecordedFrame[]
+  // IMU samples on the same clock as the frames; empty for sessions recorded without them.
+  motion: MotionSample[]
+}
+
+export const DEFAULT_RECORD_MIN_SCORE = 0.1
+
+export function createSessionHeader(
+  startedAt: number,
+  model: string | null,
+  minScore = DEFAULT_RECORD_MIN_SCORE
+): SessionHeader {
+  return { type: 'header', version: SESSION_FORMAT_VERSION, startedAt, model, minScore }
+}
+
+export function compactFrame(
+  t: number,
+  frameCount: number,
+  boxes: any,
+  classIds: any,
+  scores: any,
+  minScore = DEFAULT_RECORD_MIN_SCORE
+): RecordedFrame {
+  const frame: RecordedFrame = { t: Math.round(t), f: frameCount, b: [], c: [], s: [] }
+  if (!scores) return frame
+
+  for (let i = 0; i < scores.length; i++) {
+    const score = Number(scores[i])
+    if (!(score >= minScore)) continue
+
+    let box: any = null
+    if (boxes && Array.isArray(boxes[i])) {
+      box = boxes[i]
+    } else if (boxes && typeof boxes[i * 4] === 'number') {
+      box = [boxes[i * 4], boxes[i * 4 + 1], boxes[i * 4 + 2], boxes[i * 4 + 3]]
+    }
+    if (!box || box.length < 4) continue
+
+    for (let k = 0; k < 4; k++) frame.b.push(round(Number(box[k]), 4))
+    frame.c.push(classIds ? Number(classIds[i]) : -1)
+    frame.s.push(round(score, 3))
+  }
+  return frame
+}
+
+export function compactMotion(t: number, sample: MotionSample): RecordedMotion {
+  return {
+    type: 'imu',
+    t: Math.round(t),
+    r: sample.rotation.map(v => round(v, 2)) as RecordedMotion['r'],
+    a: sample.acceleration.map(v => round(v, 3)) as RecordedMotion['a'],
+  }
+}
+
+export function serializeSessionLine(line: SessionHeader | RecordedFrame | RecordedMotion): string {
+  return JSON.stringify(line) + '\n'
+}
+
+export function parseSession(text: string): RecordedSession {
+  let header: SessionHeader | null = null
+  const frames: RecordedFrame[] = []
+  const motion: MotionSample[] = []
+
+  const lines = text.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line) continue
+    let parsed: any
+    try {
+      parsed = JSON.parse(line)
+    } catch (e) {
+      throw new Error(`Invalid session line ${i + 1}: ${String(e)}`)
+    }
+    if (parsed?.type === 'header') {
+      header = parsed as SessionHeader
+    } else if (parsed?.type === 'imu') {
+      if (typeof parsed.t === 'number' && isVector(parsed.r) && isVector(parsed.a)) {
+        motion.push({ t: parsed.t, rotation: parsed.r, acceleration: parsed.a })
+      }
+    } else if (typeof parsed?.t === 'number' && Array.isArray(parsed?.s)) {
+      frames.push({
+        t: parsed.t,
+        f: typeof parsed.f === 'number' ? parsed.f : frames.length + 1,
+        b: Array.isArray(parsed.b) ? parsed.b : [],
+        c: Array.isArray(parsed.c) ? parsed.c : [],
+        s: parsed.s,
+      })
+    }
+  }
+
+  if (!header) throw new Error('Session has no header line')
+  if (header.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`Unsupported session version ${header.version}`)
+  }
+  return { header, frames, motion }
+}
+
+function isVector(v: any): v is [number, number, number] {
+  return Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number')
+}
+
+function round(v: number, digits: number) {
+  const f = Math.pow(10, digits)
+  return Math.round(v * f) / f
+}
@@ -0,0 +1,145 @@
+import { AlertLevel } from '../hooks/detectionCore'
+import { FilterOptions, filterDetections } from '../hooks/filterCore'
+import { createMotionTimeline, DEFAULT_MOTION_OPTIONS, MotionOptions, MotionSample, NO_MOTION } from '../hooks/motionCore'
+import { createTrackerState, TrackerOptions, updateTracks } from '../hooks/trackerCore'
+import { RecordedSession } from './sessionRecording'
+
+export type ReplayOptions = {
+  filter: FilterOptions
+  // Extra spacing between analysed frames, for trying out slower pacing. Off by default: recorded frames already
+  // passed the pacing on the device, so every one of them was analysed there.
+  cooldownMs?: number
+  tracker: TrackerOptions
+  motion?: MotionOptions
+}
+
+export type ReplayTrackState = {
+  id: number
+  label: string | null
+  detected: boolean
+  alertLevel: AlertLevel
+  smoothed: number
+  slope: number
+  distance: number | null
+  timeToContact: number | null
+}
+
+export type TimelineEntry = {
+  t: number
+  frame: number
+  accepted: number
+  rejected: number
+  fallback: boolean
+  tracks: ReplayTrackState[]
+  born: number[]
+  died: number[]
+  changed: number[]
+}
+
+// Runs a recorded session through the live pipeline: box filtering and per-track analysis.
+// An IMU trace, from the session or supplied separately, is fused in the same way as on the device.
+export function replaySession(
+  session: RecordedSession,
+  options: ReplayOptions,
+  motion: MotionSample[] = session.motion ?? []
+): TimelineEntry[] {
+  const timeline: TimelineEntry[] = []
+  let tracker = createTrackerState()
+  let lastDetectionTime = -Infinity
+  const motionAt = motion.length > 0 ? createMotionTimeline(motion, options.motion ?? DEFAULT_MOTION_OPTIONS) : () => NO_MOTION
+
+  for (const frame of session.frames) {
+    if (frame.t - lastDetectionTime < (options.cooldownMs ?? 0)) continue
+
+    const result = filterDetections(
+      { boxes: frame.b, classIds: frame.c, confidenceScores: frame.s },
+      options.filter
+    )
+
+    const detections = result.fallback ? [result.fallback] : result.detections
+    const update = updateTracks(tracker, detections, frame.t, options.tracker, motionAt(frame.t))
+    tracker = update.state
+    lastDetectionTime = frame.t
+
+    timeline.push({
+      t: frame.t,
+      frame: frame.f,
+      accepted: result.detections.length,
+      rejected: result.decisions.filter(d => !d.accepted && d.reason !== 'below-threshold').length,
+      fallback: result.fallback != null,
+      tracks: tracker.tracks.map(track => ({
+        id: track.id,
+        label: track.label,
+        detected: track.detected,
+        alertLevel: track.alertLevel,
+        smoothed: track.smoothed,
+        slope: track.slope,
+        distance: track.distance,
+        timeToContact: track.timeToContact,
+      })),
+      born: update.born,
+      died: update.died,
+      changed: update.changed,
+    })
+  }
+
+  return timeline
+}
+
+// Time ranges (session milliseconds) during which each track was reported as an obstacle.
+export function detectionIntervals(timeline: TimelineEntry[]) {
+  const open = new Map<number, { trackId: number; label: string | null; start: number; end: number }>()
+  const out: { trackId: number; label: string | null; start: number; end: number }[] = []
+
+  for (const entry of timeline) {
+    const seen = new Set<number>()
+    for (const track of entry.tracks) {
+      seen.add(track.id)
+      const current = open.get(track.id)
+      if (track.detected) {
+        if (current) {
+          current.end = entry.t
+          current.label = track.label
+        } else {
+          open.set(track.id, { trackId: track.id, label: track.label, start: entry.t, end: entry.t })
+        }
+      } else if (current) {
+        out.push(current)
+        open.delete(track.id)
+      }
+    }
+    for (const [id, interval] of open) {
+      if (!seen.has(id)) {
+        out.push(interval)
+        open.delete(id)
+      }
+    }
+  }
+  out.push(...open.values())
+  return out.sort((a, b) => a.start - b.start)
+}
+
+// Human readable state changes, one line per track event.
+export function formatTimeline(timeline: TimelineEntry[]): string {
+  const lines: string[] = []
+  for (const entry of timeline) {
+    const prefix = `${String(entry.t).padStart(7)}ms  frame ${String(entry.frame).padStart(5)}`
+    for (const id of entry.born) {
+      const track = entry.tracks.find(t => t.id === id)
+      lines.push(`${prefix}  track ${id} born (${track?.label ?? 'unknown'})`)
+    }
+    for (const id of entry.changed) {
+      const track = entry.tracks.find(t => t.id === id)
+      if (!track) continue
+      const slope = `${track.slope >= 0 ? '+' : ''}${track.slope.toFixed(4)}`
+      const ttc = track.timeToContact != null && isFinite(track.timeToContact) ? `${track.timeToContact.toFixed(1)}s` : '-'
+      const distance = track.distance != null ? ` distance=${track.distance.toFixed(2)}m` : ''
+      const level = track.detected ? ` level=${track.alertLevel}` : ''
+      lines.push(`${prefix}  track ${id} ${track.detected ? 'DETECTED' : 'cleared'} (${track.label ?? 'unknown'})${level} smoothed=${track.smoothed.toFixed(3)} slope=${slope}${distance} ttc=${ttc}`)
+    }
+    for (const id of entry.died) {
+      lines.push(`${prefix}  track ${id} lost`)
+    }
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,130 @@
+import { AlertLevel } from '../hooks/detectionCore'
+import { resolveClassPolicy } from './classPolicy'
+import { encodeStereoWav, panFromCenterX, quantizePan } from './directionalCues'
+
+// Harmonic amplitudes: people sound hollow, vehicles and other urgent classes bright, everything else pure.
+export type Timbre = 'pure' | 'hollow' | 'bright'
+
+export const TIMBRE_HARMONICS: Record<Timbre, number[]> = {
+  pure: [1],
+  hollow: [1, 0, 0.35, 0, 0.2],
+  bright: [1, 0.5, 0.33, 0.25, 0.2],
+}
+
+export type SonificationVoice = {
+  frequency: number
+  pan: number
+  timbre: Timbre
+}
+
+export type SonificationInput = {
+  alertLevel: AlertLevel
+  label: string | null
+  centerX: number | null
+  // Meters, when the camera model gives one; otherwise box height stands in for proximity.
+  distance: number | null
+  height: number | null
+}
+
+// Pitch rises two octaves from far to near, in semitone steps so clips can be cached.
+const MIN_FREQUENCY = 220
+const OCTAVES = 2
+const NEAR_M = 0.5
+const FAR_M = 4
+// Without a distance, a box this tall counts as touching.
+const NEAR_HEIGHT = 0.8
+
+// Speech stays intelligible over the tone at this fraction of the volume.
+export const SPEECH_DUCK_GAIN = 0.25
+
+// 0 is far, 1 is right in front of the camera.
+export function proximity(distance: number | null, height: number | null): number {
+  if (distance != null && isFinite(distance)) {
+    return Math.max(0, Math.min(1, (FAR_M - distance) / (FAR_M - NEAR_M)))
+  }
+  if (height != null && isFinite(height)) return Math.max(0, Math.min(1, height / NEAR_HEIGHT))
+  return 0
+}
+
+export function pitchForProximity(value: number): number {
+  const semitones = Math.round(Math.max(0, Math.min(1, value)) * OCTAVES * 12)
+  return Math.round(MIN_FREQUENCY * 2 ** (semitones / 12))
+}
+
+export function timbreForLabel(label: string | null): Timbre {
+  if (label === 'person') return 'hollow'
+  return resolveClassPolicy(label).urgent ? 'bright' : 'pure'
+}
+
+export function sonificationVoice(input: SonificationInput): SonificationVoice | null {
+  if (input.alertLevel === 'none') return null
+  return {
+    frequency: pitchForProximity(proximity(input.distance, input.height)),
+    pan: quantizePan(panFromCenterX(input.centerX)),
+    timbre: timbreForLabel(input.label),
+  }
+}
+
+export function voiceKey(voice: SonificationVoice, looped: boolean): string {
+  return `tone_${voice.timbre}_${voice.frequency}_${Math.round(voice.pan * 100)}${looped ? '_loop' : ''}`
+}
+
+export function duckedVolume(volume: number, speaking: boolean): number {
+  return speaking ? volume * SPEECH_DUCK_GAIN : volume
+}
+
+// A drop-off is the one thing that gets a falling figure: obstacles only ever hold or climb in pitch.
+export const DROP_OFF_CUE: SonificationVoice[] = [
+  { frequency: 880, pan: 0, timbre: 'bright' },
+  { frequency: 440, pan: 0, timbre: 'bright' },
+  { frequency: 220, pan: 0, timbre: 'bright' },
+]
+
+type ToneOptions = { durationMs: number; looped: boolean; volume?: number; sampleRate?: number }
+
+// A tone for the voice. Looped clips hold a whole number of cycles and no fades, so repeating them is seamless;
+// one-shot clips fade in and out so pulses do not click.
+export function synthesizeTone(voice: SonificationVoice, options: ToneOptions): Uint8Array {
+  return encodeStereoWav(toneSamples(voice, options), voice.pan, options.sampleRate ?? 22050)
+}
+
+// Several faded notes with a short silence between them, panned like the first one.
+export function synthesizeCue(
+  voices: SonificationVoice[],
+  { noteMs, gapMs, volume, sampleRate = 22050 }: { noteMs: number; gapMs: number; volume?: number; sampleRate?: number }
+): Uint8Array {
+  const gap = Math.round((sampleRate * gapMs) / 1000)
+  const notes = voices.map(voice => toneSamples(voice, { durationMs: noteMs, looped: false, volume, sampleRate }))
+  const samples = new Float32Array(notes.reduce((n, note) => n + note.length, 0) + gap * Math.max(0, notes.length - 1))
+  let offset = 0
+  for (const note of notes) {
+    samples.set(note, offset)
+    offset += note.length + gap
+  }
+  return encodeStereoWav(samples, voices[0]?.pan ?? 0, sampleRate)
+}
+
+function toneSamples(
+  voice: SonificationVoice,
+  { durationMs, looped, volume = 0.8, sampleRate = 22050 }: ToneOptions
+): Float32Array {
+  const requested = Math.round((sampleRate * durationMs) / 1000)
+  const cycles = Math.max(1, Math.round((voice.frequency * requested) / sampleRate))
+  const frames = looped ? Math.round((cycles * sampleRate) / voice.frequency) : requested
+  // Looped clips bend the pitch very slightly so the last cycle closes exactly.
+  const phaseStep = looped ? (2 * Math.PI * cycles) / frames : (2 * Math.PI * voice.frequency) / sampleRate
+  const harmonics = TIMBRE_HARMONICS[voice.timbre]
+  const norm = harmonics.reduce((s, a) => s + a, 0)
+  const fadeFrames = Math.max(1, Math.round(sampleRate * 0.01))
+
+  const samples = new Float32Array(frames)
+  for (let i = 0; i < frames; i++) {
+    let value = 0
+    for (let h = 0; h < harmonics.length; h++) {
+      if (harmonics[h] !== 0) value += harmonics[h] * Math.sin(phaseStep * (h + 1) * i)
+    }
+    const envelope = looped ? 1 : Math.min(1, i / fadeFrames, (frames - 1 - i) / fadeFrames)
+    samples[i] = (value / norm) * volume * envelope
+  }
+  return samples
+}
@@ -0,0 +1,248 @@
+import { gzipSync, strToU8 } from 'fflate'
+
+export type TelemetryEvent = Record<string, unknown>
+
+export type TelemetryMetadata = {
+  sessionId: string
+  appVersion: string | null
+  model: string | null
+  platform: string | null
+}
+
+export type TelemetryStorage = {
+  getItem: (key: string) => Promise<string | null>
+  setItem: (key: string, value: string) => Promise<void>
+}
+
+export type TelemetryOptions = {
+  url: string | null
+  metadata: TelemetryMetadata
+  storage?: TelemetryStorage | null
+  storageKey?: string
+  batchSize?: number
+  maxQueue?: number
+  // New events are written to storage at most this often; sends, failures, clear and save write at once.
+  persistDelayMs?: number
+  gzip?: boolean
+  baseDelayMs?: number
+  maxDelayMs?: number
+  fetch?: typeof fetch
+  random?: () => number
+  setTimer?: (callback: () => void, ms: number) => unknown
+  clearTimer?: (handle: unknown) => void
+}
+
+export type FlushResult =
+  | { success: true; sent: number }
+  | { success: false; reason: string; retryInMs: number | null }
+
+export const TELEMETRY_STORAGE_KEY = 'ailens.telemetryQueue.v1'
+
+// Retryable failures: network errors, timeouts, rate limiting and server errors.
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+// Full jitter: a random delay between 0 and the capped exponential step.
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+  const cap = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt))
+  return Math.round(random() * cap)
+}
+
+export function createSessionId(random: () => number = Math.random): string {
+  let id = ''
+  for (let i = 0; i < 16; i++) id += Math.floor(random() * 16).toString(16)
+  return `${Date.now().toString(36)}-${id}`
+}
+
+// One header line with batch metadata, then one line per event.
+export function encodeBatch(events: TelemetryEvent[], metadata: TelemetryMetadata, sentAt: number): string {
+  const header = { type: 'batch', ...metadata, sentAt, count: events.length }
+  return [header, ...events].map(line => JSON.stringify(line)).join('\n') + '\n'
+}
+
+export function createTelemetryUploader({
+  url,
+  metadata,
+  storage = null,
+  storageKey = TELEMETRY_STORAGE_KEY,
+  batchSize = 20,
+  maxQueue = 1000,
+  persistDelayMs = 5000,
+  gzip = true,
+  baseDelayMs = 1000,
+  maxDelayMs = 5 * 60 * 1000,
+  fetch: fetchImpl = (...args) => fetch(...args),
+  random = Math.random,
+  setTimer = (callback, ms) => setTimeout(callback, ms),
+  clearTimer = handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}: TelemetryOptions) {
+  let queue: TelemetryEvent[] = []
+  let attempt = 0
+  let retryTimer: unknown = null
+  let flushing: Promise<FlushResult> | null = null
+  let persisting: Promise<void> = Promise.resolve()
+  let persistTimer: unknown = null
+  let loading: Promise<void> | null = null
+  let loaded = storage == null
+  let disposed = false
+
+  function persist() {
+    // Until the saved queue is merged in, writing would overwrite it.
+    if (!storage || !loaded) return persisting
+    cancelPersist()
+    const snapshot = JSON.stringify(queue)
+    persisting = persisting
+      .then(() => storage.setItem(storageKey, snapshot))
+      .catch(e => console.warn('Failed to persist telemetry queue:', e))
+    return persisting
+  }
+
+  function cancelPersist() {
+    if (persistTimer != null) {
+      clearTimer(persistTimer)
+      persistTimer = null
+    }
+  }
+
+  // Events arrive with every frame; rewriting the whole queue each time would stall the JS thread.
+  function schedulePersist() {
+    if (!storage || !loaded || persistTimer != null) return
+    persistTimer = setTimer(() => {
+      persistTimer = null
+      persist()
+    }, persistDelayMs)
+  }
+
+  function cancelRetry() {
+    if (retryTimer != null) {
+      clearTimer(retryTimer)
+      retryTimer = null
+    }
+  }
+
+  function scheduleRetry(): number {
+    cancelRetry()
+    const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs, random)
+    attempt++
+    retryTimer = setTimer(() => {
+      retryTimer = null
+      flush()
+    }, delay)
+    return delay
+  }
+
+  async function sendBatch(batch: TelemetryEvent[]): Promise<Response> {
+    const body = encodeBatch(batch, metadata, Date.now())
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-ndjson' }
+    if (gzip) headers['Content-Encoding'] = 'gzip'
+    return fetchImpl(url as string, {
+      method: 'POST',
+      headers,
+      body: gzip ? gzipSync(strToU8(body)) : body,
+    })
+  }
+
+  async function drain(): Promise<FlushResult> {
+    let sent = 0
+    while (queue.length > 0 && !disposed) {
+      const batch = queue.slice(0, batchSize)
+      let reason: string | null = null
+      try {
+        const response = await sendBatch(batch)
+        if (!response.ok) {
+          if (!isRetryableStatus(response.status)) {
+            // The server will never accept this batch; keep it from blocking the queue.
+            console.warn(`Telemetry batch rejected with ${response.status}, dropping ${batch.length} events`)
+            queue.splice(0, batch.length)
+            await persist()
+            continue
+          }
+          reason = `http-${response.status}`
+        }
+      } catch (e) {
+        reason = String(e)
+      }
+
+      if (reason != null) {
+        await persist()
+        const retryInMs = scheduleRetry()
+        console.warn(`Telemetry upload failed (${reason}), retrying in ${retryInMs}ms`)
+        return { success: false, reason, retryInMs }
+      }
+
+      queue.splice(0, batch.length)
+      sent += batch.length
+      attempt = 0
+      await persist()
+    }
+    return { success: true, sent }
+  }
+
+  function load(): Promise<void> {
+    if (!storage) return Promise.resolve()
+    if (!loading) {
+      loading = (async () => {
+        try {
+          const raw = await storage.getItem(storageKey)
+          const saved = raw ? JSON.parse(raw) : []
+          if (Array.isArray(saved) && saved.length > 0) {
+            // Events recorded before the restart go first.
+            queue = [...saved, ...queue].slice(-maxQueue)
+            console.log(`Restored ${saved.length} queued telemetry events`)
+          }
+        } catch (e) {
+          console.warn('Failed to load telemetry queue:', e)
+        }
+        loaded = true
+        await persist()
+      })()
+    }
+    return loading
+  }
+
+  function flush(): Promise<FlushResult> {
+    if (!url) return Promise.resolve({ success: false, reason: 'no-url', retryInMs: null })
+    if (flushing) return flushing
+    cancelRetry()
+    flushing = load()
+      .then(drain)
+      .finally(() => {
+        flushing = null
+      })
+    return flushing
+  }
+
+  return {
+    load,
+    flush,
+    enqueue(events: TelemetryEvent | TelemetryEvent[]) {
+      const list = Array.isArray(events) ? events : [events]
+      if (list.length === 0) return
+      queue.push(...list)
+      if (queue.length > maxQueue) {
+        // drop oldest
+        queue.splice(0, queue.length - maxQueue)
+      }
+      schedulePersist()
+    },
+    // Writes pending events now, e.g. before the app goes to the background.
+    save: () => persist(),
+    size: () => queue.length,
+    recent: (n = 20) => queue.slice(-n),
+    pendingRetry: () => retryTimer != null,
+    clear() {
+      queue = []
+      attempt = 0
+      cancelRetry()
+      return persist()
+    },
+    dispose() {
+      disposed = true
+      cancelRetry()
+      return persistTimer != null ? persist() : persisting
+    },
+  }
+}
+
+export type TelemetryUploader = ReturnType<typeof createTelemetryUploader>